@@ -1,14 +1,18 @@
 import React from 'react';
 import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Restaurant } from '@/types/restaurant';
+import { Restaurant, AttributeDefinition } from '@/types/restaurant';
+import AttributeBreakdownChart from './AttributeBreakdownChart';
 
 interface AnalyticsChartsProps {
   restaurants: Restaurant[];
   filteredRestaurants: Restaurant[];
+  attributes?: AttributeDefinition[];
+  // Area of each uploaded zone boundary in km², keyed by zone name
+  zoneAreas?: Record<string, number> | null;
 }
 
-const AnalyticsCharts: React.FC<AnalyticsChartsProps> = ({ restaurants, filteredRestaurants }) => {
+const AnalyticsCharts: React.FC<AnalyticsChartsProps> = ({ restaurants, filteredRestaurants, attributes = [], zoneAreas = null }) => {
   // Process cuisine data
   const cuisineData = React.useMemo(() => {
     const cuisineCounts: { [key: string]: number } = {};
@@ -36,6 +40,21 @@ const AnalyticsCharts: React.FC<AnalyticsChartsProps> = ({ restaurants, filtered
       .sort((a, b) => b.value - a.value);
   }, [filteredRestaurants]);
 
+  // With real boundaries every zone has an area, so restaurants per km² can be compared,
+  // including zones that have no restaurants at all
+  const zoneDensityData = React.useMemo(() => {
+    if (!zoneAreas) return null;
+    const counts = new Map(zoneData.map(({ name, value }) => [name, value]));
+    return Object.entries(zoneAreas)
+      .filter(([, areaKm2]) => areaKm2 > 0)
+      .map(([name, areaKm2]) => ({
+        name,
+        value: Math.round(((counts.get(name) ?? 0) / areaKm2) * 10) / 10,
+        count: counts.get(name) ?? 0
+      }))
+      .sort((a, b) => b.value - a.value);
+  }, [zoneAreas, zoneData]);
+
   // Geographic distribution data
   const geoData = React.useMemo(() => {
     return filteredRestaurants.map(restaurant => ({
@@ -173,32 +192,65 @@ const AnalyticsCharts: React.FC<AnalyticsChartsProps> = ({ restaurants, filtered
             </CardContent>
           </Card>
 
-          <Card>
-            <CardHeader>
-              <CardTitle>Restaurants by Zone</CardTitle>
-              <CardDescription>Number of restaurants per zone</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <ResponsiveContainer width="100%" height={300}>
-                <BarChart data={zoneData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis 
-                    dataKey="name"
-                    angle={-45}
-                    textAnchor="end"
-                    height={80}
-                    fontSize={12}
-                  />
-                  <YAxis />
-                  <Tooltip />
-                  <Bar dataKey="value" fill="#9c27b0" />
-                </BarChart>
-              </ResponsiveContainer>
-            </CardContent>
-          </Card>
+          {zoneDensityData ? (
+            <Card>
+              <CardHeader>
+                <CardTitle>Restaurant Density by Zone</CardTitle>
+                <CardDescription>Restaurants per km² within each zone boundary</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart data={zoneDensityData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      dataKey="name"
+                      angle={-45}
+                      textAnchor="end"
+                      height={80}
+                      fontSize={12}
+                    />
+                    <YAxis />
+                    <Tooltip
+                      formatter={(value, name, item) => [`${value} per km² (${item.payload.count} restaurants)`, 'Density']}
+                    />
+                    <Bar dataKey="value" fill="#9c27b0" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle>Restaurants by Zone</CardTitle>
+                <CardDescription>Number of restaurants per zone</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart data={zoneData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis 
+                      dataKey="name"
+                      angle={-45}
+                      textAnchor="end"
+                      height={80}
+                      fontSize={12}
+                    />
+                    <YAxis />
+                    <Tooltip />
+                    <Bar dataKey="value" fill="#9c27b0" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          )}
         </div>
       )}
 
+      {/* Breakdown by any imported column */}
+      {attributes.length > 0 && (
+        <AttributeBreakdownChart restaurants={filteredRestaurants} attributes={attributes} />
+      )}
+
       {/* Geographic Distribution */}
       <Card>
         <CardHeader>
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { Circle, CircleMarker, Polygon, Polyline, Rectangle, useMap, useMapEvents } from 'react-leaflet';
+import { AreaShape } from '@/types/restaurant';
+import { haversineDistance } from '@/utils/geo';
+
+export type DrawMode = AreaShape['type'];
+
+interface AreaDrawingLayerProps {
+  mode: DrawMode;
+  onComplete: (shape: AreaShape) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_STYLE = { color: '#e91e63', weight: 2, dashArray: '6 4', fillOpacity: 0.1 };
+
+// Click-based drawing: rectangles and circles take two clicks (corner/center, then the
+// opposite corner/edge); polygons take one click per vertex and finish on double-click
+// or by clicking the first vertex. Escape cancels.
+const AreaDrawingLayer: React.FC<AreaDrawingLayerProps> = ({ mode, onComplete, onCancel }) => {
+  const map = useMap();
+  const [points, setPoints] = useState<[number, number][]>([]);
+  const [cursor, setCursor] = useState<[number, number] | null>(null);
+
+  useEffect(() => {
+    setPoints([]);
+    map.doubleClickZoom.disable();
+    map.getContainer().style.cursor = 'crosshair';
+
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', handleKey);
+
+    return () => {
+      map.doubleClickZoom.enable();
+      map.getContainer().style.cursor = '';
+      window.removeEventListener('keydown', handleKey);
+    };
+  }, [map, mode, onCancel]);
+
+  const finishPolygon = (vertices: [number, number][]) => {
+    // A double-click also registers two clicks on the same spot; drop the repeated vertex
+    const ring = vertices.filter((vertex, i) =>
+      i === 0 || vertex[0] !== vertices[i - 1][0] || vertex[1] !== vertices[i - 1][1]
+    );
+    if (ring.length >= 3) {
+      onComplete({ type: 'polygon', ring });
+    }
+    setPoints([]);
+  };
+
+  useMapEvents({
+    mousemove: (event) => setCursor([event.latlng.lat, event.latlng.lng]),
+    click: (event) => {
+      const point: [number, number] = [event.latlng.lat, event.latlng.lng];
+
+      if (mode === 'polygon') {
+        const first = points[0];
+        const closesRing = first && points.length >= 3 &&
+          map.latLngToContainerPoint(first).distanceTo(event.containerPoint) < 10;
+        if (closesRing) {
+          finishPolygon(points);
+        } else {
+          setPoints([...points, point]);
+        }
+        return;
+      }
+
+      if (points.length === 0) {
+        setPoints([point]);
+        return;
+      }
+
+      const [start] = points;
+      if (mode === 'rectangle') {
+        onComplete({
+          type: 'rectangle',
+          bounds: {
+            minLat: Math.min(start[0], point[0]),
+            minLon: Math.min(start[1], point[1]),
+            maxLat: Math.max(start[0], point[0]),
+            maxLon: Math.max(start[1], point[1])
+          }
+        });
+      } else {
+        onComplete({ type: 'circle', center: start, radiusMeters: haversineDistance(start, point) });
+      }
+      setPoints([]);
+    },
+    dblclick: () => {
+      if (mode === 'polygon') finishPolygon(points);
+    }
+  });
+
+  if (points.length === 0 || !cursor) return null;
+
+  const [start] = points;
+  switch (mode) {
+    case 'rectangle':
+      return <Rectangle bounds={[start, cursor]} pathOptions={PREVIEW_STYLE} />;
+    case 'circle':
+      return <Circle center={start} radius={haversineDistance(start, cursor)} pathOptions={PREVIEW_STYLE} />;
+    case 'polygon':
+      return (
+        <>
+          {points.length >= 2 && <Polygon positions={points} pathOptions={{ ...PREVIEW_STYLE, weight: 0 }} />}
+          <Polyline positions={[...points, cursor]} pathOptions={PREVIEW_STYLE} />
+          <CircleMarker center={start} radius={5} pathOptions={{ color: '#e91e63', fillOpacity: 1 }} />
+        </>
+      );
+  }
+};
+
+export default AreaDrawingLayer;
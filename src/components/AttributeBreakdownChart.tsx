@@ -0,0 +1,96 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AttributeDefinition, Restaurant } from '@/types/restaurant';
+import { BreakdownDimension, buildAttributeBreakdown, formatAttributeKey } from '@/utils/attributes';
+
+interface AttributeBreakdownChartProps {
+  restaurants: Restaurant[];
+  attributes: AttributeDefinition[];
+}
+
+const COUNT_METRIC = '__count__';
+
+const AttributeBreakdownChart: React.FC<AttributeBreakdownChartProps> = ({ restaurants, attributes }) => {
+  const [dimensionKey, setDimensionKey] = useState('field:cuisine');
+  const [metricKey, setMetricKey] = useState(COUNT_METRIC);
+
+  const numericAttributes = attributes.filter(attribute => attribute.type === 'number');
+
+  const dimension: BreakdownDimension = useMemo(() => {
+    const attribute = attributes.find(a => `attribute:${a.key}` === dimensionKey);
+    if (attribute) return { kind: 'attribute', attribute };
+    return { kind: 'field', field: dimensionKey === 'field:zone' ? 'zone' : 'cuisine' };
+  }, [attributes, dimensionKey]);
+
+  const metric = numericAttributes.some(a => a.key === metricKey) ? metricKey : null;
+
+  const data = useMemo(
+    () => buildAttributeBreakdown(restaurants, dimension, metric),
+    [restaurants, dimension, metric]
+  );
+
+  const metricLabel = metric ? `Average ${formatAttributeKey(metric)}` : 'Restaurants';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Attribute Breakdown</CardTitle>
+        <CardDescription>Compare restaurants across any imported column</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Group by</Label>
+            <Select value={dimensionKey} onValueChange={setDimensionKey}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="field:cuisine">Cuisine</SelectItem>
+                <SelectItem value="field:zone">Zone</SelectItem>
+                {attributes.map(attribute => (
+                  <SelectItem key={attribute.key} value={`attribute:${attribute.key}`}>
+                    {formatAttributeKey(attribute.key)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Measure</Label>
+            <Select value={metric ?? COUNT_METRIC} onValueChange={setMetricKey}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={COUNT_METRIC}>Number of restaurants</SelectItem>
+                {numericAttributes.map(attribute => (
+                  <SelectItem key={attribute.key} value={attribute.key}>
+                    Average {formatAttributeKey(attribute.key)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <ResponsiveContainer width="100%" height={300}>
+          <BarChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" angle={-45} textAnchor="end" height={80} fontSize={12} />
+            <YAxis />
+            <Tooltip
+              formatter={(value: number) => [value.toLocaleString(undefined, { maximumFractionDigits: 2 }), metricLabel]}
+            />
+            <Bar dataKey="value" fill="#3f51b5" name={metricLabel} />
+          </BarChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AttributeBreakdownChart;
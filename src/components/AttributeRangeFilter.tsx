@@ -0,0 +1,48 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { RangeFilter } from '@/types/restaurant';
+
+interface AttributeRangeFilterProps {
+  type: 'number' | 'date';
+  extent: [number, number] | null;
+  range: RangeFilter;
+  onChange: (range: RangeFilter) => void;
+}
+
+// Dates travel as UTC-midnight timestamps, matching how stored ISO dates are compared
+const toInputValue = (value: number | null, type: AttributeRangeFilterProps['type']) => {
+  if (value === null) return '';
+  return type === 'date' ? new Date(value).toISOString().slice(0, 10) : String(value);
+};
+
+const fromInputValue = (value: string, type: AttributeRangeFilterProps['type']) => {
+  if (value === '') return null;
+  const parsed = type === 'date' ? Date.parse(value) : Number(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+const AttributeRangeFilter: React.FC<AttributeRangeFilterProps> = ({ type, extent, range, onChange }) => {
+  const inputType = type === 'date' ? 'date' : 'number';
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type={inputType}
+        placeholder={extent ? toInputValue(extent[0], type) : 'Min'}
+        value={toInputValue(range.min, type)}
+        onChange={(e) => onChange({ ...range, min: fromInputValue(e.target.value, type) })}
+        className="h-9"
+      />
+      <span className="text-muted-foreground">–</span>
+      <Input
+        type={inputType}
+        placeholder={extent ? toInputValue(extent[1], type) : 'Max'}
+        value={toInputValue(range.max, type)}
+        onChange={(e) => onChange({ ...range, max: fromInputValue(e.target.value, type) })}
+        className="h-9"
+      />
+    </div>
+  );
+};
+
+export default AttributeRangeFilter;
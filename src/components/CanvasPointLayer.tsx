@@ -0,0 +1,41 @@
+import React, { useEffect, useMemo } from 'react';
+import { useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { Restaurant } from '@/types/restaurant';
+
+export interface CanvasPoint {
+  restaurant: Restaurant;
+  style: L.CircleMarkerOptions;
+}
+
+interface CanvasPointLayerProps {
+  points: CanvasPoint[];
+  onSelect: (restaurant: Restaurant) => void;
+}
+
+// Draws restaurants as circle markers on a single shared canvas instead of one DOM node each.
+// Markers are created imperatively (no React element per point) and carry no popup;
+// clicks are reported through onSelect so the caller can open one popup on demand.
+const CanvasPointLayer: React.FC<CanvasPointLayerProps> = ({ points, onSelect }) => {
+  const map = useMap();
+  const renderer = useMemo(() => L.canvas({ padding: 0.5 }), []);
+
+  useEffect(() => {
+    const group = L.layerGroup();
+
+    for (const { restaurant, style } of points) {
+      L.circleMarker([restaurant.lat, restaurant.lon], { ...style, renderer })
+        .on('click', () => onSelect(restaurant))
+        .addTo(group);
+    }
+
+    group.addTo(map);
+    return () => {
+      group.remove();
+    };
+  }, [map, renderer, points, onSelect]);
+
+  return null;
+};
+
+export default CanvasPointLayer;
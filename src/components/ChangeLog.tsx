@@ -0,0 +1,43 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { DatasetEdit } from '@/types/restaurant';
+import { CHANGE_TYPE_LABELS } from '@/utils/editing';
+
+interface ChangeLogProps {
+  edits: DatasetEdit[];
+}
+
+// Edits still in effect, newest first; undone edits drop off until they are redone
+const ChangeLog: React.FC<ChangeLogProps> = ({ edits }) => {
+  if (edits.length === 0) {
+    return <p className="text-sm text-muted-foreground">No edits yet.</p>;
+  }
+
+  return (
+    <ol className="max-h-72 space-y-3 overflow-y-auto">
+      {[...edits].reverse().map(edit => (
+        <li key={edit.at + edit.label} className="space-y-1 border-b pb-2 last:border-b-0">
+          <div className="flex items-baseline justify-between gap-2">
+            <span className="text-sm font-medium">{edit.label}</span>
+            <span className="shrink-0 text-xs text-muted-foreground">{new Date(edit.at).toLocaleTimeString()}</span>
+          </div>
+          <ul className="space-y-0.5 text-xs text-muted-foreground">
+            {edit.changes.map((change, index) => (
+              <li key={`${change.restaurantId}-${index}`} className="flex flex-wrap items-center gap-1">
+                <Badge variant="outline" className="px-1.5 py-0 text-[10px]">{CHANGE_TYPE_LABELS[change.type]}</Badge>
+                <span>{change.restaurantName}</span>
+                {change.field && <span>· {change.field}</span>}
+                {change.before !== undefined && <span>{change.before || '—'} →</span>}
+                {change.type === 'merge'
+                  ? <span>into {change.after}</span>
+                  : change.after !== undefined && <span>{change.after || '—'}</span>}
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default ChangeLog;
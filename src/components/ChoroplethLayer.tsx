@@ -0,0 +1,30 @@
+import React from 'react';
+import { Polygon, Tooltip } from 'react-leaflet';
+import { ChoroplethResult, formatMetricValue } from '@/utils/choropleth';
+
+interface ChoroplethLayerProps {
+  choropleth: ChoroplethResult;
+}
+
+// Zones filled by their metric class, with the value and restaurant count on hover
+const ChoroplethLayer: React.FC<ChoroplethLayerProps> = ({ choropleth }) => {
+  return (
+    <>
+      {choropleth.zones.map(zone => (
+        <Polygon
+          key={zone.name}
+          positions={zone.polygons}
+          pathOptions={{ color: '#616161', weight: 1, fillColor: zone.color, fillOpacity: 0.65 }}
+        >
+          <Tooltip sticky>
+            <strong>{zone.name}</strong>:{' '}
+            {zone.value === null ? 'no data' : formatMetricValue(choropleth.metric, zone.value)}
+            {' '}({zone.restaurantCount} restaurants)
+          </Tooltip>
+        </Polygon>
+      ))}
+    </>
+  );
+};
+
+export default ChoroplethLayer;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ClusterCountEvaluation } from '@/types/restaurant';
+
+interface ClusterCountChartProps {
+  evaluation: ClusterCountEvaluation;
+}
+
+const ClusterCountChart: React.FC<ClusterCountChartProps> = ({ evaluation }) => {
+  const recommended = evaluation.scores.find(score => score.k === evaluation.recommendedK);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cluster Count Selection</CardTitle>
+        <CardDescription>
+          Inertia (elbow method) and silhouette score for each candidate number of clusters
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap gap-2 mb-4">
+          <Badge variant="secondary">Recommended k: {evaluation.recommendedK}</Badge>
+          <Badge variant="outline">Elbow at k = {evaluation.elbowK}</Badge>
+          {recommended && (
+            <>
+              <Badge variant="outline">Silhouette: {recommended.silhouette.toFixed(3)}</Badge>
+              <Badge variant="outline">Davies–Bouldin: {recommended.daviesBouldin.toFixed(3)}</Badge>
+            </>
+          )}
+        </div>
+        <ResponsiveContainer width="100%" height={220}>
+          <LineChart data={evaluation.scores} margin={{ top: 10, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="k" fontSize={12} />
+            <YAxis yAxisId="inertia" fontSize={10} />
+            <YAxis yAxisId="silhouette" orientation="right" domain={[-1, 1]} fontSize={10} />
+            <Tooltip
+              formatter={(value: number, name) => [value.toFixed(3), name]}
+              labelFormatter={(label) => `k = ${label}`}
+            />
+            <Legend />
+            <ReferenceLine yAxisId="inertia" x={evaluation.recommendedK} stroke="#4caf50" strokeDasharray="4 4" />
+            <Line yAxisId="inertia" type="monotone" dataKey="inertia" name="Inertia (km²)" stroke="#e91e63" />
+            <Line yAxisId="silhouette" type="monotone" dataKey="silhouette" name="Silhouette" stroke="#3f51b5" />
+          </LineChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClusterCountChart;
@@ -0,0 +1,209 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, MapPin } from 'lucide-react';
+import { AttributeType, ColumnMapping, ImportField, RawTable } from '@/types/restaurant';
+import {
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  REQUIRED_IMPORT_FIELDS,
+  isMappingComplete,
+  emptyColumnMapping
+} from '@/utils/columnMapping';
+import { ATTRIBUTE_TYPE_LABELS, detectAttributeTypes } from '@/utils/attributes';
+import { validateRows } from '@/utils/importValidation';
+
+interface ColumnMappingWizardProps {
+  table: RawTable;
+  initialMapping: ColumnMapping;
+  sourceLabel: string;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+const UNMAPPED = '__unmapped__';
+const ATTRIBUTE_TYPES: AttributeType[] = ['number', 'category', 'date'];
+
+const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({
+  table,
+  initialMapping,
+  sourceLabel,
+  onConfirm,
+  onCancel
+}) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  // Type for every column that is kept as an extra attribute; null drops the column
+  const [attributeTypes, setAttributeTypes] = useState<Record<string, AttributeType | null>>(
+    () => initialMapping.attributes ?? detectAttributeTypes(table, emptyColumnMapping())
+  );
+
+  const fieldForColumn = useMemo(() => {
+    const lookup = new Map<string, ImportField>();
+    IMPORT_FIELDS.forEach(field => {
+      if (mapping[field]) lookup.set(mapping[field]!, field);
+    });
+    return lookup;
+  }, [mapping]);
+
+  const extraColumns = table.fields.filter(column => !fieldForColumn.has(column));
+
+  const handleConfirm = () => {
+    const attributes: Record<string, AttributeType> = {};
+    extraColumns.forEach(column => {
+      if (attributeTypes[column]) attributes[column] = attributeTypes[column]!;
+    });
+    onConfirm({ ...mapping, attributes });
+  };
+
+  // Rows the current mapping would reject, so a wrong guess shows up before import. Rows that
+  // only have an address are counted apart, since they can still be geocoded.
+  const { invalidRows, geocodingRows } = useMemo(() => {
+    if (!isMappingComplete(mapping)) return { invalidRows: 0, geocodingRows: 0 };
+    const { issues } = validateRows(table, mapping);
+    const geocodingRows = issues.filter(issue => issue.type === 'needs-geocoding').length;
+    return { invalidRows: issues.length - geocodingRows, geocodingRows };
+  }, [table, mapping]);
+
+  const updateField = (field: ImportField, column: string) => {
+    const value = column === UNMAPPED ? null : column;
+    const next = { ...mapping, [field]: value };
+
+    // A column feeds at most one field; moving it clears the previous assignment
+    IMPORT_FIELDS.forEach(other => {
+      if (other !== field && value !== null && next[other] === value) next[other] = null;
+    });
+    setMapping(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="font-semibold">Map columns</h3>
+        <p className="text-sm text-muted-foreground">
+          Found {table.fields.length} columns and {table.rows.length} rows in {sourceLabel}.
+          Check the suggested mapping before importing.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-6 gap-3">
+        {IMPORT_FIELDS.map(field => (
+          <div key={field} className="space-y-1">
+            <Label className="text-xs">
+              {IMPORT_FIELD_LABELS[field]}
+              {REQUIRED_IMPORT_FIELDS.includes(field) && <span className="text-destructive"> *</span>}
+            </Label>
+            <Select value={mapping[field] ?? UNMAPPED} onValueChange={(column) => updateField(field, column)}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                {table.fields.map(column => (
+                  <SelectItem key={column} value={column}>{column}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      {extraColumns.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Extra attributes</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {extraColumns.map(column => (
+              <div key={column} className="space-y-1">
+                <Label className="text-xs truncate block">{column}</Label>
+                <Select
+                  value={attributeTypes[column] ?? UNMAPPED}
+                  onValueChange={(type) => setAttributeTypes({
+                    ...attributeTypes,
+                    [column]: type === UNMAPPED ? null : type as AttributeType
+                  })}
+                >
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ATTRIBUTE_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{ATTRIBUTE_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                    <SelectItem value={UNMAPPED}>Ignore</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {table.fields.map(column => (
+                <TableHead key={column} className="whitespace-nowrap">
+                  <div className="flex items-center gap-1 py-1">
+                    <span>{column}</span>
+                    {fieldForColumn.has(column) ? (
+                      <Badge variant="secondary" className="text-xs">
+                        {IMPORT_FIELD_LABELS[fieldForColumn.get(column)!]}
+                      </Badge>
+                    ) : attributeTypes[column] && (
+                      <Badge variant="outline" className="text-xs">
+                        {ATTRIBUTE_TYPE_LABELS[attributeTypes[column]!]}
+                      </Badge>
+                    )}
+                  </div>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {table.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+              <TableRow key={index}>
+                {table.fields.map(column => (
+                  <TableCell
+                    key={column}
+                    className={fieldForColumn.has(column) || attributeTypes[column] ? 'whitespace-nowrap' : 'whitespace-nowrap text-muted-foreground'}
+                  >
+                    {row[column]}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {!isMappingComplete(mapping) && (
+        <p className="text-sm text-destructive">Map both latitude and longitude, or an address column, to continue.</p>
+      )}
+      {invalidRows > 0 && (
+        <p className="flex items-center gap-2 text-sm text-amber-600">
+          <AlertTriangle className="h-4 w-4" />
+          {invalidRows} of {table.rows.length} rows have coordinate problems with this mapping.
+        </p>
+      )}
+      {geocodingRows > 0 && (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <MapPin className="h-4 w-4" />
+          {geocodingRows} rows have only an address and will be geocoded in the next step.
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
+        <Button onClick={handleConfirm} disabled={!isMappingComplete(mapping)}>
+          Import {table.rows.length} rows
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingWizard;
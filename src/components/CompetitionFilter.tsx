@@ -0,0 +1,72 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CompetitionMetric, RangeFilter } from '@/types/restaurant';
+import { COMPETITION_LABELS, COMPETITION_METRICS, COMPETITION_PRESETS, isDistanceMetric } from '@/utils/competition';
+import AttributeRangeFilter from './AttributeRangeFilter';
+
+interface CompetitionFilterProps {
+  ranges: Partial<Record<CompetitionMetric, RangeFilter>>;
+  onChange: (ranges: Partial<Record<CompetitionMetric, RangeFilter>>) => void;
+}
+
+const ALL_VENUES = '__all__';
+const CUSTOM = '__custom__';
+
+const EMPTY_RANGE: RangeFilter = { min: null, max: null };
+
+const sameRanges = (
+  a: Partial<Record<CompetitionMetric, RangeFilter>>,
+  b: Partial<Record<CompetitionMetric, RangeFilter>>
+) => COMPETITION_METRICS.every(metric => {
+  const left = a[metric] ?? EMPTY_RANGE;
+  const right = b[metric] ?? EMPTY_RANGE;
+  return left.min === right.min && left.max === right.max;
+});
+
+// Presets for common competition questions, with the underlying ranges editable per metric
+const CompetitionFilter: React.FC<CompetitionFilterProps> = ({ ranges, onChange }) => {
+  const preset = sameRanges(ranges, {})
+    ? ALL_VENUES
+    : COMPETITION_PRESETS.find(candidate => sameRanges(ranges, candidate.ranges))?.id ?? CUSTOM;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Label>Competition</Label>
+        <Select
+          value={preset}
+          onValueChange={(id) => onChange(COMPETITION_PRESETS.find(candidate => candidate.id === id)?.ranges ?? {})}
+        >
+          <SelectTrigger className="h-8 w-80">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_VENUES}>All venues</SelectItem>
+            {COMPETITION_PRESETS.map(candidate => (
+              <SelectItem key={candidate.id} value={candidate.id}>{candidate.label}</SelectItem>
+            ))}
+            {preset === CUSTOM && <SelectItem value={CUSTOM} disabled>Custom ranges</SelectItem>}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+        {COMPETITION_METRICS.map(metric => (
+          <div key={metric} className="space-y-1">
+            <Label className="text-xs">
+              {COMPETITION_LABELS[metric]}{isDistanceMetric(metric) ? ' (m)' : ''}
+            </Label>
+            <AttributeRangeFilter
+              type="number"
+              extent={null}
+              range={ranges[metric] ?? EMPTY_RANGE}
+              onChange={(range) => onChange({ ...ranges, [metric]: range })}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CompetitionFilter;
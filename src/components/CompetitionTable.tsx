@@ -0,0 +1,103 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { CompetitionMetric, Restaurant } from '@/types/restaurant';
+import {
+  COMPETITION_LABELS,
+  COMPETITION_METRICS,
+  formatCompetitionValue,
+  getCompetitionValue
+} from '@/utils/competition';
+
+interface CompetitionTableProps {
+  restaurants: Restaurant[];
+}
+
+type SortColumn = 'name' | 'cuisine' | CompetitionMetric;
+
+const MAX_ROWS = 100;
+
+// Per-restaurant competition metrics, sortable by any column. Restaurants without a value sort
+// last in either direction.
+const CompetitionTable: React.FC<CompetitionTableProps> = ({ restaurants }) => {
+  const [sort, setSort] = useState<{ column: SortColumn; descending: boolean }>({
+    column: 'nearestRestaurantMeters',
+    descending: true
+  });
+
+  const sorted = useMemo(() => {
+    const direction = sort.descending ? -1 : 1;
+    const valueOf = (restaurant: Restaurant) =>
+      sort.column === 'name' || sort.column === 'cuisine'
+        ? restaurant[sort.column] ?? null
+        : getCompetitionValue(restaurant, sort.column);
+
+    return [...restaurants].sort((a, b) => {
+      const left = valueOf(a);
+      const right = valueOf(b);
+      if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1;
+      return (typeof left === 'string' ? left.localeCompare(right as string) : left - (right as number)) * direction;
+    });
+  }, [restaurants, sort]);
+
+  const toggleSort = (column: SortColumn) => {
+    setSort(prev => ({
+      column,
+      // Text columns start A–Z, metrics start with the largest value
+      descending: prev.column === column ? !prev.descending : column !== 'name' && column !== 'cuisine'
+    }));
+  };
+
+  const header = (column: SortColumn, label: string) => {
+    const Icon = sort.column !== column ? ArrowUpDown : sort.descending ? ArrowDown : ArrowUp;
+    return (
+      <TableHead key={column} className="whitespace-nowrap">
+        <button className="flex items-center gap-1" onClick={() => toggleSort(column)}>
+          {label}
+          <Icon className={`h-3 w-3 ${sort.column === column ? '' : 'text-muted-foreground'}`} />
+        </button>
+      </TableHead>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Competition</CardTitle>
+        <CardDescription>
+          Distance to the nearest same-cuisine competitor and to any restaurant, and competitors nearby
+          {restaurants.length > MAX_ROWS && ` · first ${MAX_ROWS} of ${restaurants.length} restaurants`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="max-h-[480px] overflow-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {header('name', 'Name')}
+                {header('cuisine', 'Cuisine')}
+                {COMPETITION_METRICS.map(metric => header(metric, COMPETITION_LABELS[metric]))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sorted.slice(0, MAX_ROWS).map(restaurant => (
+                <TableRow key={restaurant.id}>
+                  <TableCell className="font-medium">{restaurant.name}</TableCell>
+                  <TableCell>{restaurant.cuisine || 'Unknown'}</TableCell>
+                  {COMPETITION_METRICS.map(metric => (
+                    <TableCell key={metric} className="text-right tabular-nums">
+                      {formatCompetitionValue(metric, getCompetitionValue(restaurant, metric))}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CompetitionTable;
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
@@ -6,59 +6,513 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
-import { MapPin, BarChart3, PieChart, Layers, Settings, Filter } from 'lucide-react';
-import { Restaurant, ClusterData } from '@/types/restaurant';
-import { kMeansCluster } from '@/utils/clustering';
+import { Slider } from '@/components/ui/slider';
+import { Input } from '@/components/ui/input';
+import { MapPin, BarChart3, PieChart, Layers, Settings, Filter, Search, X, Trash2, ArrowLeft, Target, Table2, Undo2, Redo2, History } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Restaurant,
+  DatasetMeta,
+  ClusteringResult,
+  ClusteringAlgorithm,
+  DashboardTab,
+  FacetField,
+  FacetFilter,
+  RestaurantFilters,
+  AreaShape,
+  TradeArea,
+  RangeFilter,
+  ZoneBoundarySet,
+  ClassificationMethod,
+  CompetitionMetric,
+  CompetitionMetrics
+} from '@/types/restaurant';
+import {
+  kMeansCluster,
+  evaluateClusterCounts,
+  computeClusterHulls,
+  getTopCuisines,
+  MAX_CLUSTER_COUNT,
+  MAX_HULL_BUFFER_METERS,
+  MIN_CLUSTER_COUNT,
+  NOISE_COLOR
+} from '@/utils/clustering';
+import {
+  MAX_HEATMAP_BLUR,
+  MAX_HEATMAP_INTENSITY,
+  MAX_HEATMAP_RADIUS,
+  MIN_HEATMAP_BLUR,
+  MIN_HEATMAP_INTENSITY,
+  MIN_HEATMAP_RADIUS
+} from '@/utils/heatmap';
+import {
+  HDBSCAN_MAX_ROWS,
+  MAX_EPS_METERS,
+  MAX_MIN_PTS,
+  MIN_EPS_METERS,
+  MIN_MIN_PTS,
+  dbscanCluster,
+  hdbscanCluster
+} from '@/utils/densityClustering';
+import { createSpatialIndex } from '@/utils/spatialIndex';
+import {
+  applyFilters,
+  getFacetCounts,
+  getAttributeFacetCounts,
+  isRangeActive,
+  hasActiveFilters as filtersActive,
+  EMPTY_FILTERS,
+  FACET_FIELDS,
+  FACET_LABELS
+} from '@/utils/filters';
+import { loadTradeAreas, saveTradeAreas, describeShape } from '@/utils/tradeAreas';
+import {
+  assignZones,
+  getBoundaryNames,
+  getZoneAreas,
+  loadZoneBoundaries,
+  saveZoneBoundaries
+} from '@/utils/zoneBoundaries';
+import {
+  CLASSIFICATION_LABELS,
+  MAX_CLASSES,
+  MIN_CLASSES,
+  buildChoropleth,
+  getZoneShapes,
+  metricKey,
+  parseMetricKey
+} from '@/utils/choropleth';
+import { findOpportunities } from '@/utils/opportunities';
+import {
+  COMPETITION_LABELS,
+  competitionInputKey,
+  computeCompetitionMetrics,
+  formatCompetitionValue,
+  withCompetition
+} from '@/utils/competition';
+import { getAttributeSchema, getNumericExtent, formatAttributeKey } from '@/utils/attributes';
+import { getKeyInsights, getRecommendations, InsightTone } from '@/utils/insights';
+import {
+  EDITABLE_FIELDS,
+  EditResult,
+  addRestaurant,
+  deleteRestaurant,
+  describeDiff,
+  moveRestaurant,
+  updateRestaurantField
+} from '@/utils/editing';
+import { useDashboardUrlState, ViewStateUpdateOptions } from '@/hooks/use-dashboard-url-state';
+import {
+  RefreshLogEntry,
+  diffRestaurants,
+  isDiffEmpty,
+  removedRowKeys,
+  resolveGeocodedRows,
+  summarizeDiff
+} from '@/utils/liveSource';
+import { useEditHistory } from '@/hooks/use-edit-history';
+import { useLiveSource } from '@/hooks/use-live-source';
 import RestaurantMap from './RestaurantMap';
 import AnalyticsCharts from './AnalyticsCharts';
+import ClusterCountChart from './ClusterCountChart';
+import FacetSelect from './FacetSelect';
+import AttributeRangeFilter from './AttributeRangeFilter';
+import ExportMenu from './ExportMenu';
+import ReportSnapshot from './ReportSnapshot';
+import ZoneBoundaryControls from './ZoneBoundaryControls';
+import DuplicateReview from './DuplicateReview';
+import OpportunityPanel from './OpportunityPanel';
+import CompetitionFilter from './CompetitionFilter';
+import CompetitionTable from './CompetitionTable';
+import DataTable from './DataTable';
+import ChangeLog from './ChangeLog';
+import LiveSourcePanel from './LiveSourcePanel';
+
+// Category attributes with more distinct values than this (addresses, phone numbers) get no facet
+const MAX_ATTRIBUTE_FACET_VALUES = 50;
+const NO_ATTRIBUTE = '__none__';
+// Refreshes listed in the Live Source panel
+const MAX_REFRESH_LOG = 20;
+
+const INSIGHT_TONE_CLASSES: Record<InsightTone, { background: string; text: string }> = {
+  primary: { background: 'bg-dashboard-primary/10', text: 'text-dashboard-primary' },
+  secondary: { background: 'bg-dashboard-secondary/10', text: 'text-dashboard-secondary' },
+  accent: { background: 'bg-dashboard-accent/10', text: 'text-dashboard-accent' },
+  warning: { background: 'bg-dashboard-warning/10', text: 'text-dashboard-warning' }
+};
+
+const CLUSTERING_LABELS: Record<ClusteringAlgorithm, string> = {
+  kmeans: 'K-Means',
+  dbscan: 'DBSCAN',
+  hdbscan: 'HDBSCAN'
+};
 
 interface DashboardProps {
   restaurants: Restaurant[];
+  // Receives the dataset after every edit, undo and redo
+  onRestaurantsChange: (restaurants: Restaurant[]) => void;
+  // The stored dataset, once saved; URL datasets can be refreshed from their source
+  dataset: DatasetMeta | null;
+  onRefreshIntervalChange: (minutes: number | null) => void;
+  // Source rows deleted or merged away here, which refreshes must not bring back
+  onRowsRemoved: (keys: string[]) => void;
+  onBackToImport: () => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ restaurants }) => {
-  const [selectedCuisine, setSelectedCuisine] = useState<string>('all');
-  const [selectedZone, setSelectedZone] = useState<string>('all');
-  const [showClusters, setShowClusters] = useState(false);
-  const [showHeatmap, setShowHeatmap] = useState(false);
-  const [clusterCount, setClusterCount] = useState(5);
-
-  // Generate clusters
-  const clusters: ClusterData[] = useMemo(() => {
-    return kMeansCluster(restaurants, clusterCount);
-  }, [restaurants, clusterCount]);
-
-  // Get unique cuisines and zones
-  const cuisines = useMemo(() => {
-    const uniqueCuisines = Array.from(new Set(restaurants.map(r => r.cuisine).filter(Boolean)));
-    return uniqueCuisines.sort();
-  }, [restaurants]);
-
-  const zones = useMemo(() => {
-    const uniqueZones = Array.from(new Set(restaurants.map(r => r.zone).filter(Boolean)));
-    return uniqueZones.sort();
-  }, [restaurants]);
+const Dashboard: React.FC<DashboardProps> = ({
+  restaurants: sourceRestaurants,
+  onRestaurantsChange,
+  dataset,
+  onRefreshIntervalChange,
+  onRowsRemoved,
+  onBackToImport
+}) => {
+  const [viewState, updateView] = useDashboardUrlState();
+  const {
+    tab,
+    filters,
+    showClusters,
+    showHeatmap,
+    aggregateMarkers,
+    showHulls,
+    hullBufferMeters,
+    showZoneBoundaries,
+    showChoropleth,
+    choroplethOptions,
+    opportunityOptions,
+    heatmapOptions,
+    clusterCount,
+    clusteringAlgorithm,
+    densityOptions,
+    markerEncoding,
+    viewport
+  } = viewState;
+  const [tradeAreas, setTradeAreas] = useState<TradeArea[]>(loadTradeAreas);
+  const [zoneBoundaries, setZoneBoundaries] = useState<ZoneBoundarySet | null>(null);
+  // Restaurant picked in the data table or on its map
+  const [selectedRestaurantId, setSelectedRestaurantId] = useState<string | null>(null);
+  // Edits apply to the source rows, so zones from uploaded boundaries and competition metrics
+  // are never written into the dataset
+  const history = useEditHistory(sourceRestaurants, onRestaurantsChange);
+  const { toast } = useToast();
+
+  // Each refresh of a URL dataset is diffed against the current rows and applied as one
+  // undoable edit; the venues it added stay highlighted until the next refresh with changes
+  const liveSourceDetail = dataset?.source === 'url' ? dataset.sourceDetail ?? null : null;
+  const [refreshLog, setRefreshLog] = useState<RefreshLogEntry[]>([]);
+  const [newVenueIds, setNewVenueIds] = useState<Set<string>>(new Set());
+  const liveSource = useLiveSource(liveSourceDetail, dataset?.refreshMinutes ?? null, {
+    onData: (fetched) => {
+      const { restaurants: rows, ungeocoded } = resolveGeocodedRows(fetched, sourceRestaurants);
+      const { restaurants: refreshed, diff } = diffRestaurants(sourceRestaurants, rows, dataset?.removedRows);
+      setRefreshLog(prev => [{ at: new Date().toISOString(), diff, ungeocoded }, ...prev].slice(0, MAX_REFRESH_LOG));
+      if (isDiffEmpty(diff)) return;
+
+      history.apply({ restaurants: refreshed, edit: describeDiff(diff) });
+      setNewVenueIds(new Set(diff.added.map(restaurant => restaurant.id)));
+      toast({
+        title: "Data refreshed",
+        description: `${summarizeDiff(diff)}. The Live Source panel on the Map tab lists the changes.`,
+      });
+    },
+    onError: (error) => toast({
+      title: "Refresh failed",
+      description: error.message,
+      variant: "destructive",
+    })
+  });
+
+  // Competition only changes with positions and cuisines, so other edits and refreshes reuse it
+  const competitionCache = useRef<{ key: string; metrics: Map<string, CompetitionMetrics> } | null>(null);
+  const competitionMetrics = useMemo(() => {
+    const key = competitionInputKey(sourceRestaurants);
+    if (competitionCache.current?.key !== key) {
+      competitionCache.current = { key, metrics: computeCompetitionMetrics(sourceRestaurants) };
+    }
+    return competitionCache.current.metrics;
+  }, [sourceRestaurants]);
+
+  // Zones from uploaded boundaries and competition metrics are applied before anything else,
+  // so filters, charts, clustering and exports all see them
+  const restaurants = useMemo(
+    () => withCompetition(
+      zoneBoundaries ? assignZones(sourceRestaurants, zoneBoundaries) : sourceRestaurants,
+      competitionMetrics
+    ),
+    [sourceRestaurants, zoneBoundaries, competitionMetrics]
+  );
+  const zoneAreas = useMemo(() => (zoneBoundaries ? getZoneAreas(zoneBoundaries) : null), [zoneBoundaries]);
+  const boundaryZonedCount = useMemo(() => {
+    if (!zoneBoundaries) return 0;
+    const names = new Set(getBoundaryNames(zoneBoundaries));
+    return restaurants.filter(restaurant => restaurant.zone && names.has(restaurant.zone)).length;
+  }, [restaurants, zoneBoundaries]);
+
+  const setFilters = (change: (prev: RestaurantFilters) => RestaurantFilters, options?: ViewStateUpdateOptions) => {
+    updateView(prev => ({ filters: change(prev.filters) }), options);
+  };
+
+  const attributes = useMemo(() => getAttributeSchema(restaurants), [restaurants]);
+  const rangeAttributes = attributes.filter(attribute => attribute.type !== 'category');
+
+  // Score candidate cluster counts only when the user asks for automatic selection
+  const clusterCountEvaluation = useMemo(() => {
+    return clusteringAlgorithm === 'kmeans' && clusterCount === 'auto'
+      ? evaluateClusterCounts(restaurants)
+      : null;
+  }, [restaurants, clusteringAlgorithm, clusterCount]);
+
+  const effectiveClusterCount = clusterCountEvaluation
+    ? clusterCountEvaluation.recommendedK
+    : (clusterCount as number);
+
+  const hdbscanUnavailable = restaurants.length > HDBSCAN_MAX_ROWS;
+  const effectiveAlgorithm: ClusteringAlgorithm =
+    clusteringAlgorithm === 'hdbscan' && hdbscanUnavailable ? 'dbscan' : clusteringAlgorithm;
+
+  // Generate clusters (seeded, so IDs and colors are stable across renders)
+  const clustering: ClusteringResult = useMemo(() => {
+    switch (effectiveAlgorithm) {
+      case 'dbscan':
+        return dbscanCluster(restaurants, densityOptions);
+      case 'hdbscan':
+        return hdbscanCluster(restaurants, densityOptions.minPts);
+      default:
+        return kMeansCluster(restaurants, effectiveClusterCount);
+    }
+  }, [restaurants, effectiveAlgorithm, effectiveClusterCount, densityOptions]);
+  const clusters = clustering.clusters;
+
+  const clusterHulls = useMemo(() => {
+    return showHulls ? computeClusterHulls(clusters, hullBufferMeters) : [];
+  }, [clusters, showHulls, hullBufferMeters]);
+
+  // Facet values with live counts that reflect the search and the other facets
+  const cuisineOptions = useMemo(() => getFacetCounts(restaurants, filters, 'cuisine'), [restaurants, filters]);
+  const zoneOptions = useMemo(() => getFacetCounts(restaurants, filters, 'zone'), [restaurants, filters]);
+  const zones = zoneOptions.map(option => option.value);
+  const attributeFacetOptions = useMemo(() => {
+    return attributes
+      .filter(attribute => attribute.type === 'category')
+      .map(attribute => ({ key: attribute.key, options: getAttributeFacetCounts(restaurants, filters, attribute.key) }))
+      .filter(({ options }) => options.length > 1 && options.length <= MAX_ATTRIBUTE_FACET_VALUES);
+  }, [restaurants, filters, attributes]);
 
   // Filter restaurants based on selected criteria
-  const filteredRestaurants = useMemo(() => {
-    return restaurants.filter(restaurant => {
-      const cuisineMatch = selectedCuisine === 'all' || restaurant.cuisine === selectedCuisine;
-      const zoneMatch = selectedZone === 'all' || restaurant.zone === selectedZone;
-      return cuisineMatch && zoneMatch;
-    });
-  }, [restaurants, selectedCuisine, selectedZone]);
+  const filteredRestaurants = useMemo(() => applyFilters(restaurants, filters), [restaurants, filters]);
+
+  const filteredIndex = useMemo(() => createSpatialIndex(filteredRestaurants), [filteredRestaurants]);
+  const selectedRestaurant = filteredRestaurants.find(restaurant => restaurant.id === selectedRestaurantId) ?? null;
+  const newVenues = useMemo(
+    () => (newVenueIds.size > 0 ? filteredRestaurants.filter(restaurant => newVenueIds.has(restaurant.id)) : []),
+    [filteredRestaurants, newVenueIds]
+  );
+
+  // Zone shapes come from all restaurants so they stay put while filtering; the shaded values
+  // follow the filtered set
+  const zoneShapes = useMemo(() => getZoneShapes(restaurants, zoneBoundaries), [restaurants, zoneBoundaries]);
+  const choropleth = useMemo(() => {
+    return showChoropleth && zoneShapes.length > 0
+      ? buildChoropleth(zoneShapes, filteredRestaurants, choroplethOptions, zoneBoundaries !== null)
+      : null;
+  }, [showChoropleth, zoneShapes, filteredRestaurants, choroplethOptions, zoneBoundaries]);
+  const cuisineNames = useMemo(
+    () => Array.from(new Set(restaurants.map(r => r.cuisine).filter(Boolean) as string[])).sort(),
+    [restaurants]
+  );
+  const numericAttributes = attributes.filter(attribute => attribute.type === 'number');
+
+  const opportunities = useMemo(
+    () => findOpportunities(filteredRestaurants, opportunityOptions, zoneShapes),
+    [filteredRestaurants, opportunityOptions, zoneShapes]
+  );
+
+  const insights = useMemo(
+    () => getKeyInsights(filteredRestaurants, clusters, filteredIndex.bounds, zones.length > 0),
+    [filteredRestaurants, clusters, filteredIndex, zones.length]
+  );
+  const recommendations = useMemo(() => getRecommendations(restaurants, clusters), [restaurants, clusters]);
+
+  const updateFacet = (field: FacetField, facet: FacetFilter) => {
+    setFilters(prev => ({ ...prev, facets: { ...prev.facets, [field]: facet } }));
+  };
+
+  const removeFacetValue = (field: FacetField, value: string) => {
+    const facet = filters.facets[field];
+    updateFacet(field, { ...facet, values: facet.values.filter(v => v !== value) });
+  };
+
+  const updateAttributeFacet = (key: string, facet: FacetFilter) => {
+    setFilters(prev => ({ ...prev, attributeFacets: { ...prev.attributeFacets, [key]: facet } }));
+  };
+
+  const updateAttributeRange = (key: string, range: RangeFilter) => {
+    setFilters(prev => ({ ...prev, attributeRanges: { ...prev.attributeRanges, [key]: range } }));
+  };
+
+  const formatRange = (key: string, range: RangeFilter) => {
+    const isDate = attributes.find(attribute => attribute.key === key)?.type === 'date';
+    const format = (value: number) => (isDate ? new Date(value).toISOString().slice(0, 10) : value.toLocaleString());
+    if (range.min !== null && range.max !== null) return `${format(range.min)}–${format(range.max)}`;
+    return range.min !== null ? `≥ ${format(range.min)}` : `≤ ${format(range.max!)}`;
+  };
+
+  const formatCompetitionRange = (metric: CompetitionMetric, range: RangeFilter) => {
+    const format = (value: number) => formatCompetitionValue(metric, value);
+    if (range.min !== null && range.max !== null) return `${format(range.min)}–${format(range.max)}`;
+    return range.min !== null ? `≥ ${format(range.min)}` : `≤ ${format(range.max!)}`;
+  };
+
+  useEffect(() => {
+    saveTradeAreas(tradeAreas);
+  }, [tradeAreas]);
+
+  // Boundaries are read from IndexedDB once; an upload made meanwhile wins
+  useEffect(() => {
+    loadZoneBoundaries()
+      .then(stored => setZoneBoundaries(current => current ?? stored))
+      .catch(error => console.error('Failed to load zone boundaries:', error));
+  }, []);
+
+  const handleZonesChange = (zones: ZoneBoundarySet | null) => {
+    setZoneBoundaries(zones);
+    saveZoneBoundaries(zones).catch(() => toast({
+      title: "Boundaries not saved",
+      description: "The boundaries apply now but could not be stored in this browser.",
+      variant: "destructive",
+    }));
+  };
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) step through the edit history; text fields
+  // keep their own undo
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (!(event.ctrlKey || event.metaKey) || target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        history.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [history]);
+
+  // Edits made here; rows of a live source deleted or merged away are remembered so refreshes
+  // leave them out
+  const applyEdit = (result: EditResult | null) => {
+    if (!result) return;
+    const removed = liveSourceDetail ? removedRowKeys(sourceRestaurants, result.edit) : [];
+    if (removed.length > 0) onRowsRemoved(removed);
+    history.apply(result);
+  };
+
+  const handleRestaurantAdd = (position: [number, number]) => {
+    const result = addRestaurant(sourceRestaurants, position);
+    applyEdit(result);
+    setSelectedRestaurantId(result.restaurant.id);
+  };
+
+  const isAreaApplied = (id: string) => filters.areas.some(area => area.id === id);
+
+  const setAreaApplied = (area: TradeArea, applied: boolean) => {
+    setFilters(prev => ({
+      ...prev,
+      areas: applied
+        ? [...prev.areas.filter(a => a.id !== area.id), area]
+        : prev.areas.filter(a => a.id !== area.id)
+    }));
+  };
+
+  // Newly drawn shapes are saved as trade areas and applied straight away
+  const handleAreaDrawn = (shape: AreaShape) => {
+    const area: TradeArea = { id: `area-${Date.now()}`, name: `Area ${tradeAreas.length + 1}`, shape };
+    setTradeAreas(prev => [...prev, area]);
+    setAreaApplied(area, true);
+  };
+
+  const renameArea = (id: string, name: string) => {
+    setTradeAreas(prev => prev.map(area => (area.id === id ? { ...area, name } : area)));
+    // Renaming happens as the name is typed, so it replaces the history entry like other typing
+    setFilters(prev => ({
+      ...prev,
+      areas: prev.areas.map(area => (area.id === id ? { ...area, name } : area))
+    }), { replace: true });
+  };
+
+  const deleteArea = (id: string) => {
+    setTradeAreas(prev => prev.filter(area => area.id !== id));
+    setFilters(prev => ({ ...prev, areas: prev.areas.filter(area => area.id !== id) }));
+  };
 
   const clearFilters = () => {
-    setSelectedCuisine('all');
-    setSelectedZone('all');
+    setFilters(() => EMPTY_FILTERS);
   };
 
-  const hasActiveFilters = selectedCuisine !== 'all' || selectedZone !== 'all';
+  const hasActiveFilters = filtersActive(filters);
 
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div className="text-center space-y-2">
+      <div className="relative text-center space-y-2">
+        <Button variant="outline" size="sm" className="absolute left-0 top-0" onClick={onBackToImport}>
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Change Dataset
+        </Button>
+        <div className="absolute right-0 top-0 flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={history.undo}
+            disabled={!history.undoLabel}
+            title={history.undoLabel ? `Undo: ${history.undoLabel}` : 'Nothing to undo'}
+            aria-label="Undo"
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={history.redo}
+            disabled={!history.redoLabel}
+            title={history.redoLabel ? `Redo: ${history.redoLabel}` : 'Nothing to redo'}
+            aria-label="Redo"
+          >
+            <Redo2 className="h-4 w-4" />
+          </Button>
+          <ExportMenu
+            restaurants={restaurants}
+            filteredRestaurants={filteredRestaurants}
+            clustering={clustering}
+            clusteringLabel={CLUSTERING_LABELS[effectiveAlgorithm]}
+            attributes={attributes}
+            insights={insights}
+            recommendations={recommendations}
+            edits={history.edits}
+            snapshot={
+              <ReportSnapshot
+                restaurants={restaurants}
+                filteredRestaurants={filteredRestaurants}
+                clustering={clustering}
+                hulls={clusterHulls}
+                showHeatmap={showHeatmap}
+                heatmapOptions={heatmapOptions}
+                aggregateMarkers={aggregateMarkers}
+                areas={filters.areas}
+                attributes={attributes}
+                markerEncoding={markerEncoding}
+                viewport={viewport}
+                zones={showZoneBoundaries ? zoneBoundaries : null}
+                zoneAreas={zoneAreas}
+                choropleth={choropleth}
+              />
+            }
+          />
+        </div>
         <h1 className="text-4xl font-bold bg-gradient-to-r from-dashboard-primary via-dashboard-secondary to-dashboard-accent bg-clip-text text-transparent">
           Restaurant Analytics Dashboard
         </h1>
@@ -79,56 +533,93 @@ const Dashboard: React.FC<DashboardProps> = ({ restaurants }) => {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {/* Name Search */}
+          <div className="relative mb-4">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search restaurants by name..."
+              value={filters.search}
+              onChange={(e) => {
+                const search = e.target.value;
+                // Typing refines one history entry; starting or clearing a search adds one
+                setFilters(prev => ({ ...prev, search }), { replace: filters.search !== '' && search !== '' });
+              }}
+              className="pl-9"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
             {/* Cuisine Filter */}
             <div className="space-y-2">
               <Label>Cuisine Type</Label>
-              <Select value={selectedCuisine} onValueChange={setSelectedCuisine}>
-                <SelectTrigger>
-                  <SelectValue placeholder="All cuisines" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Cuisines</SelectItem>
-                  {cuisines.map(cuisine => (
-                    <SelectItem key={cuisine} value={cuisine}>{cuisine}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <FacetSelect
+                label="Cuisine"
+                options={cuisineOptions}
+                filter={filters.facets.cuisine}
+                onChange={(facet) => updateFacet('cuisine', facet)}
+              />
             </div>
 
             {/* Zone Filter */}
             {zones.length > 0 && (
               <div className="space-y-2">
                 <Label>Zone</Label>
-                <Select value={selectedZone} onValueChange={setSelectedZone}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="All zones" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All Zones</SelectItem>
-                    {zones.map(zone => (
-                      <SelectItem key={zone} value={zone}>{zone}</SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                <FacetSelect
+                  label="Zone"
+                  options={zoneOptions}
+                  filter={filters.facets.zone}
+                  onChange={(facet) => updateFacet('zone', facet)}
+                />
               </div>
             )}
 
-            {/* Cluster Count */}
+            {/* Clustering Algorithm */}
             <div className="space-y-2">
-              <Label>Cluster Count</Label>
-              <Select value={clusterCount.toString()} onValueChange={(value) => setClusterCount(parseInt(value))}>
+              <Label>Clustering Algorithm</Label>
+              <Select
+                value={clusteringAlgorithm}
+                onValueChange={(value) => updateView({ clusteringAlgorithm: value as ClusteringAlgorithm })}
+              >
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {[3, 4, 5, 6, 7, 8].map(count => (
-                    <SelectItem key={count} value={count.toString()}>{count} clusters</SelectItem>
-                  ))}
+                  <SelectItem value="kmeans">K-Means</SelectItem>
+                  <SelectItem value="dbscan">DBSCAN</SelectItem>
+                  <SelectItem value="hdbscan" disabled={hdbscanUnavailable}>HDBSCAN</SelectItem>
                 </SelectContent>
               </Select>
+              {hdbscanUnavailable && (
+                <p className="text-xs text-muted-foreground">
+                  HDBSCAN is limited to {HDBSCAN_MAX_ROWS.toLocaleString()} restaurants
+                  {clusteringAlgorithm === 'hdbscan' && '; DBSCAN is used instead'}
+                </p>
+              )}
             </div>
 
+            {/* Cluster Count */}
+            {clusteringAlgorithm === 'kmeans' && (
+              <div className="space-y-2">
+                <Label>Cluster Count</Label>
+                <Select
+                  value={clusterCount.toString()}
+                  onValueChange={(value) => updateView({ clusterCount: value === 'auto' ? 'auto' : parseInt(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">
+                      Auto{clusterCountEvaluation ? ` (${clusterCountEvaluation.recommendedK} clusters)` : ''}
+                    </SelectItem>
+                    {Array.from({ length: MAX_CLUSTER_COUNT - MIN_CLUSTER_COUNT + 1 }, (_, i) => MIN_CLUSTER_COUNT + i).map(count => (
+                      <SelectItem key={count} value={count.toString()}>{count} clusters</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {/* Clear Filters */}
             <div className="space-y-2">
               <Label>Actions</Label>
@@ -143,26 +634,179 @@ const Dashboard: React.FC<DashboardProps> = ({ restaurants }) => {
             </div>
           </div>
 
+          {/* Extra Attribute Filters */}
+          {(attributeFacetOptions.length > 0 || rangeAttributes.length > 0) && (
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              {attributeFacetOptions.map(({ key, options }) => (
+                <div key={key} className="space-y-2">
+                  <Label>{formatAttributeKey(key)}</Label>
+                  <FacetSelect
+                    label={formatAttributeKey(key)}
+                    options={options}
+                    filter={filters.attributeFacets[key] ?? { values: [], mode: 'include' }}
+                    onChange={(facet) => updateAttributeFacet(key, facet)}
+                  />
+                </div>
+              ))}
+              {rangeAttributes.map(attribute => (
+                <div key={attribute.key} className="space-y-2">
+                  <Label>{formatAttributeKey(attribute.key)}</Label>
+                  <AttributeRangeFilter
+                    type={attribute.type as 'number' | 'date'}
+                    extent={getNumericExtent(restaurants, attribute.key)}
+                    range={filters.attributeRanges[attribute.key] ?? { min: null, max: null }}
+                    onChange={(range) => updateAttributeRange(attribute.key, range)}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Competition Filters */}
+          <div className="mt-4">
+            <CompetitionFilter
+              ranges={filters.competitionRanges}
+              onChange={(competitionRanges) => setFilters(prev => ({ ...prev, competitionRanges }))}
+            />
+          </div>
+
           {/* Active Filters */}
           {hasActiveFilters && (
             <div className="mt-4 flex flex-wrap gap-2">
               <span className="text-sm text-muted-foreground">Active filters:</span>
-              {selectedCuisine !== 'all' && (
-                <Badge variant="secondary">Cuisine: {selectedCuisine}</Badge>
+              {filters.search.trim() && (
+                <Badge variant="secondary" className="gap-1">
+                  Name: "{filters.search.trim()}"
+                  <button
+                    aria-label="Remove name search"
+                    onClick={() => setFilters(prev => ({ ...prev, search: '' }))}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
               )}
-              {selectedZone !== 'all' && (
-                <Badge variant="secondary">Zone: {selectedZone}</Badge>
+              {filters.areas.map(area => (
+                <Badge key={area.id} variant="secondary" className="gap-1">
+                  Area: {area.name}
+                  <button
+                    aria-label={`Remove area ${area.name}`}
+                    onClick={() => setAreaApplied(area, false)}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+              {FACET_FIELDS.flatMap(field => {
+                const facet = filters.facets[field];
+                const label = FACET_LABELS[field];
+                return facet.values.map(value => (
+                  <Badge key={`${field}-${value}`} variant="secondary" className="gap-1">
+                    {label}: {facet.mode === 'exclude' ? 'not ' : ''}{value}
+                    <button
+                      aria-label={`Remove ${label.toLowerCase()} ${value}`}
+                      onClick={() => removeFacetValue(field, value)}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ));
+              })}
+              {Object.entries(filters.attributeFacets).flatMap(([key, facet]) =>
+                facet.values.map(value => (
+                  <Badge key={`attribute-${key}-${value}`} variant="secondary" className="gap-1">
+                    {formatAttributeKey(key)}: {facet.mode === 'exclude' ? 'not ' : ''}{value}
+                    <button
+                      aria-label={`Remove ${formatAttributeKey(key).toLowerCase()} ${value}`}
+                      onClick={() => updateAttributeFacet(key, { ...facet, values: facet.values.filter(v => v !== value) })}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))
               )}
+              {Object.entries(filters.attributeRanges).filter(([, range]) => isRangeActive(range)).map(([key, range]) => (
+                <Badge key={`range-${key}`} variant="secondary" className="gap-1">
+                  {formatAttributeKey(key)}: {formatRange(key, range)}
+                  <button
+                    aria-label={`Remove ${formatAttributeKey(key).toLowerCase()} range`}
+                    onClick={() => updateAttributeRange(key, { min: null, max: null })}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+              {(Object.entries(filters.competitionRanges) as [CompetitionMetric, RangeFilter][])
+                .filter(([, range]) => isRangeActive(range))
+                .map(([metric, range]) => (
+                  <Badge key={`competition-${metric}`} variant="secondary" className="gap-1">
+                    {COMPETITION_LABELS[metric]}: {formatCompetitionRange(metric, range)}
+                    <button
+                      aria-label={`Remove ${COMPETITION_LABELS[metric].toLowerCase()} range`}
+                      onClick={() => setFilters(prev => ({
+                        ...prev,
+                        competitionRanges: { ...prev.competitionRanges, [metric]: { min: null, max: null } }
+                      }))}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+            </div>
+          )}
+
+          {/* Trade Areas */}
+          {tradeAreas.length > 0 && (
+            <div className="mt-4 space-y-2">
+              <Label>Trade Areas</Label>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+                {tradeAreas.map(area => (
+                  <div key={area.id} className="flex items-center gap-2 rounded-md border p-2">
+                    <Switch
+                      checked={isAreaApplied(area.id)}
+                      onCheckedChange={(checked) => setAreaApplied(area, checked)}
+                      aria-label={`Apply ${area.name}`}
+                    />
+                    <div className="flex-1 space-y-1">
+                      <Input
+                        value={area.name}
+                        onChange={(e) => renameArea(area.id, e.target.value)}
+                        className="h-8"
+                      />
+                      <p className="text-xs text-muted-foreground">{describeShape(area.shape)}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Delete ${area.name}`}
+                      onClick={() => deleteArea(area.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
             </div>
           )}
 
+          {/* Zone Boundaries */}
+          <div className="mt-4">
+            <ZoneBoundaryControls
+              zones={zoneBoundaries}
+              onZonesChange={handleZonesChange}
+              assignedCount={boundaryZonedCount}
+              totalCount={restaurants.length}
+              showBoundaries={showZoneBoundaries}
+              onShowBoundariesChange={(checked) => updateView({ showZoneBoundaries: checked })}
+            />
+          </div>
+
           {/* Map Controls */}
           <div className="mt-4 flex flex-wrap gap-4">
             <div className="flex items-center space-x-2">
               <Switch
                 id="clusters"
                 checked={showClusters}
-                onCheckedChange={setShowClusters}
+                onCheckedChange={(checked) => updateView({ showClusters: checked })}
               />
               <Label htmlFor="clusters">Show Clusters</Label>
             </div>
@@ -170,17 +814,228 @@ const Dashboard: React.FC<DashboardProps> = ({ restaurants }) => {
               <Switch
                 id="heatmap"
                 checked={showHeatmap}
-                onCheckedChange={setShowHeatmap}
+                onCheckedChange={(checked) => updateView({ showHeatmap: checked })}
               />
               <Label htmlFor="heatmap">Show Heatmap</Label>
             </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="aggregate-markers"
+                checked={aggregateMarkers}
+                onCheckedChange={(checked) => updateView({ aggregateMarkers: checked })}
+              />
+              <Label htmlFor="aggregate-markers">Group Nearby Markers</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="hulls"
+                checked={showHulls}
+                onCheckedChange={(checked) => updateView({ showHulls: checked })}
+              />
+              <Label htmlFor="hulls">Show Cluster Hulls</Label>
+            </div>
+            {zoneShapes.length > 0 && (
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="choropleth"
+                  checked={showChoropleth}
+                  onCheckedChange={(checked) => updateView({ showChoropleth: checked })}
+                />
+                <Label htmlFor="choropleth">Shade Zones</Label>
+              </div>
+            )}
           </div>
+
+          {/* Marker Encoding */}
+          {attributes.length > 0 && (
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Color Markers By</Label>
+                <Select
+                  value={markerEncoding.colorBy ?? NO_ATTRIBUTE}
+                  onValueChange={(key) => updateView({ markerEncoding: { ...markerEncoding, colorBy: key === NO_ATTRIBUTE ? null : key } })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_ATTRIBUTE}>Cuisine</SelectItem>
+                    {attributes.map(attribute => (
+                      <SelectItem key={attribute.key} value={attribute.key}>{formatAttributeKey(attribute.key)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {rangeAttributes.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Size Markers By</Label>
+                  <Select
+                    value={markerEncoding.sizeBy ?? NO_ATTRIBUTE}
+                    onValueChange={(key) => updateView({ markerEncoding: { ...markerEncoding, sizeBy: key === NO_ATTRIBUTE ? null : key } })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_ATTRIBUTE}>Same size</SelectItem>
+                      {rangeAttributes.map(attribute => (
+                        <SelectItem key={attribute.key} value={attribute.key}>{formatAttributeKey(attribute.key)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Cluster Hull Settings */}
+          {showHulls && (
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Service Area Buffer: {hullBufferMeters} m</Label>
+                <Slider
+                  min={0}
+                  max={MAX_HULL_BUFFER_METERS}
+                  step={50}
+                  value={[hullBufferMeters]}
+                  onValueChange={([buffer]) => updateView({ hullBufferMeters: buffer }, { replace: true })}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Density Clustering Settings */}
+          {effectiveAlgorithm !== 'kmeans' && (
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+              {effectiveAlgorithm === 'dbscan' && (
+                <div className="space-y-2">
+                  <Label>Neighborhood Radius (eps): {densityOptions.epsMeters} m</Label>
+                  <Slider
+                    min={MIN_EPS_METERS}
+                    max={MAX_EPS_METERS}
+                    step={50}
+                    value={[densityOptions.epsMeters]}
+                    onValueChange={([epsMeters]) => updateView({ densityOptions: { ...densityOptions, epsMeters } }, { replace: true })}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>
+                  {effectiveAlgorithm === 'dbscan' ? 'Minimum Points' : 'Minimum Cluster Size'}: {densityOptions.minPts}
+                </Label>
+                <Slider
+                  min={MIN_MIN_PTS}
+                  max={MAX_MIN_PTS}
+                  step={1}
+                  value={[densityOptions.minPts]}
+                  onValueChange={([minPts]) => updateView({ densityOptions: { ...densityOptions, minPts } }, { replace: true })}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Choropleth Settings */}
+          {choropleth && (
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Shade Zones By</Label>
+                <Select
+                  value={metricKey(choroplethOptions.metric)}
+                  onValueChange={(key) => updateView({
+                    choroplethOptions: { ...choroplethOptions, metric: parseMetricKey(key) ?? choroplethOptions.metric }
+                  })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="count">Restaurant count</SelectItem>
+                    <SelectItem value="density">Restaurants per km²</SelectItem>
+                    {cuisineNames.map(cuisine => (
+                      <SelectItem key={cuisine} value={metricKey({ type: 'cuisine-share', cuisine })}>
+                        Share of {cuisine}
+                      </SelectItem>
+                    ))}
+                    {numericAttributes.map(attribute => (
+                      <SelectItem key={attribute.key} value={metricKey({ type: 'attribute', key: attribute.key })}>
+                        Average {formatAttributeKey(attribute.key)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Classification</Label>
+                <Select
+                  value={choroplethOptions.method}
+                  onValueChange={(method) => updateView({
+                    choroplethOptions: { ...choroplethOptions, method: method as ClassificationMethod }
+                  })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CLASSIFICATION_LABELS) as ClassificationMethod[]).map(method => (
+                      <SelectItem key={method} value={method}>{CLASSIFICATION_LABELS[method]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Classes: {choroplethOptions.classes}</Label>
+                <Slider
+                  min={MIN_CLASSES}
+                  max={MAX_CLASSES}
+                  step={1}
+                  value={[choroplethOptions.classes]}
+                  onValueChange={([classes]) => updateView({ choroplethOptions: { ...choroplethOptions, classes } }, { replace: true })}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Heatmap Settings */}
+          {showHeatmap && (
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Radius: {heatmapOptions.radius}px</Label>
+                <Slider
+                  min={MIN_HEATMAP_RADIUS}
+                  max={MAX_HEATMAP_RADIUS}
+                  step={1}
+                  value={[heatmapOptions.radius]}
+                  onValueChange={([radius]) => updateView({ heatmapOptions: { ...heatmapOptions, radius } }, { replace: true })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Blur: {heatmapOptions.blur}px</Label>
+                <Slider
+                  min={MIN_HEATMAP_BLUR}
+                  max={MAX_HEATMAP_BLUR}
+                  step={1}
+                  value={[heatmapOptions.blur]}
+                  onValueChange={([blur]) => updateView({ heatmapOptions: { ...heatmapOptions, blur } }, { replace: true })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Intensity: {heatmapOptions.intensity.toFixed(1)}×</Label>
+                <Slider
+                  min={MIN_HEATMAP_INTENSITY}
+                  max={MAX_HEATMAP_INTENSITY}
+                  step={0.1}
+                  value={[heatmapOptions.intensity]}
+                  onValueChange={([intensity]) => updateView({ heatmapOptions: { ...heatmapOptions, intensity } }, { replace: true })}
+                />
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
       {/* Main Dashboard Tabs */}
-      <Tabs defaultValue="map" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4">
+      <Tabs value={tab} onValueChange={(value) => updateView({ tab: value as DashboardTab })} className="space-y-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="map" className="flex items-center gap-2">
             <MapPin className="h-4 w-4" />
             Interactive Map
@@ -197,10 +1052,29 @@ const Dashboard: React.FC<DashboardProps> = ({ restaurants }) => {
             <PieChart className="h-4 w-4" />
             Insights
           </TabsTrigger>
+          <TabsTrigger value="data" className="flex items-center gap-2">
+            <Table2 className="h-4 w-4" />
+            Data
+          </TabsTrigger>
         </TabsList>
 
         {/* Map Tab */}
         <TabsContent value="map" className="space-y-4">
+          {liveSourceDetail && (
+            <LiveSourcePanel
+              sourceDetail={liveSourceDetail}
+              refreshMinutes={dataset?.refreshMinutes ?? null}
+              onRefreshMinutesChange={onRefreshIntervalChange}
+              isFetching={liveSource.isFetching}
+              checkedAt={liveSource.checkedAt}
+              error={liveSource.error}
+              onRefreshNow={() => liveSource.refetch()}
+              log={refreshLog}
+              newVenueCount={newVenues.length}
+              onClearNewVenues={() => setNewVenueIds(new Set())}
+            />
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle>Restaurant Locations</CardTitle>
@@ -216,6 +1090,17 @@ const Dashboard: React.FC<DashboardProps> = ({ restaurants }) => {
                 showClusters={false}
                 showHeatmap={showHeatmap}
                 filteredRestaurants={filteredRestaurants}
+                heatmapOptions={heatmapOptions}
+                aggregateMarkers={aggregateMarkers}
+                areas={filters.areas}
+                onAreaDrawn={handleAreaDrawn}
+                attributes={attributes}
+                markerEncoding={markerEncoding}
+                viewport={viewport}
+                onViewportChange={(next) => updateView({ viewport: next }, { replace: true })}
+                zones={showZoneBoundaries ? zoneBoundaries : null}
+                choropleth={choropleth}
+                newVenues={newVenues}
               />
             </CardContent>
           </Card>
@@ -225,9 +1110,14 @@ const Dashboard: React.FC<DashboardProps> = ({ restaurants }) => {
         <TabsContent value="clusters" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle>K-Means Clustering Analysis</CardTitle>
+              <CardTitle>
+                {CLUSTERING_LABELS[effectiveAlgorithm]} Clustering Analysis
+              </CardTitle>
               <CardDescription>
-                Restaurants grouped into {clusterCount} clusters using geographic coordinates
+                Restaurants grouped into {clusters.length} clusters by great-circle distance
+                {clustering.inertia !== undefined && clusters.length > 0 &&
+                  ` · inertia ${clustering.inertia.toFixed(2)} km² after ${clustering.iterations} iterations`}
+                {clustering.noise.length > 0 && ` · ${clustering.noise.length} restaurants marked as noise`}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -237,10 +1127,17 @@ const Dashboard: React.FC<DashboardProps> = ({ restaurants }) => {
                 showClusters={true}
                 showHeatmap={false}
                 filteredRestaurants={filteredRestaurants}
+                noise={clustering.noise}
+                hulls={clusterHulls}
               />
             </CardContent>
           </Card>
 
+          {/* Automatic cluster count scores */}
+          {clusterCountEvaluation && clusterCountEvaluation.scores.length > 0 && (
+            <ClusterCountChart evaluation={clusterCountEvaluation} />
+          )}
+
           {/* Cluster Statistics */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {clusters.map((cluster) => (
@@ -262,18 +1159,18 @@ const Dashboard: React.FC<DashboardProps> = ({ restaurants }) => {
                     <p className="text-sm">
                       <strong>Center:</strong> {cluster.center[0].toFixed(4)}, {cluster.center[1].toFixed(4)}
                     </p>
+                    {(() => {
+                      const hull = clusterHulls.find(h => h.clusterId === cluster.id);
+                      return hull ? (
+                        <p className="text-sm">
+                          <strong>Area:</strong> {hull.areaKm2.toFixed(2)} km²
+                        </p>
+                      ) : null;
+                    })()}
                     <div className="text-sm">
                       <strong>Top Cuisines:</strong>
                       <div className="mt-1 flex flex-wrap gap-1">
-                        {Object.entries(
-                          cluster.restaurants.reduce((acc: { [key: string]: number }, r) => {
-                            const cuisine = r.cuisine || 'Unknown';
-                            acc[cuisine] = (acc[cuisine] || 0) + 1;
-                            return acc;
-                          }, {})
-                        )
-                          .sort(([,a], [,b]) => b - a)
-                          .slice(0, 3)
+                        {getTopCuisines(cluster.restaurants)
                           .map(([cuisine, count]) => (
                             <Badge key={cuisine} variant="outline" className="text-xs">
                               {cuisine} ({count})
@@ -285,6 +1182,29 @@ const Dashboard: React.FC<DashboardProps> = ({ restaurants }) => {
                 </CardContent>
               </Card>
             ))}
+            {clustering.noise.length > 0 && (
+              <Card className="border-dashed">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <div
+                      className="w-4 h-4 rounded-full border-2 border-dashed"
+                      style={{ borderColor: NOISE_COLOR }}
+                    />
+                    Noise
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    <p className="text-sm">
+                      <strong>Restaurants:</strong> {clustering.noise.length}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Isolated venues that do not belong to any dense group
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
         </TabsContent>
 
@@ -293,11 +1213,47 @@ const Dashboard: React.FC<DashboardProps> = ({ restaurants }) => {
           <AnalyticsCharts 
             restaurants={restaurants} 
             filteredRestaurants={filteredRestaurants}
+            attributes={attributes}
+            zoneAreas={zoneAreas}
           />
+          <CompetitionTable restaurants={filteredRestaurants} />
         </TabsContent>
 
         {/* Insights Tab */}
         <TabsContent value="insights" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Target className="h-5 w-5" />
+                Opportunity Finder
+              </CardTitle>
+              <CardDescription>
+                Areas with many restaurants but few of a chosen cuisine, ranked by opportunity score
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <OpportunityPanel
+                options={opportunityOptions}
+                onOptionsChange={(next, options) => updateView({ opportunityOptions: next }, options)}
+                result={opportunities}
+                cuisines={cuisineNames}
+                hasZones={zoneShapes.length > 0}
+                analysedCount={filteredRestaurants.length}
+                map={
+                  <RestaurantMap
+                    restaurants={restaurants}
+                    clusters={clusters}
+                    showClusters={false}
+                    showHeatmap={false}
+                    filteredRestaurants={filteredRestaurants}
+                    aggregateMarkers={aggregateMarkers}
+                    opportunities={opportunities}
+                  />
+                }
+              />
+            </CardContent>
+          </Card>
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <Card>
               <CardHeader>
@@ -305,64 +1261,12 @@ const Dashboard: React.FC<DashboardProps> = ({ restaurants }) => {
                 <CardDescription>Automated analysis of your restaurant data</CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="p-4 bg-dashboard-primary/10 rounded-lg">
-                  <h4 className="font-semibold text-dashboard-primary">Most Popular Cuisine</h4>
-                  <p className="text-sm text-muted-foreground mt-1">
-                    {(() => {
-                      const cuisineCounts = filteredRestaurants.reduce((acc: { [key: string]: number }, r) => {
-                        const cuisine = r.cuisine || 'Unknown';
-                        acc[cuisine] = (acc[cuisine] || 0) + 1;
-                        return acc;
-                      }, {});
-                      const topCuisine = Object.entries(cuisineCounts).sort(([,a], [,b]) => b - a)[0];
-                      return topCuisine ? `${topCuisine[0]} (${topCuisine[1]} restaurants)` : 'No data available';
-                    })()}
-                  </p>
-                </div>
-
-                <div className="p-4 bg-dashboard-secondary/10 rounded-lg">
-                  <h4 className="font-semibold text-dashboard-secondary">Geographic Spread</h4>
-                  <p className="text-sm text-muted-foreground mt-1">
-                    {(() => {
-                      const lats = filteredRestaurants.map(r => r.lat);
-                      const lons = filteredRestaurants.map(r => r.lon);
-                      if (lats.length === 0) return 'No data available';
-                      
-                      const latRange = Math.max(...lats) - Math.min(...lats);
-                      const lonRange = Math.max(...lons) - Math.min(...lons);
-                      return `Covers ${latRange.toFixed(3)}° latitude × ${lonRange.toFixed(3)}° longitude`;
-                    })()}
-                  </p>
-                </div>
-
-                <div className="p-4 bg-dashboard-accent/10 rounded-lg">
-                  <h4 className="font-semibold text-dashboard-accent">Density Analysis</h4>
-                  <p className="text-sm text-muted-foreground mt-1">
-                    {zones.length > 0 ? (
-                      (() => {
-                        const zoneCounts = filteredRestaurants.reduce((acc: { [key: string]: number }, r) => {
-                          if (r.zone) acc[r.zone] = (acc[r.zone] || 0) + 1;
-                          return acc;
-                        }, {});
-                        const denseZone = Object.entries(zoneCounts).sort(([,a], [,b]) => b - a)[0];
-                        return denseZone ? `Highest density in ${denseZone[0]} (${denseZone[1]} restaurants)` : 'No zone data available';
-                      })()
-                    ) : (
-                      'Zone data not available for density analysis'
-                    )}
-                  </p>
-                </div>
-
-                <div className="p-4 bg-dashboard-warning/10 rounded-lg">
-                  <h4 className="font-semibold text-dashboard-warning">Clustering Effectiveness</h4>
-                  <p className="text-sm text-muted-foreground mt-1">
-                    {(() => {
-                      if (clusters.length === 0) return 'No clusters generated';
-                      const avgClusterSize = clusters.reduce((sum, c) => sum + c.restaurants.length, 0) / clusters.length;
-                      return `Average cluster size: ${avgClusterSize.toFixed(1)} restaurants`;
-                    })()}
-                  </p>
-                </div>
+                {insights.map(insight => (
+                  <div key={insight.title} className={`p-4 rounded-lg ${INSIGHT_TONE_CLASSES[insight.tone].background}`}>
+                    <h4 className={`font-semibold ${INSIGHT_TONE_CLASSES[insight.tone].text}`}>{insight.title}</h4>
+                    <p className="text-sm text-muted-foreground mt-1">{insight.text}</p>
+                  </div>
+                ))}
               </CardContent>
             </Card>
 
@@ -393,29 +1297,83 @@ const Dashboard: React.FC<DashboardProps> = ({ restaurants }) => {
                       {Math.round((restaurants.filter(r => r.zone).length / restaurants.length) * 100)}%
                     </Badge>
                   </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm">Duplicate Records</span>
+                    <DuplicateReview restaurants={sourceRestaurants} onMerge={applyEdit} />
+                  </div>
                 </div>
 
                 <div className="mt-6 pt-4 border-t">
                   <h4 className="font-semibold mb-2">Recommendations</h4>
                   <ul className="text-sm text-muted-foreground space-y-1">
-                    {restaurants.filter(r => !r.cuisine).length > 0 && (
-                      <li>• Consider adding cuisine data for {restaurants.filter(r => !r.cuisine).length} restaurants</li>
-                    )}
-                    {restaurants.filter(r => !r.zone).length > 0 && (
-                      <li>• Zone information missing for {restaurants.filter(r => !r.zone).length} restaurants</li>
-                    )}
-                    {restaurants.length < 10 && (
-                      <li>• More data points would improve clustering accuracy</li>
-                    )}
-                    {clusters.length > 0 && clusters.some(c => c.restaurants.length < 2) && (
-                      <li>• Consider reducing cluster count for better grouping</li>
-                    )}
+                    {recommendations.map(recommendation => (
+                      <li key={recommendation}>• {recommendation}</li>
+                    ))}
                   </ul>
                 </div>
               </CardContent>
             </Card>
           </div>
         </TabsContent>
+
+        {/* Data Tab */}
+        <TabsContent value="data" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Restaurant Data</CardTitle>
+              <CardDescription>
+                {filteredRestaurants.length} restaurants
+                {hasActiveFilters && ` (filtered from ${restaurants.length} total)`} · select a row to find it on the
+                map, double-click a name, cuisine or zone to edit it, and drag the selected pin to move it
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <RestaurantMap
+                restaurants={restaurants}
+                clusters={clusters}
+                showClusters={false}
+                showHeatmap={false}
+                filteredRestaurants={filteredRestaurants}
+                aggregateMarkers={aggregateMarkers}
+                attributes={attributes}
+                markerEncoding={markerEncoding}
+                selectedRestaurant={selectedRestaurant}
+                onRestaurantSelect={(restaurant) => setSelectedRestaurantId(restaurant.id)}
+                onRestaurantMove={(restaurant, position) =>
+                  applyEdit(moveRestaurant(sourceRestaurants, restaurant.id, position))}
+                onRestaurantAdd={handleRestaurantAdd}
+                newVenues={newVenues}
+              />
+              <DataTable
+                restaurants={filteredRestaurants}
+                attributes={attributes}
+                selectedId={selectedRestaurant?.id ?? null}
+                onSelect={(restaurant) => setSelectedRestaurantId(restaurant.id)}
+                // Boundaries in replace mode overwrite every zone, so editing one would not show
+                editableFields={zoneBoundaries?.mode === 'replace' ? EDITABLE_FIELDS.filter(field => field !== 'zone') : EDITABLE_FIELDS}
+                onEdit={(restaurant, field, value) =>
+                  applyEdit(updateRestaurantField(sourceRestaurants, restaurant.id, field, value))}
+                sourceRestaurants={sourceRestaurants}
+                onDelete={(restaurant) => applyEdit(deleteRestaurant(sourceRestaurants, restaurant.id))}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Change Log
+              </CardTitle>
+              <CardDescription>
+                Edits made in this session; undo with Ctrl+Z, and export them with the dataset from the Export menu
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChangeLog edits={history.edits} />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,349 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination';
+import { ArrowDown, ArrowUp, ArrowUpDown, Trash2 } from 'lucide-react';
+import { AttributeDefinition, Restaurant } from '@/types/restaurant';
+import { DataColumn, filterRows, getDataColumns, sortRows } from '@/utils/dataTable';
+import { EditableField, isEditableField } from '@/utils/editing';
+
+interface DataTableProps {
+  restaurants: Restaurant[];
+  attributes: AttributeDefinition[];
+  selectedId: string | null;
+  onSelect: (restaurant: Restaurant) => void;
+  // Inline editing: cells of these fields open an input on double-click
+  editableFields?: EditableField[];
+  onEdit?: (restaurant: Restaurant, field: EditableField, value: string) => void;
+  // The records as stored, which edits start from; rows can carry derived values such as zones
+  // assigned from boundaries
+  sourceRestaurants?: Restaurant[];
+  // Adds a delete button to every row
+  onDelete?: (restaurant: Restaurant) => void;
+}
+
+const PAGE_SIZES = [100, 500, 2000];
+// Rows have a fixed height so the visible window can be computed from the scroll position
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 480;
+const OVERSCAN = 10;
+
+// Page numbers around the current page, with null where pages are skipped
+function pageWindow(page: number, pageCount: number): (number | null)[] {
+  const pages = new Set([0, pageCount - 1, page - 1, page, page + 1].filter(p => p >= 0 && p < pageCount));
+  const sorted = Array.from(pages).sort((a, b) => a - b);
+  return sorted.flatMap((p, i) => (i > 0 && p - sorted[i - 1] > 1 ? [null, p] : [p]));
+}
+
+// Every field of the filtered restaurants, with sorting, per-column filters and pages. Only the
+// rows scrolled into view are rendered, so large pages stay responsive.
+const DataTable: React.FC<DataTableProps> = ({
+  restaurants,
+  attributes,
+  selectedId,
+  onSelect,
+  editableFields = [],
+  onEdit,
+  sourceRestaurants,
+  onDelete
+}) => {
+  const [sort, setSort] = useState<{ columnId: string; descending: boolean } | null>(null);
+  const [columnFilters, setColumnFilters] = useState<Record<string, string>>({});
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+  const [scrollTop, setScrollTop] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const revealedId = useRef<string | null>(null);
+  const [editing, setEditing] = useState<{
+    restaurant: Restaurant;
+    field: EditableField;
+    initial: string;
+    draft: string;
+  } | null>(null);
+  // Set once an edit is saved or cancelled, so the blur from removing the input is ignored
+  const editFinished = useRef(false);
+
+  const columns = useMemo(() => getDataColumns(restaurants, attributes), [restaurants, attributes]);
+  const sourceById = useMemo(
+    () => new Map((sourceRestaurants ?? []).map(restaurant => [restaurant.id, restaurant])),
+    [sourceRestaurants]
+  );
+
+  const rows = useMemo(() => {
+    const filtered = filterRows(restaurants, columns, columnFilters);
+    const sortColumn = sort && columns.find(column => column.id === sort.columnId);
+    return sortColumn ? sortRows(filtered, sortColumn, sort.descending) : filtered;
+  }, [restaurants, columns, columnFilters, sort]);
+
+  // Existing cuisines or zones offered while typing one
+  const editingField = editing?.field;
+  const suggestions = useMemo(() => {
+    if (editingField !== 'cuisine' && editingField !== 'zone') return [];
+    return Array.from(new Set(restaurants.map(restaurant => restaurant[editingField]).filter(Boolean) as string[])).sort();
+  }, [restaurants, editingField]);
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = rows.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+
+  const firstVisible = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastVisible = Math.min(pageRows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+  const goToPage = (next: number) => {
+    setPage(next);
+    scrollRef.current?.scrollTo({ top: 0 });
+  };
+
+  // A restaurant selected elsewhere (a map marker) is brought into view once: its page is
+  // opened and the row scrolled to, unless it is already visible
+  useEffect(() => {
+    if (!selectedId || revealedId.current === selectedId) return;
+    const index = rows.findIndex(restaurant => restaurant.id === selectedId);
+    if (index === -1) return;
+
+    const targetPage = Math.floor(index / pageSize);
+    if (targetPage !== currentPage) {
+      setPage(targetPage);
+      return;
+    }
+
+    revealedId.current = selectedId;
+    const container = scrollRef.current;
+    if (!container) return;
+    const top = (index % pageSize) * ROW_HEIGHT;
+    if (top < container.scrollTop || top + ROW_HEIGHT > container.scrollTop + VIEWPORT_HEIGHT - ROW_HEIGHT * 2) {
+      container.scrollTo({ top: Math.max(0, top - VIEWPORT_HEIGHT / 2) });
+    }
+  }, [selectedId, rows, pageSize, currentPage]);
+
+  const toggleSort = (columnId: string) => {
+    setSort(prev => {
+      if (prev?.columnId !== columnId) return { columnId, descending: false };
+      return prev.descending ? null : { columnId, descending: true };
+    });
+  };
+
+  const updateFilter = (columnId: string, value: string) => {
+    setColumnFilters(prev => ({ ...prev, [columnId]: value }));
+    goToPage(0);
+  };
+
+  const handleRowClick = (restaurant: Restaurant) => {
+    revealedId.current = restaurant.id;
+    onSelect(restaurant);
+  };
+
+  const isEditable = (columnId: string): columnId is EditableField =>
+    onEdit !== undefined && isEditableField(columnId) && editableFields.includes(columnId);
+
+  const startEdit = (restaurant: Restaurant, column: DataColumn) => {
+    const field = column.id as EditableField;
+    const initial = (sourceById.get(restaurant.id) ?? restaurant)[field] ?? '';
+    editFinished.current = false;
+    setEditing({ restaurant, field, initial, draft: initial });
+  };
+
+  // Leaving an input untouched saves nothing
+  const finishEdit = (save: boolean) => {
+    if (!editing || editFinished.current) return;
+    editFinished.current = true;
+    if (save && editing.draft !== editing.initial) onEdit?.(editing.restaurant, editing.field, editing.draft);
+    setEditing(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="overflow-auto rounded-md border [&>div]:overflow-visible"
+        style={{ height: VIEWPORT_HEIGHT }}
+      >
+        <Table>
+          <TableHeader className="sticky top-0 z-10 bg-background shadow-sm">
+            <TableRow>
+              {columns.map(column => {
+                const Icon = sort?.columnId !== column.id ? ArrowUpDown : sort.descending ? ArrowDown : ArrowUp;
+                return (
+                  <TableHead key={column.id} className="h-9 whitespace-nowrap">
+                    <button className="flex items-center gap-1" onClick={() => toggleSort(column.id)}>
+                      {column.label}
+                      <Icon className={`h-3 w-3 ${sort?.columnId === column.id ? '' : 'text-muted-foreground'}`} />
+                    </button>
+                  </TableHead>
+                );
+              })}
+              {onDelete && <TableHead className="h-9 w-10" />}
+            </TableRow>
+            <TableRow>
+              {columns.map(column => (
+                <TableHead key={column.id} className="h-10 py-1">
+                  <Input
+                    value={columnFilters[column.id] ?? ''}
+                    onChange={(e) => updateFilter(column.id, e.target.value)}
+                    placeholder={column.type === 'text' ? 'Filter' : 'e.g. >10'}
+                    aria-label={`Filter ${column.label}`}
+                    className="h-7 min-w-[6rem] text-xs"
+                  />
+                </TableHead>
+              ))}
+              {onDelete && <TableHead className="h-10 py-1" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {firstVisible > 0 && <tr style={{ height: firstVisible * ROW_HEIGHT }} />}
+            {pageRows.slice(firstVisible, lastVisible).map(restaurant => (
+              <TableRow
+                key={restaurant.id}
+                data-state={restaurant.id === selectedId ? 'selected' : undefined}
+                onClick={() => handleRowClick(restaurant)}
+                className="cursor-pointer"
+                style={{ height: ROW_HEIGHT }}
+              >
+                {columns.map(column => {
+                  const editable = isEditable(column.id);
+                  const isEditing = editing?.restaurant.id === restaurant.id && editing.field === column.id;
+                  return (
+                    <TableCell
+                      key={column.id}
+                      className={`py-0 whitespace-nowrap ${column.type === 'text' ? '' : 'text-right tabular-nums'}`}
+                      title={editable ? 'Double-click to edit' : undefined}
+                      onDoubleClick={editable ? () => startEdit(restaurant, column) : undefined}
+                    >
+                      {isEditing ? (
+                        <Input
+                          autoFocus
+                          value={editing.draft}
+                          onChange={(e) => setEditing({ ...editing, draft: e.target.value })}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') finishEdit(true);
+                            if (e.key === 'Escape') finishEdit(false);
+                          }}
+                          onBlur={() => finishEdit(true)}
+                          onClick={(e) => e.stopPropagation()}
+                          list={editing.field === 'name' ? undefined : 'data-table-suggestions'}
+                          aria-label={`Edit ${column.label}`}
+                          className="h-7 min-w-[10rem] text-sm"
+                        />
+                      ) : (
+                        column.format(column.getValue(restaurant))
+                      )}
+                    </TableCell>
+                  );
+                })}
+                {onDelete && (
+                  <TableCell className="py-0">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      aria-label={`Delete ${restaurant.name}`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onDelete(restaurant);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+            {lastVisible < pageRows.length && <tr style={{ height: (pageRows.length - lastVisible) * ROW_HEIGHT }} />}
+          </TableBody>
+        </Table>
+        <datalist id="data-table-suggestions">
+          {suggestions.map(value => <option key={value} value={value} />)}
+        </datalist>
+        {rows.length === 0 && (
+          <p className="py-8 text-center text-sm text-muted-foreground">No restaurants match the column filters.</p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span>
+            {rows.length === 0
+              ? 'No rows'
+              : `Rows ${(currentPage * pageSize + 1).toLocaleString()}–${(currentPage * pageSize + pageRows.length).toLocaleString()} of ${rows.length.toLocaleString()}`}
+          </span>
+          <Select
+            value={String(pageSize)}
+            onValueChange={(value) => {
+              setPageSize(Number(value));
+              goToPage(0);
+            }}
+          >
+            <SelectTrigger className="h-8 w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAGE_SIZES.map(size => (
+                <SelectItem key={size} value={String(size)}>{size} per page</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {pageCount > 1 && (
+          <Pagination className="mx-0 w-auto">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  aria-disabled={currentPage === 0}
+                  className={currentPage === 0 ? 'pointer-events-none opacity-50' : ''}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    goToPage(currentPage - 1);
+                  }}
+                />
+              </PaginationItem>
+              {pageWindow(currentPage, pageCount).map((p, i) => (
+                <PaginationItem key={p ?? `gap-${i}`}>
+                  {p === null ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink
+                      href="#"
+                      isActive={p === currentPage}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        goToPage(p);
+                      }}
+                    >
+                      {p + 1}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  aria-disabled={currentPage === pageCount - 1}
+                  className={currentPage === pageCount - 1 ? 'pointer-events-none opacity-50' : ''}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    goToPage(currentPage + 1);
+                  }}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DataTable;
@@ -5,40 +5,139 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Upload, Link, Database } from 'lucide-react';
-import { parseCSVData, fetchDataFromURL, generateSampleData } from '@/utils/dataParser';
-import { Restaurant } from '@/types/restaurant';
+import {
+  parseSource,
+  fetchSourceFromURL,
+  applyColumnMapping,
+  generateSampleData,
+  ParsedSource,
+  SHEET_SEPARATOR
+} from '@/utils/dataParser';
+import { ACCEPTED_FILE_TYPES, FORMAT_LABELS, NamedTable } from '@/utils/fileFormats';
+import { suggestColumnMapping, loadSavedMapping, saveColumnMapping } from '@/utils/columnMapping';
+import { withAttributeTypes } from '@/utils/attributes';
+import { Restaurant, DatasetSource, RawTable, ColumnMapping, ImportResult } from '@/types/restaurant';
 import { useToast } from '@/hooks/use-toast';
+import DatasetLibrary from './DatasetLibrary';
+import ColumnMappingWizard from './ColumnMappingWizard';
+import ImportReport from './ImportReport';
+import SheetPicker from './SheetPicker';
+
+export interface DatasetOrigin {
+  name: string;
+  source: DatasetSource;
+  sourceDetail?: string;
+}
+
+interface PendingImport {
+  table: RawTable;
+  origin: DatasetOrigin;
+  sourceLabel: string;
+  mapping: ColumnMapping;
+  // Set once the mapping is applied and some rows need attention
+  result?: ImportResult;
+}
+
+interface PendingSheetChoice {
+  sheets: NamedTable[];
+  origin: DatasetOrigin;
+  sourceLabel: string;
+}
 
 interface DataUploadProps {
-  onDataLoaded: (restaurants: Restaurant[]) => void;
+  onDataLoaded: (restaurants: Restaurant[], origin: DatasetOrigin) => void;
+  onOpenDataset: (id: string) => void;
 }
 
-const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded }) => {
+const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded, onOpenDataset }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [url, setUrl] = useState('');
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [pendingSheets, setPendingSheets] = useState<PendingSheetChoice | null>(null);
   const { toast } = useToast();
 
+  const finishImport = (restaurants: Restaurant[], origin: DatasetOrigin, sourceLabel: string) => {
+    setPendingImport(null);
+    onDataLoaded(restaurants, origin);
+    toast({
+      title: "Success!",
+      description: `Loaded ${restaurants.length} restaurants from ${sourceLabel}.`,
+    });
+  };
+
+  const importTable = (table: RawTable, origin: DatasetOrigin, mapping: ColumnMapping, sourceLabel: string) => {
+    try {
+      const resolvedMapping = withAttributeTypes(table, mapping);
+      const result = applyColumnMapping(table, resolvedMapping);
+      saveColumnMapping(origin.sourceDetail ?? origin.name, table.fields, resolvedMapping);
+      if (result.issues.length > 0) {
+        setPendingImport({ table, origin, sourceLabel, mapping: resolvedMapping, result });
+      } else {
+        finishImport(result.restaurants, origin, sourceLabel);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import data",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Sources imported before skip the mapping step; new layouts go through the wizard
+  const handleTableLoaded = (table: RawTable, origin: DatasetOrigin, sourceLabel: string) => {
+    const savedMapping = loadSavedMapping(origin.sourceDetail ?? origin.name, table.fields);
+    if (savedMapping) {
+      importTable(table, origin, savedMapping, sourceLabel);
+    } else {
+      setPendingImport({ table, origin, sourceLabel, mapping: suggestColumnMapping(table.fields) });
+    }
+  };
+
+  // Workbooks with several sheets ask which one to import; the sheet becomes part of the source
+  // so each sheet keeps its own saved column mapping
+  const handleSheetSelected = (sheet: NamedTable, origin: DatasetOrigin, sourceLabel: string, isOnlySheet: boolean) => {
+    setPendingSheets(null);
+    handleTableLoaded(
+      sheet.table,
+      isOnlySheet ? origin : {
+        ...origin,
+        name: `${origin.name} – ${sheet.name}`,
+        sourceDetail: `${origin.sourceDetail ?? origin.name}${SHEET_SEPARATOR}${sheet.name}`
+      },
+      sourceLabel
+    );
+  };
+
+  const handleSourceLoaded = (source: ParsedSource, origin: DatasetOrigin, sourceLabel: string) => {
+    if (source.tables.length === 1) {
+      handleSheetSelected(source.tables[0], origin, sourceLabel, true);
+    } else {
+      setPendingSheets({ sheets: source.tables, origin, sourceLabel });
+    }
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     setIsLoading(true);
     try {
-      const text = await file.text();
-      const restaurants = await parseCSVData(text);
-      onDataLoaded(restaurants);
-      toast({
-        title: "Success!",
-        description: `Loaded ${restaurants.length} restaurants from CSV file.`,
-      });
+      const source = await parseSource(await file.arrayBuffer(), file.name);
+      handleSourceLoaded(
+        source,
+        { name: file.name.replace(/\.[^.]+$/, ''), source: 'file', sourceDetail: file.name },
+        `${FORMAT_LABELS[source.format]} file`
+      );
     } catch (error) {
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : "Failed to parse CSV file",
+        description: error instanceof Error ? error.message : "Failed to parse file",
         variant: "destructive",
       });
     } finally {
       setIsLoading(false);
+      event.target.value = '';
     }
   };
 
@@ -47,12 +146,8 @@ const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded }) => {
 
     setIsLoading(true);
     try {
-      const restaurants = await fetchDataFromURL(url);
-      onDataLoaded(restaurants);
-      toast({
-        title: "Success!",
-        description: `Loaded ${restaurants.length} restaurants from URL.`,
-      });
+      const source = await fetchSourceFromURL(url);
+      handleSourceLoaded(source, { name: new URL(url).hostname, source: 'url', sourceDetail: url }, 'URL');
     } catch (error) {
       toast({
         title: "Error",
@@ -66,7 +161,7 @@ const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded }) => {
 
   const handleSampleData = () => {
     const sampleData = generateSampleData();
-    onDataLoaded(sampleData);
+    onDataLoaded(sampleData, { name: 'Sample restaurants', source: 'sample' });
     toast({
       title: "Sample Data Loaded",
       description: `Loaded ${sampleData.length} sample restaurants.`,
@@ -74,90 +169,122 @@ const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded }) => {
   };
 
   return (
-    <Card className="w-full max-w-2xl mx-auto">
-      <CardHeader className="text-center">
-        <CardTitle className="text-2xl bg-gradient-to-r from-dashboard-primary to-dashboard-secondary bg-clip-text text-transparent">
-          Restaurant Data Import
-        </CardTitle>
-        <CardDescription>
-          Upload a CSV file, provide a URL, or use sample data to get started
-        </CardDescription>
-      </CardHeader>
-      <CardContent>
-        <Tabs defaultValue="upload" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
-            <TabsTrigger value="upload" className="flex items-center gap-2">
-              <Upload className="h-4 w-4" />
-              Upload CSV
-            </TabsTrigger>
-            <TabsTrigger value="url" className="flex items-center gap-2">
-              <Link className="h-4 w-4" />
-              From URL
-            </TabsTrigger>
-            <TabsTrigger value="sample" className="flex items-center gap-2">
-              <Database className="h-4 w-4" />
-              Sample Data
-            </TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="upload" className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="file">Choose CSV File</Label>
-              <Input
-                id="file"
-                type="file"
-                accept=".csv"
-                onChange={handleFileUpload}
-                disabled={isLoading}
-              />
-            </div>
-            <div className="text-sm text-muted-foreground">
-              <p><strong>Expected columns:</strong> name, lat, lon, cuisine (optional), zone (optional)</p>
-              <p><strong>Alternative names:</strong> latitude/longitude, restaurant_name, type, area, district</p>
-            </div>
-          </TabsContent>
-
-          <TabsContent value="url" className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="url">Data URL</Label>
-              <Input
-                id="url"
-                type="url"
-                placeholder="https://example.com/restaurants.csv"
-                value={url}
-                onChange={(e) => setUrl(e.target.value)}
-                disabled={isLoading}
-              />
-            </div>
-            <Button 
-              onClick={handleURLSubmit} 
-              disabled={isLoading || !url.trim()}
-              className="w-full"
-            >
-              {isLoading ? 'Loading...' : 'Load Data from URL'}
-            </Button>
-            <div className="text-sm text-muted-foreground">
-              <p><strong>Tip:</strong> You can use Google Sheets export URLs or any public CSV endpoint</p>
-            </div>
-          </TabsContent>
-
-          <TabsContent value="sample" className="space-y-4">
-            <div className="text-center space-y-4">
-              <p className="text-muted-foreground">
-                Load sample restaurant data to explore the dashboard features
-              </p>
-              <Button 
-                onClick={handleSampleData}
-                className="w-full"
-                variant="outline"
-              >
-                Load Sample Data (15 restaurants)
-              </Button>
-            </div>
-          </TabsContent>
-        </Tabs>
-      </CardContent>
-    </Card>
+    <div className="w-full space-y-6">
+      <Card className={`w-full mx-auto ${pendingImport || pendingSheets ? 'max-w-4xl' : 'max-w-2xl'}`}>
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl bg-gradient-to-r from-dashboard-primary to-dashboard-secondary bg-clip-text text-transparent">
+            Restaurant Data Import
+          </CardTitle>
+          <CardDescription>
+            Upload a CSV, GeoJSON, KML or Excel file, provide a URL, or use sample data to get started
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {pendingSheets ? (
+            <SheetPicker
+              sheets={pendingSheets.sheets}
+              sourceLabel={pendingSheets.origin.sourceDetail ?? pendingSheets.origin.name}
+              onSelect={(sheet) => handleSheetSelected(sheet, pendingSheets.origin, pendingSheets.sourceLabel, false)}
+              onCancel={() => setPendingSheets(null)}
+            />
+          ) : pendingImport?.result ? (
+            <ImportReport
+              table={pendingImport.table}
+              mapping={pendingImport.mapping}
+              result={pendingImport.result}
+              sourceLabel={pendingImport.origin.sourceDetail ?? pendingImport.origin.name}
+              onImport={(restaurants) => finishImport(restaurants, pendingImport.origin, pendingImport.sourceLabel)}
+              onAbort={() => setPendingImport(null)}
+            />
+          ) : pendingImport ? (
+            <ColumnMappingWizard
+              table={pendingImport.table}
+              initialMapping={pendingImport.mapping}
+              sourceLabel={pendingImport.origin.sourceDetail ?? pendingImport.origin.name}
+              onConfirm={(mapping) => importTable(pendingImport.table, pendingImport.origin, mapping, pendingImport.sourceLabel)}
+              onCancel={() => setPendingImport(null)}
+            />
+          ) : (
+            <Tabs defaultValue="upload" className="w-full">
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="upload" className="flex items-center gap-2">
+                  <Upload className="h-4 w-4" />
+                  Upload File
+                </TabsTrigger>
+                <TabsTrigger value="url" className="flex items-center gap-2">
+                  <Link className="h-4 w-4" />
+                  From URL
+                </TabsTrigger>
+                <TabsTrigger value="sample" className="flex items-center gap-2">
+                  <Database className="h-4 w-4" />
+                  Sample Data
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="upload" className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="file">Choose File</Label>
+                  <Input
+                    id="file"
+                    type="file"
+                    accept={ACCEPTED_FILE_TYPES}
+                    onChange={handleFileUpload}
+                    disabled={isLoading}
+                  />
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  <p><strong>Formats:</strong> CSV, GeoJSON, KML (e.g. from Google My Maps) and Excel workbooks</p>
+                  <p><strong>Expected columns:</strong> name, lat, lon, cuisine (optional), zone (optional)</p>
+                  <p><strong>No coordinates?</strong> Map an address column instead and geocode the rows during import</p>
+                  <p><strong>Other headers:</strong> you can map any column names in the next step; mappings are remembered for the next import</p>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="url" className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="url">Data URL</Label>
+                  <Input
+                    id="url"
+                    type="url"
+                    placeholder="https://example.com/restaurants.csv"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    disabled={isLoading}
+                  />
+                </div>
+                <Button 
+                  onClick={handleURLSubmit} 
+                  disabled={isLoading || !url.trim()}
+                  className="w-full"
+                >
+                  {isLoading ? 'Loading...' : 'Load Data from URL'}
+                </Button>
+                <div className="text-sm text-muted-foreground">
+                  <p><strong>Tip:</strong> You can use Google Sheets export URLs or any public CSV, GeoJSON, KML or Excel endpoint</p>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="sample" className="space-y-4">
+                <div className="text-center space-y-4">
+                  <p className="text-muted-foreground">
+                    Load sample restaurant data to explore the dashboard features
+                  </p>
+                  <Button 
+                    onClick={handleSampleData}
+                    className="w-full"
+                    variant="outline"
+                  >
+                    Load Sample Data (15 restaurants)
+                  </Button>
+                </div>
+              </TabsContent>
+            </Tabs>
+          )}
+        </CardContent>
+      </Card>
+
+      <DatasetLibrary onOpen={onOpenDataset} />
+    </div>
   );
 };
 
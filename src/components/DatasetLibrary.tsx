@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { Check, Copy, FolderOpen, Pencil, Trash2, X } from 'lucide-react';
+import { DatasetMeta, DatasetSource } from '@/types/restaurant';
+import { useDatasets } from '@/hooks/use-datasets';
+import { useToast } from '@/hooks/use-toast';
+
+interface DatasetLibraryProps {
+  onOpen: (id: string) => void;
+}
+
+const SOURCE_LABELS: Record<DatasetSource, string> = {
+  file: 'File',
+  url: 'URL',
+  sample: 'Sample'
+};
+
+const DatasetLibrary: React.FC<DatasetLibraryProps> = ({ onOpen }) => {
+  const { datasets, isLoading, rename, duplicate, remove } = useDatasets();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const { toast } = useToast();
+
+  const reportError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Dataset storage is unavailable",
+      variant: "destructive",
+    });
+  };
+
+  const startRename = (dataset: DatasetMeta) => {
+    setEditingId(dataset.id);
+    setDraftName(dataset.name);
+  };
+
+  const commitRename = () => {
+    const name = draftName.trim();
+    if (editingId && name) {
+      rename.mutate({ id: editingId, name }, { onError: reportError });
+    }
+    setEditingId(null);
+  };
+
+  if (isLoading) return null;
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="text-lg">My Datasets</CardTitle>
+        <CardDescription>
+          {datasets.length === 0
+            ? 'Imported datasets are saved in this browser and will show up here'
+            : `${datasets.length} dataset${datasets.length === 1 ? '' : 's'} saved in this browser`}
+        </CardDescription>
+      </CardHeader>
+      {datasets.length > 0 && (
+        <CardContent className="space-y-2">
+          {datasets.map(dataset => (
+            <div key={dataset.id} className="flex items-center gap-2 rounded-lg border p-3">
+              <div className="flex-1 min-w-0">
+                {editingId === dataset.id ? (
+                  <Input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="h-8"
+                  />
+                ) : (
+                  <p className="font-medium truncate">{dataset.name}</p>
+                )}
+                <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                  <Badge variant="outline" className="text-xs">{SOURCE_LABELS[dataset.source]}</Badge>
+                  <span>{dataset.rowCount} restaurants</span>
+                  <span>·</span>
+                  <span>{new Date(dataset.importedAt).toLocaleString()}</span>
+                </div>
+              </div>
+
+              {editingId === dataset.id ? (
+                <>
+                  <Button variant="ghost" size="icon" onClick={commitRename} aria-label="Save name">
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setEditingId(null)} aria-label="Cancel rename">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Button variant="outline" size="sm" onClick={() => onOpen(dataset.id)}>
+                    <FolderOpen className="h-4 w-4 mr-1" />
+                    Open
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => startRename(dataset)} aria-label="Rename dataset">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => duplicate.mutate(dataset.id, { onError: reportError })}
+                    aria-label="Duplicate dataset"
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="icon" aria-label="Delete dataset">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete "{dataset.name}"?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          This removes the {dataset.rowCount} saved restaurants from this browser. It cannot be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => remove.mutate(dataset.id, { onError: reportError })}>
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default DatasetLibrary;
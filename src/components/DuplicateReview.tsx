@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { CopyX } from 'lucide-react';
+import { DeduplicationOptions, Restaurant } from '@/types/restaurant';
+import { DEFAULT_DEDUPLICATION_OPTIONS, applyMerges, findDuplicateGroups } from '@/utils/deduplication';
+import { EditResult, describeMerges } from '@/utils/editing';
+import { useToast } from '@/hooks/use-toast';
+
+interface DuplicateReviewProps {
+  restaurants: Restaurant[];
+  onMerge: (result: EditResult) => void;
+}
+
+const describeRecord = (restaurant: Restaurant) =>
+  [restaurant.cuisine, restaurant.zone, restaurant.address].filter(Boolean).join(' · ') ||
+  `${restaurant.lat.toFixed(5)}, ${restaurant.lon.toFixed(5)}`;
+
+// Finds records that are probably the same venue and merges each accepted group into the record
+// the user chooses to keep
+const DuplicateReview: React.FC<DuplicateReviewProps> = ({ restaurants, onMerge }) => {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<DeduplicationOptions>(DEFAULT_DEDUPLICATION_OPTIONS);
+  // Per-group choices; groups without an entry use the suggested survivor and are merged
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+
+  const groups = useMemo(
+    () => (open ? findDuplicateGroups(restaurants, options) : []),
+    [open, restaurants, options]
+  );
+
+  const selectedGroups = groups.filter(group => !skipped.has(group.id));
+  const removedCount = selectedGroups.reduce((sum, group) => sum + group.restaurants.length - 1, 0);
+
+  const toggleGroup = (id: string, merge: boolean) => {
+    const next = new Set(skipped);
+    if (merge) next.delete(id);
+    else next.add(id);
+    setSkipped(next);
+  };
+
+  const handleMerge = () => {
+    const merges = selectedGroups.map(group => ({
+      survivorId: survivors[group.id] ?? group.suggestedSurvivorId,
+      duplicateIds: group.restaurants.map(restaurant => restaurant.id)
+    }));
+    const { restaurants: merged, removed } = applyMerges(restaurants, merges);
+
+    onMerge({ restaurants: merged, edit: describeMerges(restaurants, merges) });
+    toast({
+      title: "Duplicates merged",
+      description: `Removed ${removed} duplicate restaurants from ${selectedGroups.length} groups.`,
+    });
+    setSurvivors({});
+    setSkipped(new Set());
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <CopyX className="h-4 w-4 mr-1" />
+          Find Duplicates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Duplicate Restaurants</DialogTitle>
+          <DialogDescription>
+            Records close together with similar names are grouped. Choose the record to keep in each
+            group; missing fields are filled in from the others.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-sm">Within {options.maxDistanceMeters} m</Label>
+            <Slider
+              value={[options.maxDistanceMeters]}
+              onValueChange={([maxDistanceMeters]) => setOptions({ ...options, maxDistanceMeters })}
+              min={5}
+              max={500}
+              step={5}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm">Name similarity at least {Math.round(options.minNameSimilarity * 100)}%</Label>
+            <Slider
+              value={[options.minNameSimilarity]}
+              onValueChange={([minNameSimilarity]) => setOptions({ ...options, minNameSimilarity })}
+              min={0.3}
+              max={1}
+              step={0.05}
+            />
+          </div>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto space-y-3 pr-1">
+          {groups.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No likely duplicates with these settings.
+            </p>
+          ) : groups.map(group => {
+            const survivorId = survivors[group.id] ?? group.suggestedSurvivorId;
+            const included = !skipped.has(group.id);
+
+            return (
+              <div key={group.id} className={`rounded-md border p-3 space-y-2 ${included ? '' : 'opacity-60'}`}>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id={`merge-${group.id}`}
+                    checked={included}
+                    onCheckedChange={(checked) => toggleGroup(group.id, checked === true)}
+                  />
+                  <Label htmlFor={`merge-${group.id}`} className="text-sm font-medium">
+                    Merge {group.restaurants.length} records
+                  </Label>
+                  <Badge variant="secondary" className="ml-auto">{Math.round(group.similarity * 100)}% similar</Badge>
+                  <Badge variant="outline">{Math.round(group.maxDistanceMeters)} m apart</Badge>
+                </div>
+                <RadioGroup
+                  value={survivorId}
+                  onValueChange={(id) => setSurvivors({ ...survivors, [group.id]: id })}
+                  disabled={!included}
+                  className="gap-1"
+                >
+                  {group.restaurants.map(restaurant => (
+                    <div key={restaurant.id} className="flex items-center gap-2">
+                      <RadioGroupItem value={restaurant.id} id={`${group.id}-${restaurant.id}`} />
+                      <Label htmlFor={`${group.id}-${restaurant.id}`} className="flex-1 min-w-0 font-normal">
+                        <span className="text-sm">{restaurant.name}</span>
+                        <span className="block text-xs text-muted-foreground truncate">{describeRecord(restaurant)}</span>
+                      </Label>
+                      {restaurant.id === survivorId && <Badge variant="outline" className="text-xs">Keep</Badge>}
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter className="items-center gap-2">
+          {removedCount > 0 && (
+            <span className="text-sm text-muted-foreground mr-auto">
+              {removedCount} of {restaurants.length} records will be removed
+            </span>
+          )}
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleMerge} disabled={selectedGroups.length === 0}>
+            Merge {selectedGroups.length} groups
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DuplicateReview;
@@ -0,0 +1,185 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Download, FileJson, FileSpreadsheet, FileText, History, Loader2, Table } from 'lucide-react';
+import { AttributeDefinition, ClusteringResult, DatasetEdit, Restaurant } from '@/types/restaurant';
+import {
+  buildGroupStats,
+  buildRestaurantsCSV,
+  buildEditedDatasetWorkbook,
+  buildRestaurantsGeoJSON,
+  buildStatsWorkbook,
+  exportFileName,
+  getClusterAssignments
+} from '@/utils/exportData';
+import { buildPDFReport, captureElement, waitForImages } from '@/utils/pdfReport';
+import { KeyInsight } from '@/utils/insights';
+import { downloadFile } from '@/utils/download';
+import { useToast } from '@/hooks/use-toast';
+
+// Charts animate in over 1.5s; map tiles that have not arrived after the timeout are left blank
+const CHART_SETTLE_MS = 1600;
+const TILE_TIMEOUT_MS = 8000;
+
+interface ExportMenuProps {
+  restaurants: Restaurant[];
+  filteredRestaurants: Restaurant[];
+  clustering: ClusteringResult;
+  clusteringLabel: string;
+  attributes: AttributeDefinition[];
+  insights: KeyInsight[];
+  recommendations: string[];
+  // Edits made in the app, exported as a change log next to the whole dataset
+  edits: DatasetEdit[];
+  // Rendered off-screen only while the PDF report is being captured
+  snapshot: React.ReactNode;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({
+  restaurants,
+  filteredRestaurants,
+  clustering,
+  clusteringLabel,
+  attributes,
+  insights,
+  recommendations,
+  edits,
+  snapshot
+}) => {
+  const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+  const snapshotRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  const assignments = getClusterAssignments(clustering);
+
+  const exportCSV = () => {
+    const csv = buildRestaurantsCSV(filteredRestaurants, assignments, attributes);
+    downloadFile(csv, exportFileName('restaurants', 'csv'), 'text/csv;charset=utf-8');
+  };
+
+  const exportGeoJSON = () => {
+    const geojson = buildRestaurantsGeoJSON(filteredRestaurants, assignments, attributes);
+    downloadFile(geojson, exportFileName('restaurants', 'geojson'), 'application/geo+json');
+  };
+
+  const exportWorkbook = () => {
+    const workbook = buildStatsWorkbook(filteredRestaurants, assignments, attributes);
+    downloadFile(
+      workbook,
+      exportFileName('restaurant-stats', 'xlsx'),
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+  };
+
+  const exportEditedDataset = () => {
+    const workbook = buildEditedDatasetWorkbook(restaurants, assignments, attributes, edits);
+    downloadFile(
+      workbook,
+      exportFileName('restaurants-edited', 'xlsx'),
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+  };
+
+  const exportReport = async () => {
+    setIsGeneratingReport(true);
+    try {
+      await new Promise(resolve => setTimeout(resolve, CHART_SETTLE_MS));
+      const container = snapshotRef.current;
+      if (!container) throw new Error('The report views could not be rendered.');
+      await waitForImages(container, TILE_TIMEOUT_MS);
+
+      const snapshots = [];
+      for (const section of Array.from(container.querySelectorAll<HTMLElement>('[data-report-section]'))) {
+        snapshots.push({ title: section.dataset.reportSection ?? '', canvas: await captureElement(section) });
+      }
+
+      const noiseCount = clustering.noise.length;
+      const pdf = await buildPDFReport({
+        title: 'Restaurant Analytics Report',
+        subtitle: `Generated ${new Date().toLocaleString()}`,
+        summary: [
+          ['Restaurants', filteredRestaurants.length === restaurants.length
+            ? String(restaurants.length)
+            : `${filteredRestaurants.length} of ${restaurants.length} (filtered)`],
+          ['Clustering', `${clusteringLabel}, ${clustering.clusters.length} clusters${noiseCount > 0 ? `, ${noiseCount} noise` : ''}`]
+        ],
+        insights,
+        recommendations,
+        cuisineStats: buildGroupStats(filteredRestaurants, 'cuisine', assignments, attributes),
+        zoneStats: buildGroupStats(filteredRestaurants, 'zone', assignments, attributes),
+        snapshots
+      });
+      downloadFile(pdf, exportFileName('restaurant-report', 'pdf'), 'application/pdf');
+    } catch (error) {
+      toast({
+        title: "Report failed",
+        description: error instanceof Error ? error.message : "The PDF report could not be generated",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGeneratingReport(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isGeneratingReport}>
+            {isGeneratingReport ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-1" />
+            )}
+            {isGeneratingReport ? 'Preparing Report...' : 'Export'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>{filteredRestaurants.length} filtered restaurants</DropdownMenuLabel>
+          <DropdownMenuItem onSelect={exportCSV}>
+            <Table className="h-4 w-4 mr-2" />
+            CSV with clusters
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={exportGeoJSON}>
+            <FileJson className="h-4 w-4 mr-2" />
+            GeoJSON with clusters
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={exportWorkbook}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Cuisine &amp; zone stats (XLSX)
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={exportReport}>
+            <FileText className="h-4 w-4 mr-2" />
+            PDF report
+          </DropdownMenuItem>
+          {edits.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>All {restaurants.length} restaurants</DropdownMenuLabel>
+              <DropdownMenuItem onSelect={exportEditedDataset}>
+                <History className="h-4 w-4 mr-2" />
+                Edited dataset with change log (XLSX)
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {isGeneratingReport && (
+        <div ref={snapshotRef} className="fixed top-0 -left-[10000px] w-[1000px] bg-background p-4" aria-hidden>
+          {snapshot}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ExportMenu;
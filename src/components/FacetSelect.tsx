@@ -0,0 +1,83 @@
+import React from 'react';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { FacetFilter } from '@/types/restaurant';
+import { cn } from '@/lib/utils';
+
+interface FacetSelectProps {
+  label: string;
+  options: { value: string; count: number }[];
+  filter: FacetFilter;
+  onChange: (filter: FacetFilter) => void;
+}
+
+const FacetSelect: React.FC<FacetSelectProps> = ({ label, options, filter, onChange }) => {
+  const toggleValue = (value: string) => {
+    const values = filter.values.includes(value)
+      ? filter.values.filter(v => v !== value)
+      : [...filter.values, value];
+    onChange({ ...filter, values });
+  };
+
+  const summary = filter.values.length === 0
+    ? `All ${label.toLowerCase()}s`
+    : `${filter.mode === 'include' ? '' : 'Not '}${filter.values.length} selected`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" className="w-full justify-between font-normal">
+          <span className="truncate">{summary}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-0" align="start">
+        <div className="flex items-center justify-between border-b p-2">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={filter.mode}
+            onValueChange={(mode) => mode && onChange({ ...filter, mode: mode as FacetFilter['mode'] })}
+          >
+            <ToggleGroupItem value="include">Include</ToggleGroupItem>
+            <ToggleGroupItem value="exclude">Exclude</ToggleGroupItem>
+          </ToggleGroup>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={filter.values.length === 0}
+            onClick={() => onChange({ ...filter, values: [] })}
+          >
+            Reset
+          </Button>
+        </div>
+        <Command>
+          <CommandInput placeholder={`Search ${label.toLowerCase()}s...`} />
+          <CommandList>
+            <CommandEmpty>No {label.toLowerCase()} found.</CommandEmpty>
+            <CommandGroup>
+              {options.map(({ value, count }) => {
+                const checked = filter.values.includes(value);
+                return (
+                  <CommandItem key={value} value={value} onSelect={() => toggleValue(value)}>
+                    <Check className={cn('mr-2 h-4 w-4', checked ? 'opacity-100' : 'opacity-0')} />
+                    <span className="flex-1 truncate">{value}</span>
+                    <Badge variant={count === 0 ? 'outline' : 'secondary'} className="ml-2 text-xs">
+                      {count}
+                    </Badge>
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default FacetSelect;
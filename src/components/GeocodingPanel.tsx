@@ -0,0 +1,278 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { MapPin, Square } from 'lucide-react';
+import { ColumnMapping, GeocoderProvider, GeocoderSettings, ImportIssue } from '@/types/restaurant';
+import {
+  AUTO_ACCEPT_CONFIDENCE,
+  BUNDLED_GAZETTEER_LABEL,
+  HIGH_CONFIDENCE,
+  GeocodeOutcome,
+  createGeocoder,
+  geocodeQueries,
+  loadGeocoderSettings,
+  parseGazetteerCSV,
+  saveGeocoderSettings
+} from '@/utils/geocoding';
+import { useToast } from '@/hooks/use-toast';
+
+interface GeocodingPanelProps {
+  // Rows flagged as needing geocoding
+  issues: ImportIssue[];
+  mapping: ColumnMapping;
+  onApply: (coordinates: Record<number, { lat: number; lon: number }>) => void;
+}
+
+const PROVIDER_LABELS: Record<GeocoderProvider, string> = {
+  bundled: 'Bundled gazetteer',
+  gazetteer: 'Custom gazetteer CSV',
+  http: 'Nominatim-compatible service'
+};
+
+const PROVIDERS = Object.keys(PROVIDER_LABELS) as GeocoderProvider[];
+
+function confidenceBadge(confidence: number) {
+  if (confidence >= HIGH_CONFIDENCE) return <Badge className="bg-green-600 hover:bg-green-600">High {confidence.toFixed(2)}</Badge>;
+  if (confidence >= AUTO_ACCEPT_CONFIDENCE) return <Badge className="bg-amber-500 hover:bg-amber-500">Medium {confidence.toFixed(2)}</Badge>;
+  return <Badge variant="destructive">Low {confidence.toFixed(2)}</Badge>;
+}
+
+// Looks up coordinates for address-only rows and lets the user review each match before its
+// coordinates are written into the row
+const GeocodingPanel: React.FC<GeocodingPanelProps> = ({ issues, mapping, onApply }) => {
+  const [settings, setSettings] = useState<GeocoderSettings>(loadGeocoderSettings);
+  const [outcomes, setOutcomes] = useState<GeocodeOutcome[]>([]);
+  const [accepted, setAccepted] = useState<Set<number>>(new Set());
+  const [isRunning, setIsRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateSettings = (patch: Partial<GeocoderSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveGeocoderSettings(next);
+  };
+
+  const handleGazetteerUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const entries = parseGazetteerCSV(text);
+      updateSettings({ gazetteerCSV: text, gazetteerName: `${file.name} (${entries.length} places)` });
+    } catch (error) {
+      toast({
+        title: "Invalid gazetteer",
+        description: error instanceof Error ? error.message : "Failed to read the gazetteer",
+        variant: "destructive",
+      });
+    } finally {
+      event.target.value = '';
+    }
+  };
+
+  const queries = issues
+    .map(issue => ({ rowIndex: issue.rowIndex, query: mapping.address ? issue.row[mapping.address]?.trim() ?? '' : '' }))
+    .filter(query => query.query);
+
+  const handleRun = async () => {
+    let geocoder;
+    try {
+      geocoder = createGeocoder(settings);
+    } catch (error) {
+      toast({
+        title: "Geocoder not ready",
+        description: error instanceof Error ? error.message : "Check the geocoder settings",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setOutcomes([]);
+    setAccepted(new Set());
+    setIsRunning(true);
+
+    await geocodeQueries(queries, geocoder, (outcome) => {
+      setOutcomes(prev => [...prev, outcome]);
+      if (outcome.match && outcome.match.confidence >= AUTO_ACCEPT_CONFIDENCE) {
+        setAccepted(prev => new Set(prev).add(outcome.rowIndex));
+      }
+    }, controller.signal);
+
+    setIsRunning(false);
+    abortRef.current = null;
+  };
+
+  const toggleAccepted = (rowIndex: number, checked: boolean) => {
+    const next = new Set(accepted);
+    if (checked) next.add(rowIndex);
+    else next.delete(rowIndex);
+    setAccepted(next);
+  };
+
+  const handleApply = () => {
+    const coordinates: Record<number, { lat: number; lon: number }> = {};
+    outcomes.forEach(({ rowIndex, match }) => {
+      if (match && accepted.has(rowIndex)) coordinates[rowIndex] = { lat: match.lat, lon: match.lon };
+    });
+    onApply(coordinates);
+    setOutcomes(outcomes.filter(outcome => !accepted.has(outcome.rowIndex)));
+    setAccepted(new Set());
+  };
+
+  const failedCount = outcomes.filter(outcome => !outcome.match).length;
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div>
+        <p className="font-medium">Geocode addresses</p>
+        <p className="text-sm text-muted-foreground">
+          {queries.length} rows have an address but no coordinates.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Provider</Label>
+          <Select
+            value={settings.provider}
+            onValueChange={(provider) => updateSettings({ provider: provider as GeocoderProvider })}
+            disabled={isRunning}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROVIDERS.map(provider => (
+                <SelectItem key={provider} value={provider}>{PROVIDER_LABELS[provider]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {settings.provider === 'bundled' && (
+          <p className="md:col-span-2 self-end text-xs text-muted-foreground pb-2">{BUNDLED_GAZETTEER_LABEL}</p>
+        )}
+
+        {settings.provider === 'gazetteer' && (
+          <div className="md:col-span-2 space-y-1">
+            <Label htmlFor="gazetteer" className="text-xs">
+              Gazetteer CSV (name or address, lat, lon){settings.gazetteerName ? ` · ${settings.gazetteerName}` : ''}
+            </Label>
+            <Input id="gazetteer" type="file" accept=".csv" onChange={handleGazetteerUpload} disabled={isRunning} className="h-9" />
+          </div>
+        )}
+
+        {settings.provider === 'http' && (
+          <>
+            <div className="space-y-1">
+              <Label htmlFor="geocoder-url" className="text-xs">Service URL</Label>
+              <Input
+                id="geocoder-url"
+                value={settings.baseUrl}
+                onChange={(e) => updateSettings({ baseUrl: e.target.value })}
+                placeholder="http://localhost:8080"
+                disabled={isRunning}
+                className="h-9"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="geocoder-interval" className="text-xs">Minimum ms between requests</Label>
+              <Input
+                id="geocoder-interval"
+                type="number"
+                min={0}
+                value={settings.minIntervalMs}
+                onChange={(e) => updateSettings({ minIntervalMs: Math.max(0, Number(e.target.value) || 0) })}
+                disabled={isRunning}
+                className="h-9"
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3">
+        {isRunning ? (
+          <Button variant="outline" size="sm" onClick={() => abortRef.current?.abort()}>
+            <Square className="h-4 w-4 mr-1" />
+            Cancel
+          </Button>
+        ) : (
+          <Button size="sm" onClick={handleRun} disabled={queries.length === 0}>
+            <MapPin className="h-4 w-4 mr-1" />
+            Geocode {queries.length} addresses
+          </Button>
+        )}
+        {(isRunning || outcomes.length > 0) && (
+          <div className="flex flex-1 items-center gap-2">
+            <Progress value={(outcomes.length / Math.max(queries.length, 1)) * 100} className="h-2" />
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {outcomes.length} / {queries.length}{failedCount > 0 ? `, ${failedCount} not found` : ''}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {outcomes.length > 0 && (
+        <>
+          <div className="rounded-md border max-h-72 overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Row</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead>Match</TableHead>
+                  <TableHead>Coordinates</TableHead>
+                  <TableHead>Confidence</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {outcomes.map(({ rowIndex, query, match, error }) => (
+                  <TableRow key={rowIndex}>
+                    <TableCell>
+                      <Checkbox
+                        checked={accepted.has(rowIndex)}
+                        onCheckedChange={(checked) => toggleAccepted(rowIndex, checked === true)}
+                        disabled={!match}
+                        aria-label={`Use match for row ${rowIndex + 2}`}
+                      />
+                    </TableCell>
+                    <TableCell>{rowIndex + 2}</TableCell>
+                    <TableCell className="max-w-[200px] truncate">{query}</TableCell>
+                    <TableCell className="max-w-[220px] truncate">
+                      {match ? match.label : <span className="text-muted-foreground">{error ?? 'No match'}</span>}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {match ? `${match.lat.toFixed(5)}, ${match.lon.toFixed(5)}` : ''}
+                    </TableCell>
+                    <TableCell>{match && confidenceBadge(match.confidence)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleApply} disabled={isRunning || accepted.size === 0}>
+              Use {accepted.size} selected matches
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GeocodingPanel;
@@ -0,0 +1,50 @@
+import React, { useEffect } from 'react';
+import { useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { Restaurant, HeatmapOptions } from '@/types/restaurant';
+import { computeKernelDensity, blurDensityGrid, renderDensityGrid } from '@/utils/heatmap';
+
+interface HeatmapLayerProps {
+  restaurants: Restaurant[];
+  options: HeatmapOptions;
+}
+
+// Draws a client-side kernel density surface on a canvas in the map's overlay pane.
+// The surface is recomputed in screen space after every pan/zoom, so the kernel radius
+// stays constant in pixels the same way tile-based heatmaps behave.
+const HeatmapLayer: React.FC<HeatmapLayerProps> = ({ restaurants, options }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const canvas = L.DomUtil.create('canvas', 'leaflet-zoom-hide') as HTMLCanvasElement;
+    canvas.style.pointerEvents = 'none';
+    map.getPanes().overlayPane.appendChild(canvas);
+
+    const redraw = () => {
+      const size = map.getSize();
+      canvas.width = size.x;
+      canvas.height = size.y;
+      L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+
+      const points = restaurants.map(r => {
+        const point = map.latLngToContainerPoint([r.lat, r.lon]);
+        return [point.x, point.y] as [number, number];
+      });
+
+      const density = computeKernelDensity(points, size.x, size.y, options.radius);
+      renderDensityGrid(blurDensityGrid(density, options.blur), canvas, options.intensity);
+    };
+
+    redraw();
+    map.on('moveend zoomend resize', redraw);
+
+    return () => {
+      map.off('moveend zoomend resize', redraw);
+      canvas.remove();
+    };
+  }, [map, restaurants, options.radius, options.blur, options.intensity]);
+
+  return null;
+};
+
+export default HeatmapLayer;
@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeftRight, CheckCircle2, Download } from 'lucide-react';
+import { ColumnMapping, ImportIssueType, ImportResult, RawTable, Restaurant } from '@/types/restaurant';
+import {
+  ISSUE_LABELS,
+  buildIssueReport,
+  coordinateColumns,
+  setCoordinates,
+  swapCoordinates,
+  validateRow
+} from '@/utils/importValidation';
+import { downloadFile } from '@/utils/download';
+import GeocodingPanel from './GeocodingPanel';
+
+interface ImportReportProps {
+  table: RawTable;
+  mapping: ColumnMapping;
+  result: ImportResult;
+  sourceLabel: string;
+  onImport: (restaurants: Restaurant[]) => void;
+  onAbort: () => void;
+}
+
+// Only the first issues are editable inline; the downloadable report always lists all of them
+const MAX_VISIBLE_ISSUES = 100;
+
+const ImportReport: React.FC<ImportReportProps> = ({ table, mapping, result, sourceLabel, onImport, onAbort }) => {
+  // Edited copies of problem rows, keyed by row index
+  const [editedRows, setEditedRows] = useState<Record<number, Record<string, string>>>({});
+
+  const issueCounts = useMemo(() => {
+    const counts: Partial<Record<ImportIssueType, number>> = {};
+    result.issues.forEach(issue => {
+      counts[issue.type] = (counts[issue.type] ?? 0) + 1;
+    });
+    return counts;
+  }, [result]);
+
+  const fixedRestaurants = useMemo(() => {
+    const fixed = new Map<number, Restaurant>();
+    Object.entries(editedRows).forEach(([rowIndex, row]) => {
+      const { restaurant } = validateRow(row, Number(rowIndex), mapping);
+      if (restaurant) fixed.set(Number(rowIndex), restaurant);
+    });
+    return fixed;
+  }, [editedRows, mapping]);
+
+  const columns = coordinateColumns(mapping);
+
+  // Address-only rows that have not been given coordinates yet
+  const geocodingIssues = useMemo(
+    () => result.issues.filter(issue => issue.type === 'needs-geocoding' && !fixedRestaurants.has(issue.rowIndex)),
+    [result, fixedRestaurants]
+  );
+
+  const originalRow = (rowIndex: number) =>
+    editedRows[rowIndex] ?? result.issues.find(issue => issue.rowIndex === rowIndex)!.row;
+
+  const editCell = (rowIndex: number, column: string, value: string) => {
+    setEditedRows({ ...editedRows, [rowIndex]: { ...originalRow(rowIndex), [column]: value } });
+  };
+
+  const applyGeocoded = (coordinates: Record<number, { lat: number; lon: number }>) => {
+    const next = { ...editedRows };
+    Object.entries(coordinates).forEach(([rowIndex, { lat, lon }]) => {
+      next[Number(rowIndex)] = setCoordinates(originalRow(Number(rowIndex)), mapping, lat, lon);
+    });
+    setEditedRows(next);
+  };
+
+  const swapRow = (rowIndex: number, row: Record<string, string>) => {
+    setEditedRows({ ...editedRows, [rowIndex]: swapCoordinates(row, mapping) });
+  };
+
+  const handleDownload = () => {
+    const baseName = sourceLabel.replace(/\.[^.]+$/, '');
+    downloadFile(buildIssueReport(result.issues, table.fields), `${baseName}-import-issues.csv`, 'text/csv');
+  };
+
+  const handleImport = () => {
+    const restaurants = [...result.restaurants, ...fixedRestaurants.values()];
+    // Keep source order: ids are derived from the row position
+    const position = (restaurant: Restaurant) => Number(restaurant.id.replace('restaurant-', ''));
+    onImport(restaurants.sort((a, b) => position(a) - position(b)));
+  };
+
+  const importCount = result.restaurants.length + fixedRestaurants.size;
+  const skippedCount = result.issues.length - fixedRestaurants.size;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="font-semibold">Validation report</h3>
+        <p className="text-sm text-muted-foreground">
+          {result.restaurants.length} of {table.rows.length} rows in {sourceLabel} are valid.
+          Fix the rows below, skip them, or abort the import.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {Object.entries(issueCounts).map(([type, count]) => (
+          <Badge key={type} variant="outline">
+            {ISSUE_LABELS[type as ImportIssueType]}: {count}
+          </Badge>
+        ))}
+        <Button variant="ghost" size="sm" className="ml-auto" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-1" />
+          Download report
+        </Button>
+      </div>
+
+      {geocodingIssues.length > 0 && (
+        <GeocodingPanel issues={geocodingIssues} mapping={mapping} onApply={applyGeocoded} />
+      )}
+
+      <div className="rounded-md border max-h-96 overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Row</TableHead>
+              <TableHead>Issue</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Latitude</TableHead>
+              <TableHead>Longitude</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {result.issues.slice(0, MAX_VISIBLE_ISSUES).map(issue => {
+              const row = editedRows[issue.rowIndex] ?? issue.row;
+              const isFixed = fixedRestaurants.has(issue.rowIndex);
+              return (
+                <TableRow key={issue.rowIndex}>
+                  <TableCell>{issue.rowIndex + 2}</TableCell>
+                  <TableCell>
+                    <p className="font-medium whitespace-nowrap">{ISSUE_LABELS[issue.type]}</p>
+                    <p className="text-xs text-muted-foreground">{issue.message}</p>
+                  </TableCell>
+                  <TableCell className="max-w-[160px] truncate">{mapping.name ? row[mapping.name] : ''}</TableCell>
+                  <TableCell>
+                    <Input
+                      value={row[columns.lat] ?? ''}
+                      onChange={(e) => editCell(issue.rowIndex, columns.lat, e.target.value)}
+                      className="h-8 w-28"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={row[columns.lon] ?? ''}
+                      onChange={(e) => editCell(issue.rowIndex, columns.lon, e.target.value)}
+                      className="h-8 w-28"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {isFixed ? (
+                      <CheckCircle2 className="h-4 w-4 text-green-600" aria-label="Fixed" />
+                    ) : issue.type === 'swapped-coordinates' && (
+                      <Button variant="ghost" size="sm" onClick={() => swapRow(issue.rowIndex, row)}>
+                        <ArrowLeftRight className="h-4 w-4 mr-1" />
+                        Swap
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+      {result.issues.length > MAX_VISIBLE_ISSUES && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {MAX_VISIBLE_ISSUES} of {result.issues.length} issues. Download the report to see all of them.
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onAbort}>Abort import</Button>
+        <Button onClick={handleImport} disabled={importCount === 0}>
+          Import {importCount} rows{skippedCount > 0 ? `, skip ${skippedCount}` : ''}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReport;
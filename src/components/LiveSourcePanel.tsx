@@ -0,0 +1,127 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, RefreshCw, X } from 'lucide-react';
+import { Restaurant } from '@/types/restaurant';
+import { REFRESH_INTERVALS, RefreshLogEntry, summarizeDiff } from '@/utils/liveSource';
+
+interface LiveSourcePanelProps {
+  sourceDetail: string;
+  refreshMinutes: number | null;
+  onRefreshMinutesChange: (minutes: number | null) => void;
+  isFetching: boolean;
+  checkedAt: number;
+  error: Error | null;
+  onRefreshNow: () => void;
+  log: RefreshLogEntry[];
+  newVenueCount: number;
+  onClearNewVenues: () => void;
+}
+
+const OFF = 'off';
+// Names listed per kind of change before the rest are counted
+const MAX_NAMES = 8;
+
+const formatInterval = (minutes: number) => (minutes === 60 ? 'Every hour' : `Every ${minutes} min`);
+
+const listNames = (label: string, names: string[]) => names.length > 0 && (
+  <p className="text-xs text-muted-foreground">
+    <span className="font-medium text-foreground">{label}:</span> {names.slice(0, MAX_NAMES).join(', ')}
+    {names.length > MAX_NAMES && ` and ${names.length - MAX_NAMES} more`}
+  </p>
+);
+
+const cuisineLabel = (restaurant: Restaurant) => restaurant.cuisine || 'none';
+
+// Refresh settings for a dataset loaded from a URL, and what each refresh changed, newest first
+const LiveSourcePanel: React.FC<LiveSourcePanelProps> = ({
+  sourceDetail,
+  refreshMinutes,
+  onRefreshMinutesChange,
+  isFetching,
+  checkedAt,
+  error,
+  onRefreshNow,
+  log,
+  newVenueCount,
+  onClearNewVenues
+}) => (
+  <Card>
+    <CardHeader>
+      <CardTitle className="flex items-center gap-2">
+        <RefreshCw className="h-5 w-5" />
+        Live Source
+      </CardTitle>
+      <CardDescription className="truncate" title={sourceDetail}>{sourceDetail}</CardDescription>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Label>Auto-refresh</Label>
+        <Select
+          value={refreshMinutes === null ? OFF : String(refreshMinutes)}
+          onValueChange={(value) => onRefreshMinutesChange(value === OFF ? null : Number(value))}
+        >
+          <SelectTrigger className="h-8 w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={OFF}>Off</SelectItem>
+            {REFRESH_INTERVALS.map(minutes => (
+              <SelectItem key={minutes} value={String(minutes)}>{formatInterval(minutes)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={onRefreshNow} disabled={isFetching}>
+          {isFetching ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+          Refresh Now
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          {checkedAt > 0 ? `Last checked ${new Date(checkedAt).toLocaleTimeString()}` : 'Not checked yet'}
+        </span>
+        {newVenueCount > 0 && (
+          <Badge variant="secondary" className="flex items-center gap-1">
+            {newVenueCount} new venues highlighted
+            <button onClick={onClearNewVenues} aria-label="Clear new venue highlights">
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Each refresh takes the source's values. Names, cuisines, zones and positions edited here, and
+        restaurants added or deleted here, are kept; other changes made here are overwritten.
+      </p>
+
+      {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+      {log.length > 0 && (
+        <ol className="max-h-64 space-y-3 overflow-y-auto border-t pt-3">
+          {log.map(entry => (
+            <li key={entry.at} className="space-y-1">
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="text-sm font-medium">{summarizeDiff(entry.diff)}</span>
+                <span className="shrink-0 text-xs text-muted-foreground">{new Date(entry.at).toLocaleTimeString()}</span>
+              </div>
+              {listNames('Added', entry.diff.added.map(restaurant => restaurant.name))}
+              {listNames('Removed', entry.diff.removed.map(restaurant => restaurant.name))}
+              {listNames('Moved', entry.diff.moved.map(move => `${move.restaurant.name} (${Math.round(move.distanceMeters)} m)`))}
+              {listNames('Re-categorized', entry.diff.recategorized.map(({ restaurant, previous }) =>
+                `${restaurant.name} (${cuisineLabel(previous)} → ${cuisineLabel(restaurant)})`))}
+              {entry.ungeocoded > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {entry.ungeocoded} address-only rows could not be placed
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </CardContent>
+  </Card>
+);
+
+export default LiveSourcePanel;
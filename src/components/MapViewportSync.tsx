@@ -0,0 +1,35 @@
+import React, { useEffect } from 'react';
+import { useMap, useMapEvents } from 'react-leaflet';
+import { MapViewport } from '@/types/restaurant';
+import { formatViewport } from '@/utils/urlState';
+
+interface MapViewportSyncProps {
+  viewport: MapViewport | null;
+  onChange: (viewport: MapViewport) => void;
+}
+
+// Keeps the map and an external viewport in step: pans and zooms are reported, and a changed
+// viewport (back/forward, an opened link) moves the map. Rounded comparison stops the two feeding back.
+const MapViewportSync: React.FC<MapViewportSyncProps> = ({ viewport, onChange }) => {
+  const map = useMap();
+
+  useMapEvents({
+    moveend: () => {
+      const center = map.getCenter();
+      onChange({ center: [center.lat, center.lng], zoom: map.getZoom() });
+    }
+  });
+
+  useEffect(() => {
+    if (!viewport) return;
+    const center = map.getCenter();
+    const current = formatViewport({ center: [center.lat, center.lng], zoom: map.getZoom() });
+    if (current !== formatViewport(viewport)) {
+      map.setView(viewport.center, viewport.zoom, { animate: false });
+    }
+  }, [map, viewport]);
+
+  return null;
+};
+
+export default MapViewportSync;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { CircleMarker, Tooltip } from 'react-leaflet';
+import { Restaurant } from '@/types/restaurant';
+
+interface NewVenueLayerProps {
+  restaurants: Restaurant[];
+}
+
+// Rings around venues that appeared in the latest refresh of a live source
+const NewVenueLayer: React.FC<NewVenueLayerProps> = ({ restaurants }) => (
+  <>
+    {restaurants.map(restaurant => (
+      <CircleMarker
+        key={restaurant.id}
+        center={[restaurant.lat, restaurant.lon]}
+        radius={12}
+        pathOptions={{ color: '#16a34a', weight: 3, dashArray: '4 3', fillColor: '#16a34a', fillOpacity: 0.2 }}
+      >
+        <Tooltip direction="top">New: {restaurant.name}</Tooltip>
+      </CircleMarker>
+    ))}
+  </>
+);
+
+export default NewVenueLayer;
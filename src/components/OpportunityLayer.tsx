@@ -0,0 +1,53 @@
+import React from 'react';
+import { Marker, Polygon, Popup, Tooltip } from 'react-leaflet';
+import { OpportunityResult } from '@/utils/opportunities';
+import { getRankIcon } from '@/utils/mapIcons';
+
+interface OpportunityLayerProps {
+  opportunities: OpportunityResult;
+}
+
+const OPPORTUNITY_COLOR = '#15803d';
+
+// Ranked whitespace areas, more opaque the higher they score, with the score breakdown on click
+const OpportunityLayer: React.FC<OpportunityLayerProps> = ({ opportunities }) => {
+  return (
+    <>
+      {opportunities.areas.map(area => (
+        <React.Fragment key={area.id}>
+          <Polygon
+            positions={area.polygons}
+            pathOptions={{
+              color: OPPORTUNITY_COLOR,
+              weight: 2,
+              dashArray: '6 4',
+              fillColor: OPPORTUNITY_COLOR,
+              fillOpacity: 0.1 + 0.4 * area.score
+            }}
+          >
+            <Tooltip sticky>
+              #{area.rank} {area.label}: score {Math.round(area.score * 100)}
+            </Tooltip>
+          </Polygon>
+          <Marker position={area.center} icon={getRankIcon(area.rank)}>
+            <Popup>
+              <div className="space-y-1 text-sm">
+                <p className="font-semibold">#{area.rank} {area.label}</p>
+                <p>Opportunity score: {Math.round(area.score * 100)}</p>
+                <p>
+                  Demand {Math.round(area.demandScore * 100)}% · {area.density.toFixed(1)} restaurants per km²
+                </p>
+                <p>
+                  Gap {Math.round(area.gapScore * 100)}% · {area.cuisineCount} {opportunities.cuisine} of{' '}
+                  {area.restaurantCount}, {area.expectedCount.toFixed(1)} expected
+                </p>
+              </div>
+            </Popup>
+          </Marker>
+        </React.Fragment>
+      ))}
+    </>
+  );
+};
+
+export default OpportunityLayer;
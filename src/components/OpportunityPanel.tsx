@@ -0,0 +1,141 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { OpportunityOptions, OpportunityUnit } from '@/types/restaurant';
+import {
+  MAX_CELL_SIZE_METERS,
+  MIN_AREA_RESTAURANTS,
+  MIN_CELL_SIZE_METERS,
+  OPPORTUNITY_UNIT_LABELS,
+  OpportunityResult
+} from '@/utils/opportunities';
+import { ViewStateUpdateOptions } from '@/hooks/use-dashboard-url-state';
+
+interface OpportunityPanelProps {
+  options: OpportunityOptions;
+  onOptionsChange: (options: OpportunityOptions, updateOptions?: ViewStateUpdateOptions) => void;
+  result: OpportunityResult | null;
+  cuisines: string[];
+  hasZones: boolean;
+  analysedCount: number;
+  // Map showing the ranked areas, laid out beside the list
+  map: React.ReactNode;
+}
+
+const UNITS = Object.keys(OPPORTUNITY_UNIT_LABELS) as OpportunityUnit[];
+
+const formatCellSize = (meters: number) => (meters >= 1000 ? `${meters / 1000} km` : `${meters} m`);
+
+// Controls and ranked list for the cuisine whitespace analysis
+const OpportunityPanel: React.FC<OpportunityPanelProps> = ({
+  options,
+  onOptionsChange,
+  result,
+  cuisines,
+  hasZones,
+  analysedCount,
+  map
+}) => {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>Cuisine</Label>
+          <Select value={options.cuisine ?? undefined} onValueChange={(cuisine) => onOptionsChange({ ...options, cuisine })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a cuisine" />
+            </SelectTrigger>
+            <SelectContent>
+              {cuisines.map(cuisine => (
+                <SelectItem key={cuisine} value={cuisine}>{cuisine}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Areas</Label>
+          <Select
+            value={options.unit}
+            onValueChange={(unit) => onOptionsChange({ ...options, unit: unit as OpportunityUnit })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {UNITS.map(unit => (
+                <SelectItem key={unit} value={unit} disabled={unit === 'zone' && !hasZones}>
+                  {OPPORTUNITY_UNIT_LABELS[unit]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {options.unit === 'grid' && (
+          <div className="space-y-2">
+            <Label>Cell size: {formatCellSize(options.cellSizeMeters)}</Label>
+            <Slider
+              min={MIN_CELL_SIZE_METERS}
+              max={MAX_CELL_SIZE_METERS}
+              step={250}
+              value={[options.cellSizeMeters]}
+              onValueChange={([cellSizeMeters]) => onOptionsChange({ ...options, cellSizeMeters }, { replace: true })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-2">{map}</div>
+        <div className="space-y-3">
+          {!result ? (
+            <p className="text-sm text-muted-foreground">
+              Choose a cuisine to rank the areas that are busy with restaurants but short of it.
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {result.cuisine} is {(result.cuisineShare * 100).toFixed(0)}% of the {analysedCount} restaurants
+                analysed; {result.consideredCount} areas with at least {MIN_AREA_RESTAURANTS} restaurants were scored.
+              </p>
+              {result.areas.length === 0 && (
+                <p className="text-sm">No scored area has fewer {result.cuisine} restaurants than expected.</p>
+              )}
+              <div className="max-h-[520px] overflow-y-auto space-y-3 pr-1">
+                {result.areas.map(area => (
+                  <div key={area.id} className="rounded-md border p-3 space-y-2">
+                    <div className="flex items-start gap-2">
+                      <Badge className="bg-green-700 hover:bg-green-700">{area.rank}</Badge>
+                      <p className="text-sm font-medium flex-1">{area.label}</p>
+                      <span className="text-sm font-semibold">{Math.round(area.score * 100)}</span>
+                    </div>
+                    <div className="space-y-1">
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>Demand</span>
+                        <span>{area.density.toFixed(1)} per km²</span>
+                      </div>
+                      <Progress value={area.demandScore * 100} className="h-1.5" />
+                    </div>
+                    <div className="space-y-1">
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>Gap</span>
+                        <span>
+                          {area.cuisineCount} of {area.restaurantCount}, {area.expectedCount.toFixed(1)} expected
+                        </span>
+                      </div>
+                      <Progress value={area.gapScore * 100} className="h-1.5" />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OpportunityPanel;
@@ -0,0 +1,96 @@
+import React from 'react';
+import {
+  AttributeDefinition,
+  ClusterHull,
+  ClusteringResult,
+  HeatmapOptions,
+  MapViewport,
+  MarkerEncoding,
+  Restaurant,
+  TradeArea,
+  ZoneBoundarySet
+} from '@/types/restaurant';
+import { ChoroplethResult } from '@/utils/choropleth';
+import RestaurantMap from './RestaurantMap';
+import AnalyticsCharts from './AnalyticsCharts';
+
+interface ReportSnapshotProps {
+  restaurants: Restaurant[];
+  filteredRestaurants: Restaurant[];
+  clustering: ClusteringResult;
+  hulls: ClusterHull[];
+  showHeatmap: boolean;
+  heatmapOptions: HeatmapOptions;
+  aggregateMarkers: boolean;
+  areas: TradeArea[];
+  attributes: AttributeDefinition[];
+  markerEncoding: MarkerEncoding;
+  viewport: MapViewport | null;
+  zones: ZoneBoundarySet | null;
+  zoneAreas: Record<string, number> | null;
+  choropleth: ChoroplethResult | null;
+}
+
+// The dashboard views that go into the PDF report, rendered at a fixed width for capture.
+// Every element with data-report-section becomes one titled section of the report.
+const ReportSnapshot: React.FC<ReportSnapshotProps> = ({
+  restaurants,
+  filteredRestaurants,
+  clustering,
+  hulls,
+  showHeatmap,
+  heatmapOptions,
+  aggregateMarkers,
+  areas,
+  attributes,
+  markerEncoding,
+  viewport,
+  zones,
+  zoneAreas,
+  choropleth
+}) => {
+  return (
+    <div className="space-y-6">
+      <div data-report-section="Restaurant Map">
+        <RestaurantMap
+          restaurants={restaurants}
+          clusters={clustering.clusters}
+          showClusters={false}
+          showHeatmap={showHeatmap}
+          filteredRestaurants={filteredRestaurants}
+          heatmapOptions={heatmapOptions}
+          aggregateMarkers={aggregateMarkers}
+          areas={areas}
+          attributes={attributes}
+          markerEncoding={markerEncoding}
+          viewport={viewport}
+          zones={zones}
+          choropleth={choropleth}
+        />
+      </div>
+
+      <div data-report-section="Clusters">
+        <RestaurantMap
+          restaurants={restaurants}
+          clusters={clustering.clusters}
+          showClusters={true}
+          showHeatmap={false}
+          filteredRestaurants={filteredRestaurants}
+          noise={clustering.noise}
+          hulls={hulls}
+        />
+      </div>
+
+      <div data-report-section="Charts">
+        <AnalyticsCharts
+          restaurants={restaurants}
+          filteredRestaurants={filteredRestaurants}
+          attributes={attributes}
+          zoneAreas={zoneAreas}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ReportSnapshot;
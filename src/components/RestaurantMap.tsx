@@ -1,8 +1,47 @@
-import React from 'react';
-import { MapContainer, TileLayer, Marker, Popup, CircleMarker } from 'react-leaflet';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, Polygon } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { Restaurant, ClusterData } from '@/types/restaurant';
+import { Square, Circle, Pentagon, MapPinPlus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Restaurant,
+  ClusterData,
+  ClusterHull,
+  HeatmapOptions,
+  AreaShape,
+  TradeArea,
+  AttributeDefinition,
+  MarkerEncoding,
+  MapViewport,
+  ZoneBoundarySet
+} from '@/types/restaurant';
+import { DEFAULT_HEATMAP_OPTIONS, getHeatmapLegendGradient } from '@/utils/heatmap';
+import { NOISE_COLOR, NOISE_CLUSTER_ID, getTopCuisines } from '@/utils/clustering';
+import { createSpatialIndex } from '@/utils/spatialIndex';
+import { createMarkerStyler, isEncodingActive, DEFAULT_MARKER_ENCODING } from '@/utils/markerEncoding';
+import { formatAttributeKey } from '@/utils/attributes';
+import {
+  CLASSIFICATION_LABELS,
+  NO_DATA_COLOR,
+  ChoroplethResult,
+  describeMetric,
+  formatMetricValue
+} from '@/utils/choropleth';
+import { OpportunityResult } from '@/utils/opportunities';
+import HeatmapLayer from './HeatmapLayer';
+import RestaurantMarkers from './RestaurantMarkers';
+import CanvasPointLayer, { CanvasPoint } from './CanvasPointLayer';
+import RestaurantPopup from './RestaurantPopup';
+import AreaDrawingLayer, { DrawMode } from './AreaDrawingLayer';
+import TradeAreaLayer from './TradeAreaLayer';
+import ZoneBoundaryLayer from './ZoneBoundaryLayer';
+import OpportunityLayer from './OpportunityLayer';
+import SelectedRestaurantLayer from './SelectedRestaurantLayer';
+import RestaurantPlacementLayer from './RestaurantPlacementLayer';
+import NewVenueLayer from './NewVenueLayer';
+import ChoroplethLayer from './ChoroplethLayer';
+import MapViewportSync from './MapViewportSync';
 
 // More robust fix for default markers in react-leaflet
 if ((L.Icon.Default.prototype as any)._getIconUrl) {
@@ -21,74 +60,168 @@ interface RestaurantMapProps {
   showClusters: boolean;
   showHeatmap: boolean;
   filteredRestaurants?: Restaurant[];
+  heatmapOptions?: HeatmapOptions;
+  noise?: Restaurant[];
+  hulls?: ClusterHull[];
+  aggregateMarkers?: boolean;
+  areas?: TradeArea[];
+  onAreaDrawn?: (shape: AreaShape) => void;
+  attributes?: AttributeDefinition[];
+  markerEncoding?: MarkerEncoding;
+  // Controlled center and zoom; without it the map opens on the data and is left alone
+  viewport?: MapViewport | null;
+  onViewportChange?: (viewport: MapViewport) => void;
+  zones?: ZoneBoundarySet | null;
+  choropleth?: ChoroplethResult | null;
+  opportunities?: OpportunityResult | null;
+  // Highlighted restaurant, and the callback for restaurants picked on the map
+  selectedRestaurant?: Restaurant | null;
+  onRestaurantSelect?: (restaurant: Restaurant) => void;
+  // Editing: dragging the selected restaurant's pin, and placing new restaurants by clicking
+  onRestaurantMove?: (restaurant: Restaurant, position: [number, number]) => void;
+  onRestaurantAdd?: (position: [number, number]) => void;
+  // Venues that appeared in the latest refresh of a live source
+  newVenues?: Restaurant[];
 }
 
+const formatLegendValue = (value: number, isDate: boolean) =>
+  isDate ? new Date(value).toISOString().slice(0, 10) : value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+
 const RestaurantMap: React.FC<RestaurantMapProps> = ({ 
   restaurants, 
   clusters, 
   showClusters, 
   showHeatmap,
-  filteredRestaurants = restaurants 
+  filteredRestaurants = restaurants,
+  heatmapOptions = DEFAULT_HEATMAP_OPTIONS,
+  noise = [],
+  hulls = [],
+  aggregateMarkers = true,
+  areas = [],
+  onAreaDrawn,
+  attributes = [],
+  markerEncoding = DEFAULT_MARKER_ENCODING,
+  viewport = null,
+  onViewportChange,
+  zones = null,
+  choropleth = null,
+  opportunities = null,
+  selectedRestaurant = null,
+  onRestaurantSelect,
+  onRestaurantMove,
+  onRestaurantAdd,
+  newVenues = []
 }) => {
-  
+  const [selectedMember, setSelectedMember] = useState<Restaurant | null>(null);
+  // Restaurant last picked on this map, so selecting it does not fly the map
+  const [pickedId, setPickedId] = useState<string | null>(null);
+  const [drawMode, setDrawMode] = useState<DrawMode | null>(null);
+  const [isPlacing, setIsPlacing] = useState(false);
+  const spatialIndex = useMemo(() => createSpatialIndex(filteredRestaurants), [filteredRestaurants]);
+  const markerStyler = useMemo(
+    () => (isEncodingActive(markerEncoding) ? createMarkerStyler(restaurants, markerEncoding, attributes) : null),
+    [restaurants, markerEncoding, attributes]
+  );
 
-  // Calculate map center and bounds
-  const getMapBounds = () => {
-    if (filteredRestaurants.length === 0) {
-      return { center: [40.7589, -73.9851] as [number, number], zoom: 10 };
+  // Calculate map center and bounds; the map opens fitted to the data unless it is all one spot
+  const getMapBounds = (): { center: [number, number]; bounds?: L.LatLngBoundsExpression } => {
+    const extent = spatialIndex.bounds;
+    if (!extent) {
+      return { center: [40.7589, -73.9851] };
     }
 
-    const lats = filteredRestaurants.map(r => r.lat);
-    const lons = filteredRestaurants.map(r => r.lon);
-    
-    const bounds = [
-      [Math.min(...lats), Math.min(...lons)] as [number, number],
-      [Math.max(...lats), Math.max(...lons)] as [number, number]
-    ];
-
     const center = [
-      (Math.min(...lats) + Math.max(...lats)) / 2,
-      (Math.min(...lons) + Math.max(...lons)) / 2
+      (extent.minLat + extent.maxLat) / 2,
+      (extent.minLon + extent.maxLon) / 2
     ] as [number, number];
 
+    if (extent.minLat === extent.maxLat && extent.minLon === extent.maxLon) {
+      return { center };
+    }
+
+    const bounds: L.LatLngBoundsExpression = [
+      [extent.minLat, extent.minLon],
+      [extent.maxLat, extent.maxLon]
+    ];
+
     return { center, bounds };
   };
 
   const { center, bounds } = getMapBounds();
 
-  // Create custom icons for different cuisines
-  const getCuisineIcon = (cuisine?: string) => {
-    const colors: { [key: string]: string } = {
-      'Italian': '#e91e63',
-      'Japanese': '#9c27b0',
-      'French': '#3f51b5',
-      'Indian': '#00bcd4',
-      'American': '#4caf50',
-      'Chinese': '#ff9800',
-      'Mexican': '#f44336',
-      'Mediterranean': '#795548',
-      'Vegetarian': '#8bc34a',
-      'Seafood': '#00acc1',
-      'Unknown': '#9e9e9e'
-    };
-
-    const color = colors[cuisine || 'Unknown'] || colors['Unknown'];
-    
-    return L.divIcon({
-      className: 'custom-marker',
-      html: `<div style="
-        background-color: ${color};
-        width: 20px;
-        height: 20px;
-        border-radius: 50%;
-        border: 2px solid white;
-        box-shadow: 0 2px 4px rgba(0,0,0,0.3);
-      "></div>`,
-      iconSize: [20, 20],
-      iconAnchor: [10, 10],
-      popupAnchor: [0, -10]
-    });
-  };
+  // Cluster members and noise share one canvas layer; popups open on click only
+  const clusterPoints: CanvasPoint[] = useMemo(() => {
+    if (!showClusters) return [];
+
+    const members = clusters.flatMap(cluster =>
+      cluster.restaurants.map(restaurant => ({
+        restaurant,
+        style: {
+          radius: 6,
+          fillColor: cluster.color,
+          color: 'white',
+          weight: 2,
+          opacity: 1,
+          fillOpacity: 0.8
+        }
+      }))
+    );
+    const noisePoints = noise.map(restaurant => ({
+      restaurant,
+      style: {
+        radius: 4,
+        fillColor: NOISE_COLOR,
+        color: NOISE_COLOR,
+        weight: 1,
+        dashArray: '2 2',
+        opacity: 0.9,
+        fillOpacity: 0.2
+      }
+    }));
+
+    return [...members, ...noisePoints];
+  }, [showClusters, clusters, noise]);
+
+  const selectedCluster = selectedMember && clusters.find(c => c.id === selectedMember.cluster);
+
+  const handleMemberSelect = useCallback((restaurant: Restaurant) => setSelectedMember(restaurant), []);
+
+  // A selection made elsewhere clears the pick, so picking the same restaurant later flies again
+  useEffect(() => {
+    if (selectedRestaurant?.id !== pickedId) setPickedId(null);
+  }, [selectedRestaurant?.id, pickedId]);
+
+  const handleMarkerSelect = useCallback((restaurant: Restaurant) => {
+    setPickedId(restaurant.id);
+    onRestaurantSelect?.(restaurant);
+  }, [onRestaurantSelect]);
+
+  const handleDrawComplete = useCallback((shape: AreaShape) => {
+    setDrawMode(null);
+    onAreaDrawn?.(shape);
+  }, [onAreaDrawn]);
+
+  const handleDrawCancel = useCallback(() => setDrawMode(null), []);
+
+  // A moved pin is already where the user dropped it, so the map does not fly to it
+  const handleSelectedMove = useCallback((position: [number, number]) => {
+    if (!selectedRestaurant) return;
+    setPickedId(selectedRestaurant.id);
+    onRestaurantMove?.(selectedRestaurant, position);
+  }, [selectedRestaurant, onRestaurantMove]);
+
+  const handlePlace = useCallback((position: [number, number]) => {
+    setIsPlacing(false);
+    onRestaurantAdd?.(position);
+  }, [onRestaurantAdd]);
+
+  const handlePlaceCancel = useCallback(() => setIsPlacing(false), []);
+
+  const drawTools: { mode: DrawMode; label: string; icon: React.ElementType }[] = [
+    { mode: 'rectangle', label: 'Rectangle', icon: Square },
+    { mode: 'circle', label: 'Radius', icon: Circle },
+    { mode: 'polygon', label: 'Polygon', icon: Pentagon }
+  ];
 
   // Create cluster center icons
   const getClusterIcon = (cluster: ClusterData) => {
@@ -116,50 +249,79 @@ const RestaurantMap: React.FC<RestaurantMapProps> = ({
 
 
   return (
-    <div className="h-[600px] w-full rounded-lg overflow-hidden shadow-lg">
+    <div className="relative h-[600px] w-full rounded-lg overflow-hidden shadow-lg">
       <MapContainer
-        center={center}
-        zoom={10}
+        center={viewport?.center ?? center}
+        zoom={viewport?.zoom ?? 10}
+        bounds={viewport ? undefined : bounds}
         className="h-full w-full"
       >
+        {onViewportChange && <MapViewportSync viewport={viewport} onChange={onViewportChange} />}
+
         <TileLayer
           attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
           url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
         />
+
+        {/* Zones shaded by a metric, or just the uploaded boundary outlines */}
+        {choropleth ? (
+          <ChoroplethLayer choropleth={choropleth} />
+        ) : zones && (
+          <ZoneBoundaryLayer zones={zones} />
+        )}
+
+        {/* Applied trade areas */}
+        <TradeAreaLayer areas={areas} />
+
+        {/* Ranked whitespace areas for a cuisine */}
+        {opportunities && <OpportunityLayer opportunities={opportunities} />}
+
+        {isPlacing && <RestaurantPlacementLayer onPlace={handlePlace} onCancel={handlePlaceCancel} />}
+
+        {drawMode && (
+          <AreaDrawingLayer mode={drawMode} onComplete={handleDrawComplete} onCancel={handleDrawCancel} />
+        )}
+
+        {/* Density surface */}
+        {showHeatmap && (
+          <HeatmapLayer restaurants={filteredRestaurants} options={heatmapOptions} />
+        )}
         
         {/* Restaurant markers */}
-        {!showClusters && filteredRestaurants.map((restaurant) => (
-          <Marker
-            key={`restaurant-${restaurant.id}`}
-            position={[restaurant.lat, restaurant.lon]}
-            icon={getCuisineIcon(restaurant.cuisine)}
-          >
-            <Popup>
-              <div className="p-2">
-                <h3 className="font-semibold text-lg">{restaurant.name}</h3>
-                <p className="text-sm text-gray-600">
-                  <strong>Cuisine:</strong> {restaurant.cuisine || 'Unknown'}
-                </p>
-                {restaurant.zone && (
-                  <p className="text-sm text-gray-600">
-                    <strong>Zone:</strong> {restaurant.zone}
-                  </p>
-                )}
-                <p className="text-xs text-gray-500 mt-1">
-                  {restaurant.lat.toFixed(4)}, {restaurant.lon.toFixed(4)}
-                </p>
-              </div>
-            </Popup>
-          </Marker>
-        ))}
+        {!showClusters && (
+          <RestaurantMarkers
+            spatialIndex={spatialIndex}
+            aggregate={aggregateMarkers}
+            markerStyle={markerStyler?.style}
+            onSelect={handleMarkerSelect}
+          />
+        )}
 
-        {/* Cluster visualization */}
-        {showClusters && clusters.map((cluster) => (
-          <React.Fragment key={`cluster-${cluster.id}`}>
-            {/* Cluster center */}
-            <Marker
-              position={cluster.center}
-              icon={getClusterIcon(cluster)}
+        {newVenues.length > 0 && <NewVenueLayer restaurants={newVenues} />}
+
+        {selectedRestaurant && (
+          <SelectedRestaurantLayer
+            restaurant={selectedRestaurant}
+            fly={selectedRestaurant.id !== pickedId}
+            onMove={onRestaurantMove && handleSelectedMove}
+          />
+        )}
+
+        {/* Cluster hulls / service areas */}
+        {showClusters && hulls.map((hull) => {
+          const cluster = clusters.find(c => c.id === hull.clusterId);
+          if (!cluster) return null;
+
+          return (
+            <Polygon
+              key={`cluster-hull-${hull.clusterId}`}
+              positions={hull.ring}
+              pathOptions={{
+                color: cluster.color,
+                weight: 2,
+                fillColor: cluster.color,
+                fillOpacity: 0.15
+              }}
             >
               <Popup>
                 <div className="p-2">
@@ -167,59 +329,214 @@ const RestaurantMap: React.FC<RestaurantMapProps> = ({
                   <p className="text-sm text-gray-600">
                     <strong>Restaurants:</strong> {cluster.restaurants.length}
                   </p>
+                  <p className="text-sm text-gray-600">
+                    <strong>Area:</strong> {hull.areaKm2.toFixed(2)} km²
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    <strong>Density:</strong> {(cluster.restaurants.length / hull.areaKm2).toFixed(1)} per km²
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    <strong>Top Cuisines:</strong>{' '}
+                    {getTopCuisines(cluster.restaurants).map(([cuisine, count]) => `${cuisine} (${count})`).join(', ')}
+                  </p>
                   <p className="text-xs text-gray-500 mt-1">
                     Center: {cluster.center[0].toFixed(4)}, {cluster.center[1].toFixed(4)}
                   </p>
-                  <div className="mt-2">
-                    <strong className="text-sm">Restaurants in cluster:</strong>
-                    <ul className="text-xs mt-1 max-h-20 overflow-y-auto">
-                      {cluster.restaurants.slice(0, 5).map((restaurant) => (
-                        <li key={restaurant.id}>{restaurant.name}</li>
-                      ))}
-                      {cluster.restaurants.length > 5 && (
-                        <li className="text-gray-500">...and {cluster.restaurants.length - 5} more</li>
-                      )}
-                    </ul>
-                  </div>
                 </div>
               </Popup>
-            </Marker>
-            
-            {/* Cluster members */}
-            {cluster.restaurants.map((restaurant) => (
-              <CircleMarker
-                key={`cluster-restaurant-${restaurant.id}`}
-                center={[restaurant.lat, restaurant.lon]}
-                radius={6}
-                pathOptions={{
-                  fillColor: cluster.color,
-                  color: 'white',
-                  weight: 2,
-                  opacity: 1,
-                  fillOpacity: 0.8
-                }}
-              >
-                <Popup>
-                  <div className="p-2">
-                    <h3 className="font-semibold text-lg">{restaurant.name}</h3>
-                    <p className="text-sm text-gray-600">
-                      <strong>Cuisine:</strong> {restaurant.cuisine || 'Unknown'}
-                    </p>
-                    <p className="text-sm" style={{ color: cluster.color }}>
-                      <strong>Cluster:</strong> {cluster.id + 1}
-                    </p>
-                    {restaurant.zone && (
-                      <p className="text-sm text-gray-600">
-                        <strong>Zone:</strong> {restaurant.zone}
-                      </p>
+            </Polygon>
+          );
+        })}
+
+        {/* Cluster centers */}
+        {showClusters && clusters.map((cluster) => (
+          <Marker
+            key={`cluster-${cluster.id}`}
+            position={cluster.center}
+            icon={getClusterIcon(cluster)}
+          >
+            <Popup>
+              <div className="p-2">
+                <h3 className="font-semibold text-lg">Cluster {cluster.id + 1}</h3>
+                <p className="text-sm text-gray-600">
+                  <strong>Restaurants:</strong> {cluster.restaurants.length}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  Center: {cluster.center[0].toFixed(4)}, {cluster.center[1].toFixed(4)}
+                </p>
+                <div className="mt-2">
+                  <strong className="text-sm">Restaurants in cluster:</strong>
+                  <ul className="text-xs mt-1 max-h-20 overflow-y-auto">
+                    {cluster.restaurants.slice(0, 5).map((restaurant) => (
+                      <li key={restaurant.id}>{restaurant.name}</li>
+                    ))}
+                    {cluster.restaurants.length > 5 && (
+                      <li className="text-gray-500">...and {cluster.restaurants.length - 5} more</li>
                     )}
-                  </div>
-                </Popup>
-              </CircleMarker>
-            ))}
-          </React.Fragment>
+                  </ul>
+                </div>
+              </div>
+            </Popup>
+          </Marker>
         ))}
+
+        {/* Cluster members and noise points */}
+        {showClusters && (
+          <CanvasPointLayer points={clusterPoints} onSelect={handleMemberSelect} />
+        )}
+
+        {showClusters && selectedMember && (
+          <Popup
+            position={[selectedMember.lat, selectedMember.lon]}
+            eventHandlers={{ remove: () => setSelectedMember(null) }}
+          >
+            <RestaurantPopup
+              restaurant={selectedMember}
+              clusterLabel={selectedMember.cluster === NOISE_CLUSTER_ID ? 'Noise' : String(selectedMember.cluster + 1)}
+              clusterColor={selectedCluster ? selectedCluster.color : NOISE_COLOR}
+            />
+          </Popup>
+        )}
       </MapContainer>
+
+      {/* Add-restaurant toolbar */}
+      {onRestaurantAdd && (
+        <div className="absolute top-4 right-4 z-[1000] flex flex-col gap-1 rounded-md bg-background/90 p-2 shadow-lg">
+          <Button
+            size="sm"
+            variant={isPlacing ? 'default' : 'ghost'}
+            className="justify-start gap-2"
+            onClick={() => setIsPlacing(!isPlacing)}
+          >
+            <MapPinPlus className="h-4 w-4" />
+            Add Restaurant
+          </Button>
+          {isPlacing && (
+            <>
+              <p className="max-w-[10rem] px-1 text-xs text-muted-foreground">Click the map where the restaurant is</p>
+              <Button size="sm" variant="outline" className="justify-start gap-2" onClick={handlePlaceCancel}>
+                <X className="h-4 w-4" />
+                Cancel
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Draw-to-filter toolbar */}
+      {onAreaDrawn && (
+        <div className="absolute top-4 right-4 z-[1000] flex flex-col gap-1 rounded-md bg-background/90 p-2 shadow-lg">
+          {drawTools.map(({ mode, label, icon: Icon }) => (
+            <Button
+              key={mode}
+              size="sm"
+              variant={drawMode === mode ? 'default' : 'ghost'}
+              className="justify-start gap-2"
+              onClick={() => setDrawMode(drawMode === mode ? null : mode)}
+            >
+              <Icon className="h-4 w-4" />
+              {label}
+            </Button>
+          ))}
+          {drawMode && (
+            <>
+              <p className="max-w-[10rem] px-1 text-xs text-muted-foreground">
+                {drawMode === 'polygon'
+                  ? 'Click to add vertices, double-click to finish'
+                  : 'Click twice on the map to draw'}
+              </p>
+              <Button size="sm" variant="outline" className="justify-start gap-2" onClick={handleDrawCancel}>
+                <X className="h-4 w-4" />
+                Cancel
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Marker color and size legend */}
+      {markerStyler && !showClusters && (markerStyler.colorLegend || markerStyler.sizeLegend) && (
+        <div className="absolute bottom-4 right-4 z-[1000] max-w-[14rem] space-y-3 rounded-md bg-background/90 p-3 shadow-lg">
+          {markerStyler.colorLegend?.type === 'category' && (
+            <div>
+              <p className="text-xs font-semibold mb-1">Color: {formatAttributeKey(markerStyler.colorLegend.key)}</p>
+              {markerStyler.colorLegend.entries.map(entry => (
+                <div key={entry.label} className="flex items-center gap-2 text-xs">
+                  <span className="h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: entry.color }} />
+                  <span className="truncate">{entry.label}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {markerStyler.colorLegend?.type === 'scale' && (
+            <div>
+              <p className="text-xs font-semibold mb-1">Color: {formatAttributeKey(markerStyler.colorLegend.key)}</p>
+              <div className="h-3 w-40 rounded" style={{ background: markerStyler.colorLegend.gradient }} />
+              <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                <span>{formatLegendValue(markerStyler.colorLegend.min, markerStyler.colorLegend.isDate)}</span>
+                <span>{formatLegendValue(markerStyler.colorLegend.max, markerStyler.colorLegend.isDate)}</span>
+              </div>
+            </div>
+          )}
+          {markerStyler.sizeLegend && (
+            <div>
+              <p className="text-xs font-semibold mb-1">Size: {formatAttributeKey(markerStyler.sizeLegend.key)}</p>
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  <span className="h-1.5 w-1.5 rounded-full bg-muted-foreground" />
+                  {formatLegendValue(markerStyler.sizeLegend.min, markerStyler.sizeLegend.isDate)}
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="h-5 w-5 rounded-full bg-muted-foreground" />
+                  {formatLegendValue(markerStyler.sizeLegend.max, markerStyler.sizeLegend.isDate)}
+                </span>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Choropleth and heatmap legends */}
+      {(choropleth || showHeatmap) && (
+        <div className="absolute bottom-4 left-4 z-[1000] space-y-2">
+          {choropleth && (
+            <div className="max-w-[16rem] rounded-md bg-background/90 p-3 shadow-lg">
+              <p className="text-xs font-semibold">{describeMetric(choropleth.metric, formatAttributeKey)}</p>
+              <p className="text-xs text-muted-foreground mb-2">
+                {CLASSIFICATION_LABELS[choropleth.method]} · {choropleth.fromBoundaries ? 'zone boundaries' : 'zone hulls'}
+              </p>
+              {choropleth.classes.map(entry => (
+                <div key={entry.color} className="flex items-center gap-2 text-xs">
+                  <span className="h-3 w-5 shrink-0 rounded-sm border" style={{ backgroundColor: entry.color }} />
+                  <span>
+                    {formatMetricValue(choropleth.metric, entry.min)} – {formatMetricValue(choropleth.metric, entry.max)}
+                  </span>
+                  <span className="ml-auto text-muted-foreground">{entry.zoneCount}</span>
+                </div>
+              ))}
+              {choropleth.zones.some(zone => zone.value === null) && (
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="h-3 w-5 shrink-0 rounded-sm border" style={{ backgroundColor: NO_DATA_COLOR }} />
+                  <span>No data</span>
+                </div>
+              )}
+            </div>
+          )}
+          {showHeatmap && (
+            <div className="rounded-md bg-background/90 p-3 shadow-lg">
+              <p className="text-xs font-semibold mb-2">Restaurant Density</p>
+              <div
+                className="h-3 w-40 rounded"
+                style={{ background: getHeatmapLegendGradient() }}
+              />
+              <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                <span>Low</span>
+                <span>High</span>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
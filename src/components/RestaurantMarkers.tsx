@@ -0,0 +1,166 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { Marker, Popup, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { Restaurant, BoundingBox, MarkerAggregate } from '@/types/restaurant';
+import { SpatialIndex } from '@/utils/spatialIndex';
+import { aggregateMarkers, AGGREGATION_MAX_ZOOM } from '@/utils/markerAggregation';
+import { getCuisineColor, getCuisineIcon, getAggregateIcon } from '@/utils/mapIcons';
+import { MarkerStyle } from '@/utils/markerEncoding';
+import CanvasPointLayer, { CanvasPoint } from './CanvasPointLayer';
+import RestaurantPopup from './RestaurantPopup';
+
+// Above this many individual markers in view, points are drawn on canvas instead of as DOM markers
+export const DOM_MARKER_LIMIT = 500;
+
+interface RestaurantMarkersProps {
+  spatialIndex: SpatialIndex<Restaurant>;
+  aggregate: boolean;
+  // Attribute-driven color and size; when set, single restaurants are always drawn on canvas
+  markerStyle?: (restaurant: Restaurant) => MarkerStyle;
+  onSelect?: (restaurant: Restaurant) => void;
+}
+
+interface Viewport {
+  bbox: BoundingBox;
+  zoom: number;
+}
+
+const getViewport = (map: L.Map): Viewport => {
+  const bounds = map.getBounds().pad(0.2);
+  return {
+    bbox: {
+      minLat: bounds.getSouth(),
+      minLon: bounds.getWest(),
+      maxLat: bounds.getNorth(),
+      maxLon: bounds.getEast()
+    },
+    zoom: map.getZoom()
+  };
+};
+
+// Viewport-driven restaurant markers: only restaurants inside the (padded) view are rendered,
+// nearby ones are merged into count bubbles below AGGREGATION_MAX_ZOOM, large sets of single
+// points go to a canvas layer, and a popup is only created for the restaurant that was clicked.
+const RestaurantMarkers: React.FC<RestaurantMarkersProps> = ({ spatialIndex, aggregate, markerStyle, onSelect }) => {
+  const map = useMap();
+  const [viewport, setViewport] = useState<Viewport>(() => getViewport(map));
+  const [selected, setSelected] = useState<Restaurant | null>(null);
+  const [selectedAggregate, setSelectedAggregate] = useState<MarkerAggregate | null>(null);
+
+  useMapEvents({
+    moveend: () => setViewport(getViewport(map))
+  });
+
+  const visible = useMemo(() => spatialIndex.search(viewport.bbox), [spatialIndex, viewport.bbox]);
+
+  const { groups, singles } = useMemo(() => {
+    if (!aggregate || viewport.zoom > AGGREGATION_MAX_ZOOM) {
+      return { groups: [] as MarkerAggregate[], singles: visible };
+    }
+
+    const aggregates = aggregateMarkers(visible, viewport.zoom);
+    return {
+      groups: aggregates.filter(a => a.count > 1),
+      singles: aggregates.filter(a => a.count === 1).map(a => a.restaurants[0])
+    };
+  }, [visible, aggregate, viewport.zoom]);
+
+  const canvasPoints: CanvasPoint[] = useMemo(() => {
+    if (!markerStyle && singles.length <= DOM_MARKER_LIMIT) return [];
+    return singles.map(restaurant => ({
+      restaurant,
+      style: {
+        radius: 5,
+        fillColor: getCuisineColor(restaurant.cuisine),
+        ...markerStyle?.(restaurant),
+        color: 'white',
+        weight: 1,
+        fillOpacity: 0.9
+      }
+    }));
+  }, [singles, markerStyle]);
+
+  const handleSelect = useCallback((restaurant: Restaurant) => {
+    setSelectedAggregate(null);
+    setSelected(restaurant);
+    onSelect?.(restaurant);
+  }, [onSelect]);
+
+  const handleAggregateClick = (group: MarkerAggregate) => {
+    const { bounds } = group;
+    const collapsed = bounds.minLat === bounds.maxLat && bounds.minLon === bounds.maxLon;
+
+    // Restaurants at one address cannot be split by zooming, so list them instead
+    if (collapsed || viewport.zoom >= AGGREGATION_MAX_ZOOM) {
+      setSelected(null);
+      setSelectedAggregate(group);
+      return;
+    }
+
+    map.fitBounds(
+      [[bounds.minLat, bounds.minLon], [bounds.maxLat, bounds.maxLon]],
+      { padding: [40, 40], maxZoom: AGGREGATION_MAX_ZOOM + 1 }
+    );
+  };
+
+  return (
+    <>
+      {groups.map(group => (
+        <Marker
+          key={`aggregate-${group.id}`}
+          position={[group.lat, group.lon]}
+          icon={getAggregateIcon(group.count)}
+          eventHandlers={{ click: () => handleAggregateClick(group) }}
+        />
+      ))}
+
+      {canvasPoints.length > 0 ? (
+        <CanvasPointLayer points={canvasPoints} onSelect={handleSelect} />
+      ) : (
+        singles.map(restaurant => (
+          <Marker
+            key={`restaurant-${restaurant.id}`}
+            position={[restaurant.lat, restaurant.lon]}
+            icon={getCuisineIcon(restaurant.cuisine)}
+            eventHandlers={{ click: () => handleSelect(restaurant) }}
+          />
+        ))
+      )}
+
+      {selected && (
+        <Popup
+          position={[selected.lat, selected.lon]}
+          eventHandlers={{ remove: () => setSelected(null) }}
+        >
+          <RestaurantPopup restaurant={selected} />
+        </Popup>
+      )}
+
+      {selectedAggregate && (
+        <Popup
+          position={[selectedAggregate.lat, selectedAggregate.lon]}
+          eventHandlers={{ remove: () => setSelectedAggregate(null) }}
+        >
+          <div className="p-2">
+            <h3 className="font-semibold text-lg">{selectedAggregate.count} restaurants</h3>
+            <ul className="text-xs mt-1 max-h-32 overflow-y-auto">
+              {selectedAggregate.restaurants.slice(0, 20).map(restaurant => (
+                <li key={restaurant.id}>
+                  <button className="underline" onClick={() => handleSelect(restaurant)}>
+                    {restaurant.name}
+                  </button>
+                  {restaurant.cuisine && <span className="text-gray-500"> · {restaurant.cuisine}</span>}
+                </li>
+              ))}
+              {selectedAggregate.count > 20 && (
+                <li className="text-gray-500">...and {selectedAggregate.count - 20} more</li>
+              )}
+            </ul>
+          </div>
+        </Popup>
+      )}
+    </>
+  );
+};
+
+export default RestaurantMarkers;
@@ -0,0 +1,33 @@
+import React, { useEffect } from 'react';
+import { useMap, useMapEvents } from 'react-leaflet';
+
+interface RestaurantPlacementLayerProps {
+  onPlace: (position: [number, number]) => void;
+  onCancel: () => void;
+}
+
+// Places a new restaurant where the map is clicked. Escape cancels.
+const RestaurantPlacementLayer: React.FC<RestaurantPlacementLayerProps> = ({ onPlace, onCancel }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    map.getContainer().style.cursor = 'crosshair';
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', handleKey);
+
+    return () => {
+      map.getContainer().style.cursor = '';
+      window.removeEventListener('keydown', handleKey);
+    };
+  }, [map, onCancel]);
+
+  useMapEvents({
+    click: (event) => onPlace([event.latlng.lat, event.latlng.lng])
+  });
+
+  return null;
+};
+
+export default RestaurantPlacementLayer;
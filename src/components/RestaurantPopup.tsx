@@ -0,0 +1,61 @@
+import React from 'react';
+import { Restaurant } from '@/types/restaurant';
+import { formatAttributeKey, formatAttributeValue } from '@/utils/attributes';
+import { COMPETITION_LABELS, COMPETITION_METRICS, formatCompetitionValue } from '@/utils/competition';
+
+interface RestaurantPopupProps {
+  restaurant: Restaurant;
+  clusterLabel?: string;
+  clusterColor?: string;
+}
+
+const RestaurantPopup: React.FC<RestaurantPopupProps> = ({ restaurant, clusterLabel, clusterColor }) => {
+  return (
+    <div className="p-2">
+      <h3 className="font-semibold text-lg">{restaurant.name}</h3>
+      <p className="text-sm text-gray-600">
+        <strong>Cuisine:</strong> {restaurant.cuisine || 'Unknown'}
+      </p>
+      {clusterLabel && (
+        <p className="text-sm" style={{ color: clusterColor }}>
+          <strong>Cluster:</strong> {clusterLabel}
+        </p>
+      )}
+      {restaurant.zone && (
+        <p className="text-sm text-gray-600">
+          <strong>Zone:</strong> {restaurant.zone}
+        </p>
+      )}
+      {restaurant.address && (
+        <p className="text-sm text-gray-600">
+          <strong>Address:</strong> {restaurant.address}
+        </p>
+      )}
+      {restaurant.attributes && Object.keys(restaurant.attributes).length > 0 && (
+        <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-2 text-sm text-gray-600">
+          {Object.entries(restaurant.attributes).map(([key, value]) => (
+            <React.Fragment key={key}>
+              <dt className="font-semibold">{formatAttributeKey(key)}:</dt>
+              <dd>{formatAttributeValue(value)}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+      {restaurant.competition && (
+        <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-2 border-t pt-1 text-sm text-gray-600">
+          {COMPETITION_METRICS.map(metric => (
+            <React.Fragment key={metric}>
+              <dt className="font-semibold">{COMPETITION_LABELS[metric]}:</dt>
+              <dd>{formatCompetitionValue(metric, restaurant.competition![metric])}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+      <p className="text-xs text-gray-500 mt-1">
+        {restaurant.lat.toFixed(4)}, {restaurant.lon.toFixed(4)}
+      </p>
+    </div>
+  );
+};
+
+export default RestaurantPopup;
@@ -0,0 +1,52 @@
+import React, { useEffect } from 'react';
+import { CircleMarker, Marker, Tooltip, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { Restaurant } from '@/types/restaurant';
+
+interface SelectedRestaurantLayerProps {
+  restaurant: Restaurant;
+  // False when the restaurant was picked on this map, which needs no flying to
+  fly: boolean;
+  // Makes the restaurant's pin draggable to correct its position
+  onMove?: (position: [number, number]) => void;
+}
+
+// Close enough to tell the restaurant apart from its neighbours
+const FOCUS_ZOOM = 16;
+
+// Ring around the selected restaurant; selections made outside the map fly it to the venue
+const SelectedRestaurantLayer: React.FC<SelectedRestaurantLayerProps> = ({ restaurant, fly, onMove }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!fly) return;
+    map.flyTo([restaurant.lat, restaurant.lon], Math.max(map.getZoom(), FOCUS_ZOOM), { duration: 0.8 });
+  }, [map, restaurant.lat, restaurant.lon, fly]);
+
+  const handleDragEnd = (event: L.LeafletEvent) => {
+    const { lat, lng } = (event.target as L.Marker).getLatLng();
+    onMove?.([lat, lng]);
+  };
+
+  return (
+    <>
+      <CircleMarker
+        center={[restaurant.lat, restaurant.lon]}
+        radius={16}
+        interactive={false}
+        pathOptions={{ color: '#2563eb', weight: 3, fillColor: '#2563eb', fillOpacity: 0.15 }}
+      />
+      {onMove && (
+        <Marker
+          position={[restaurant.lat, restaurant.lon]}
+          draggable
+          eventHandlers={{ dragend: handleDragEnd }}
+        >
+          <Tooltip direction="top" offset={[0, -36]}>Drag to move {restaurant.name}</Tooltip>
+        </Marker>
+      )}
+    </>
+  );
+};
+
+export default SelectedRestaurantLayer;
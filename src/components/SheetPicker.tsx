@@ -0,0 +1,48 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Sheet } from 'lucide-react';
+import { NamedTable } from '@/utils/fileFormats';
+
+interface SheetPickerProps {
+  sheets: NamedTable[];
+  sourceLabel: string;
+  onSelect: (sheet: NamedTable) => void;
+  onCancel: () => void;
+}
+
+const SheetPicker: React.FC<SheetPickerProps> = ({ sheets, sourceLabel, onSelect, onCancel }) => {
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="font-semibold">Choose a sheet</h3>
+        <p className="text-sm text-muted-foreground">
+          {sourceLabel} has {sheets.length} sheets with data. Pick the one that lists the restaurants.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {sheets.map(sheet => (
+          <button
+            key={sheet.name}
+            className="flex w-full items-center gap-3 rounded-lg border p-3 text-left hover:bg-muted"
+            onClick={() => onSelect(sheet)}
+          >
+            <Sheet className="h-5 w-5 shrink-0 text-muted-foreground" />
+            <div className="min-w-0 flex-1">
+              <p className="font-medium">{sheet.name}</p>
+              <p className="truncate text-xs text-muted-foreground">
+                {sheet.table.rows.length} rows · {sheet.table.fields.join(', ')}
+              </p>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
+      </div>
+    </div>
+  );
+};
+
+export default SheetPicker;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Circle, Polygon, Rectangle, Tooltip } from 'react-leaflet';
+import { TradeArea } from '@/types/restaurant';
+
+interface TradeAreaLayerProps {
+  areas: TradeArea[];
+}
+
+const AREA_STYLE = { color: '#3f51b5', weight: 2, dashArray: '6 4', fillOpacity: 0.05 };
+
+// Outlines of the trade areas currently applied as filters
+const TradeAreaLayer: React.FC<TradeAreaLayerProps> = ({ areas }) => {
+  return (
+    <>
+      {areas.map(area => {
+        const label = <Tooltip sticky>{area.name}</Tooltip>;
+        const { shape } = area;
+
+        switch (shape.type) {
+          case 'rectangle':
+            return (
+              <Rectangle
+                key={area.id}
+                bounds={[[shape.bounds.minLat, shape.bounds.minLon], [shape.bounds.maxLat, shape.bounds.maxLon]]}
+                pathOptions={AREA_STYLE}
+              >
+                {label}
+              </Rectangle>
+            );
+          case 'circle':
+            return (
+              <Circle key={area.id} center={shape.center} radius={shape.radiusMeters} pathOptions={AREA_STYLE}>
+                {label}
+              </Circle>
+            );
+          case 'polygon':
+            return (
+              <Polygon key={area.id} positions={shape.ring} pathOptions={AREA_STYLE}>
+                {label}
+              </Polygon>
+            );
+        }
+      })}
+    </>
+  );
+};
+
+export default TradeAreaLayer;
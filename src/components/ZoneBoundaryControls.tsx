@@ -0,0 +1,110 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2 } from 'lucide-react';
+import { ZoneBoundarySet } from '@/types/restaurant';
+import { parseZoneBoundaries } from '@/utils/zoneBoundaries';
+import { useToast } from '@/hooks/use-toast';
+
+interface ZoneBoundaryControlsProps {
+  zones: ZoneBoundarySet | null;
+  onZonesChange: (zones: ZoneBoundarySet | null) => void;
+  // Restaurants whose zone is one of the boundaries
+  assignedCount: number;
+  totalCount: number;
+  showBoundaries: boolean;
+  onShowBoundariesChange: (show: boolean) => void;
+}
+
+// Upload of a GeoJSON with neighborhood or delivery zone polygons, and how its zones are applied
+const ZoneBoundaryControls: React.FC<ZoneBoundaryControlsProps> = ({
+  zones,
+  onZonesChange,
+  assignedCount,
+  totalCount,
+  showBoundaries,
+  onShowBoundariesChange
+}) => {
+  const { toast } = useToast();
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      onZonesChange(parseZoneBoundaries(await file.text(), file.name));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read zone boundaries",
+        variant: "destructive",
+      });
+    } finally {
+      event.target.value = '';
+    }
+  };
+
+  if (!zones) {
+    return (
+      <div className="space-y-2">
+        <Label htmlFor="zone-boundaries">Zone Boundaries</Label>
+        <Input id="zone-boundaries" type="file" accept=".json,.geojson" onChange={handleUpload} className="max-w-sm" />
+        <p className="text-xs text-muted-foreground">
+          Upload a GeoJSON of neighborhoods or delivery zones to assign every restaurant the zone it lies in
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>Zone Boundaries</Label>
+      <div className="flex flex-wrap items-center gap-4 rounded-md border p-2">
+        <div className="min-w-[10rem] flex-1">
+          <p className="text-sm font-medium truncate">{zones.sourceName}</p>
+          <p className="text-xs text-muted-foreground">
+            {zones.boundaries.length} zones · {assignedCount} of {totalCount} restaurants inside a zone
+          </p>
+        </div>
+        {zones.propertyKeys.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Label className="text-xs whitespace-nowrap">Name from</Label>
+            <Select
+              value={zones.nameProperty ?? undefined}
+              onValueChange={(nameProperty) => onZonesChange({ ...zones, nameProperty })}
+            >
+              <SelectTrigger className="h-8 w-40">
+                <SelectValue placeholder="Choose property" />
+              </SelectTrigger>
+              <SelectContent>
+                {zones.propertyKeys.map(key => (
+                  <SelectItem key={key} value={key}>{key}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="keep-data-zones"
+            checked={zones.mode === 'fill'}
+            onCheckedChange={(checked) => onZonesChange({ ...zones, mode: checked ? 'fill' : 'replace' })}
+          />
+          <Label htmlFor="keep-data-zones" className="text-sm">Keep zones from the data</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch id="show-boundaries" checked={showBoundaries} onCheckedChange={onShowBoundariesChange} />
+          <Label htmlFor="show-boundaries" className="text-sm">Show on map</Label>
+        </div>
+        <Button variant="ghost" size="icon" aria-label="Remove zone boundaries" onClick={() => onZonesChange(null)}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ZoneBoundaryControls;
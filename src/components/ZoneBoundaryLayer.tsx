@@ -0,0 +1,27 @@
+import React, { useMemo } from 'react';
+import { Polygon, Tooltip } from 'react-leaflet';
+import { ZoneBoundarySet } from '@/types/restaurant';
+import { getBoundaryNames } from '@/utils/zoneBoundaries';
+
+interface ZoneBoundaryLayerProps {
+  zones: ZoneBoundarySet;
+}
+
+const BOUNDARY_STYLE = { color: '#546e7a', weight: 1.5, fillOpacity: 0.03 };
+
+// Outlines of the uploaded zone boundaries, named on hover
+const ZoneBoundaryLayer: React.FC<ZoneBoundaryLayerProps> = ({ zones }) => {
+  const names = useMemo(() => getBoundaryNames(zones), [zones]);
+
+  return (
+    <>
+      {zones.boundaries.map((boundary, index) => (
+        <Polygon key={boundary.id} positions={boundary.polygons} pathOptions={BOUNDARY_STYLE}>
+          <Tooltip sticky>{names[index]}</Tooltip>
+        </Polygon>
+      ))}
+    </>
+  );
+};
+
+export default ZoneBoundaryLayer;
@@ -0,0 +1,33 @@
+import { useCallback, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { DashboardViewState } from '@/types/restaurant';
+import { decodeViewState, encodeViewState, reuseUnchanged, DEFAULT_VIEW_STATE } from '@/utils/urlState';
+
+type ViewStateChange =
+  | Partial<DashboardViewState>
+  | ((prev: DashboardViewState) => Partial<DashboardViewState>);
+
+export interface ViewStateUpdateOptions {
+  // Overwrite the current history entry instead of adding one (sliders, typing, map panning)
+  replace?: boolean;
+}
+
+// Dashboard view state kept in the URL search params, so links reproduce the view and
+// back/forward step through changes
+export function useDashboardUrlState() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const previous = useRef(DEFAULT_VIEW_STATE);
+  const state = useMemo(() => {
+    previous.current = reuseUnchanged(previous.current, decodeViewState(searchParams));
+    return previous.current;
+  }, [searchParams]);
+
+  const update = useCallback((change: ViewStateChange, options: ViewStateUpdateOptions = {}) => {
+    const patch = typeof change === 'function' ? change(state) : change;
+    const next = encodeViewState({ ...state, ...patch });
+    if (next.toString() === encodeViewState(state).toString()) return;
+    setSearchParams(next, { replace: options.replace });
+  }, [state, setSearchParams]);
+
+  return [state, update] as const;
+}
@@ -0,0 +1,70 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  listDatasets,
+  saveDataset,
+  renameDataset,
+  updateDatasetRows,
+  setDatasetRefreshInterval,
+  addDatasetRemovedRows,
+  duplicateDataset,
+  deleteDataset
+} from '@/utils/datasetStore';
+import { DatasetSource, Restaurant } from '@/types/restaurant';
+
+const DATASETS_QUERY_KEY = ['datasets'];
+
+export interface NewDataset {
+  restaurants: Restaurant[];
+  name: string;
+  source: DatasetSource;
+  sourceDetail?: string;
+}
+
+export function useDatasets() {
+  const queryClient = useQueryClient();
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: DATASETS_QUERY_KEY });
+
+  const datasets = useQuery({ queryKey: DATASETS_QUERY_KEY, queryFn: listDatasets });
+
+  const save = useMutation({
+    mutationFn: ({ restaurants, name, source, sourceDetail }: NewDataset) =>
+      saveDataset(restaurants, name, source, sourceDetail),
+    onSuccess: invalidate
+  });
+
+  const rename = useMutation({
+    mutationFn: ({ id, name }: { id: string; name: string }) => renameDataset(id, name),
+    onSuccess: invalidate
+  });
+
+  const update = useMutation({
+    mutationFn: ({ id, restaurants }: { id: string; restaurants: Restaurant[] }) => updateDatasetRows(id, restaurants),
+    onSuccess: invalidate
+  });
+
+  const setRefreshInterval = useMutation({
+    mutationFn: ({ id, minutes }: { id: string; minutes: number | null }) => setDatasetRefreshInterval(id, minutes),
+    onSuccess: invalidate
+  });
+
+  const addRemovedRows = useMutation({
+    mutationFn: ({ id, keys }: { id: string; keys: string[] }) => addDatasetRemovedRows(id, keys),
+    onSuccess: invalidate
+  });
+
+  const duplicate = useMutation({ mutationFn: duplicateDataset, onSuccess: invalidate });
+  const remove = useMutation({ mutationFn: deleteDataset, onSuccess: invalidate });
+
+  return {
+    datasets: datasets.data ?? [],
+    isLoading: datasets.isLoading,
+    error: datasets.error,
+    save,
+    rename,
+    update,
+    setRefreshInterval,
+    addRemovedRows,
+    duplicate,
+    remove
+  };
+}
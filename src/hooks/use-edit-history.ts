@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { DatasetEdit, Restaurant } from '@/types/restaurant';
+import { EditResult } from '@/utils/editing';
+
+interface HistoryStep {
+  before: Restaurant[];
+  after: Restaurant[];
+  edit: DatasetEdit;
+}
+
+// Steps share unchanged restaurant objects, so each one costs about one array of references.
+// Only the snapshots are capped; the change log keeps every edit.
+const MAX_HISTORY = 100;
+
+// Undo/redo over edits to the dataset. Every step hands the whole dataset to onChange, which
+// stores it; the edits still in effect make up the change log, including those too old to undo.
+export function useEditHistory(restaurants: Restaurant[], onChange: (restaurants: Restaurant[]) => void) {
+  const [past, setPast] = useState<HistoryStep[]>([]);
+  const [future, setFuture] = useState<HistoryStep[]>([]);
+  const [edits, setEdits] = useState<DatasetEdit[]>([]);
+
+  const apply = (result: EditResult | null) => {
+    if (!result) return;
+    setPast(prev => [...prev, { before: restaurants, after: result.restaurants, edit: result.edit }].slice(-MAX_HISTORY));
+    setFuture([]);
+    setEdits(prev => [...prev, result.edit]);
+    onChange(result.restaurants);
+  };
+
+  const undo = () => {
+    const step = past[past.length - 1];
+    if (!step) return;
+    setPast(past.slice(0, -1));
+    setFuture([step, ...future]);
+    setEdits(edits.slice(0, -1));
+    onChange(step.before);
+  };
+
+  const redo = () => {
+    const [step, ...rest] = future;
+    if (!step) return;
+    setPast([...past, step]);
+    setFuture(rest);
+    setEdits([...edits, step.edit]);
+    onChange(step.after);
+  };
+
+  return {
+    apply,
+    undo,
+    redo,
+    edits,
+    undoLabel: past[past.length - 1]?.edit.label ?? null,
+    redoLabel: future[0]?.edit.label ?? null
+  };
+}
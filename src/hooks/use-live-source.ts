@@ -0,0 +1,55 @@
+import { useEffect, useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { SourceFetch, fetchDataFromSource } from '@/utils/dataParser';
+
+const LIVE_SOURCE_QUERY_KEY = 'live-source';
+
+interface LiveSourceCallbacks {
+  onData: (fetched: SourceFetch) => void;
+  onError: (error: Error) => void;
+}
+
+// Refetches a URL dataset through the app's QueryClient every `refreshMinutes` (never when null;
+// `refetch` still works) and hands each fetch to the callbacks once
+export function useLiveSource(
+  sourceDetail: string | null,
+  refreshMinutes: number | null,
+  { onData, onError }: LiveSourceCallbacks
+) {
+  const query = useQuery({
+    queryKey: [LIVE_SOURCE_QUERY_KEY, sourceDetail],
+    queryFn: () => fetchDataFromSource(sourceDetail!),
+    enabled: sourceDetail !== null && refreshMinutes !== null,
+    refetchInterval: refreshMinutes === null ? false : refreshMinutes * 60 * 1000,
+    refetchOnWindowFocus: false,
+    retry: 1,
+    // A fetch from an earlier visit would be diffed against the dataset as it is now
+    gcTime: 0
+  });
+
+  // The callbacks close over the dashboard's current dataset, so the latest ones are used
+  const callbacks = useRef({ onData, onError });
+  callbacks.current = { onData, onError };
+
+  const handledDataAt = useRef(0);
+  useEffect(() => {
+    if (!query.data || query.dataUpdatedAt === handledDataAt.current) return;
+    handledDataAt.current = query.dataUpdatedAt;
+    callbacks.current.onData(query.data);
+  }, [query.data, query.dataUpdatedAt]);
+
+  const handledErrorAt = useRef(0);
+  useEffect(() => {
+    if (!query.error || query.errorUpdatedAt === handledErrorAt.current) return;
+    handledErrorAt.current = query.errorUpdatedAt;
+    callbacks.current.onError(query.error);
+  }, [query.error, query.errorUpdatedAt]);
+
+  return {
+    isFetching: query.isFetching,
+    // Time of the last successful fetch, or 0 before the first
+    checkedAt: query.dataUpdatedAt,
+    error: query.error,
+    refetch: query.refetch
+  };
+}
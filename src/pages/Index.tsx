@@ -1,24 +1,152 @@
-import React, { useState } from 'react';
-import DataUpload from '@/components/DataUpload';
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import DataUpload, { DatasetOrigin } from '@/components/DataUpload';
 import Dashboard from '@/components/Dashboard';
-import { Restaurant } from '@/types/restaurant';
+import { Dataset, DatasetMeta, Restaurant } from '@/types/restaurant';
+import { useDatasets } from '@/hooks/use-datasets';
+import { useToast } from '@/hooks/use-toast';
+import { getDataset, getLastDatasetId, setLastDatasetId } from '@/utils/datasetStore';
 
 const Index = () => {
   const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
+  // The open dataset as stored, without its rows; null until a new import is saved
+  const [datasetMeta, setDatasetMeta] = useState<DatasetMeta | null>(null);
+  const [isRestoring, setIsRestoring] = useState(() => getLastDatasetId() !== null);
+  const [, setSearchParams] = useSearchParams();
+  const { save, update, setRefreshInterval, addRemovedRows } = useDatasets();
+  const { toast } = useToast();
 
-  const handleDataLoaded = (loadedRestaurants: Restaurant[]) => {
+  const openDataset = ({ restaurants: rows, ...meta }: Dataset) => {
+    setDatasetMeta(meta);
+    setRestaurants(rows);
+  };
+
+  // Reopen the dataset that was open before the page was refreshed
+  useEffect(() => {
+    const lastId = getLastDatasetId();
+    if (!lastId) return;
+
+    getDataset(lastId)
+      .then(dataset => {
+        if (dataset) {
+          openDataset(dataset);
+        } else {
+          setLastDatasetId(null);
+        }
+      })
+      .catch(() => setLastDatasetId(null))
+      .finally(() => setIsRestoring(false));
+  }, []);
+
+  const handleDataLoaded = (loadedRestaurants: Restaurant[], origin: DatasetOrigin) => {
     setRestaurants(loadedRestaurants);
+    save.mutate(
+      { restaurants: loadedRestaurants, ...origin },
+      {
+        onSuccess: ({ restaurants: _rows, ...meta }) => {
+          setLastDatasetId(meta.id);
+          setDatasetMeta(meta);
+        },
+        onError: () => toast({
+          title: "Dataset not saved",
+          description: "The data is loaded but could not be stored in this browser.",
+          variant: "destructive",
+        })
+      }
+    );
+  };
+
+  const handleOpenDataset = async (id: string) => {
+    try {
+      const dataset = await getDataset(id);
+      if (!dataset) {
+        toast({ title: "Error", description: "Dataset not found", variant: "destructive" });
+        return;
+      }
+      setLastDatasetId(id);
+      openDataset(dataset);
+    } catch {
+      toast({
+        title: "Dataset not opened",
+        description: "The dataset could not be read from this browser's storage.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Edits and refreshes made on the dashboard are written back to the open dataset
+  const handleRestaurantsChange = (updatedRestaurants: Restaurant[]) => {
+    setRestaurants(updatedRestaurants);
+    const id = getLastDatasetId();
+    if (!id) return;
+    update.mutate(
+      { id, restaurants: updatedRestaurants },
+      {
+        onError: () => toast({
+          title: "Changes not saved",
+          description: "The changes are applied but could not be stored in this browser.",
+          variant: "destructive",
+        })
+      }
+    );
   };
 
+  const handleRefreshIntervalChange = (minutes: number | null) => {
+    if (!datasetMeta) return;
+    setDatasetMeta({ ...datasetMeta, refreshMinutes: minutes ?? undefined });
+    setRefreshInterval.mutate(
+      { id: datasetMeta.id, minutes },
+      {
+        onError: () => toast({
+          title: "Setting not saved",
+          description: "The refresh interval applies now but could not be stored in this browser.",
+          variant: "destructive",
+        })
+      }
+    );
+  };
+
+  const handleRowsRemoved = (keys: string[]) => {
+    if (!datasetMeta) return;
+    setDatasetMeta({ ...datasetMeta, removedRows: Array.from(new Set([...(datasetMeta.removedRows ?? []), ...keys])) });
+    addRemovedRows.mutate(
+      { id: datasetMeta.id, keys },
+      {
+        onError: () => toast({
+          title: "Changes not saved",
+          description: "Deleted restaurants may come back when the dataset is refreshed from its source.",
+          variant: "destructive",
+        })
+      }
+    );
+  };
+
+  // The dashboard view lives in the URL; it is dropped so the next dataset opens fresh
+  const handleBackToImport = () => {
+    setLastDatasetId(null);
+    setDatasetMeta(null);
+    setRestaurants([]);
+    setSearchParams({});
+  };
+
+  if (isRestoring) return null;
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-4 py-8">
         {restaurants.length === 0 ? (
           <div className="flex items-center justify-center min-h-screen">
-            <DataUpload onDataLoaded={handleDataLoaded} />
+            <DataUpload onDataLoaded={handleDataLoaded} onOpenDataset={handleOpenDataset} />
           </div>
         ) : (
-          <Dashboard restaurants={restaurants} />
+          <Dashboard
+            restaurants={restaurants}
+            onRestaurantsChange={handleRestaurantsChange}
+            dataset={datasetMeta}
+            onRefreshIntervalChange={handleRefreshIntervalChange}
+            onRowsRemoved={handleRowsRemoved}
+            onBackToImport={handleBackToImport}
+          />
         )}
       </div>
     </div>
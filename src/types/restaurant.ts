@@ -5,7 +5,61 @@ export interface Restaurant {
   lon: number;
   cuisine?: string;
   zone?: string;
+  address?: string;
   cluster?: number;
+  // Extra columns from the source, keyed by their original header
+  attributes?: Record<string, AttributeValue>;
+  // Derived on the dashboard from the other restaurants; never stored with the dataset
+  competition?: CompetitionMetrics;
+  // Fields changed in the app, so refreshes from a live source keep them
+  localEdits?: LocalEdits;
+}
+
+// The source's value of each field changed in the app ('' when the source had none)
+export interface LocalEdits {
+  name?: string;
+  cuisine?: string;
+  zone?: string;
+  position?: [number, number];
+}
+
+export interface CompetitionMetrics {
+  // Meters to the nearest other restaurant of the same cuisine; null without a cuisine or rival
+  nearestCompetitorMeters: number | null;
+  // Other restaurants of the same cuisine within each radius
+  competitorsWithin250m: number | null;
+  competitorsWithin500m: number | null;
+  competitorsWithin1km: number | null;
+  // Meters to the nearest other restaurant of any cuisine
+  nearestRestaurantMeters: number | null;
+}
+
+export type CompetitionMetric = keyof CompetitionMetrics;
+
+export type AttributeType = 'number' | 'category' | 'date';
+
+// Numbers for numeric columns, strings for categories and ISO dates (YYYY-MM-DD), null when empty
+export type AttributeValue = number | string | null;
+
+export interface AttributeDefinition {
+  key: string;
+  type: AttributeType;
+}
+
+export interface BoundingBox {
+  minLat: number;
+  minLon: number;
+  maxLat: number;
+  maxLon: number;
+}
+
+export interface MarkerAggregate {
+  id: string;
+  lat: number;
+  lon: number;
+  count: number;
+  restaurants: Restaurant[];
+  bounds: BoundingBox;
 }
 
 export interface ClusterData {
@@ -15,9 +69,299 @@ export interface ClusterData {
   color: string;
 }
 
+export interface ClusterHull {
+  clusterId: number;
+  ring: [number, number][];
+  areaKm2: number;
+}
+
+export type ClusteringAlgorithm = 'kmeans' | 'dbscan' | 'hdbscan';
+
+export interface ClusteringResult {
+  clusters: ClusterData[];
+  noise: Restaurant[];
+  inertia?: number;
+  iterations?: number;
+}
+
+export interface DensityClusteringOptions {
+  epsMeters: number;
+  minPts: number;
+}
+
+export interface ClusterCountScore {
+  k: number;
+  inertia: number;
+  silhouette: number;
+  daviesBouldin: number;
+}
+
+export interface ClusterCountEvaluation {
+  scores: ClusterCountScore[];
+  recommendedK: number;
+  elbowK: number;
+}
+
+export type AreaShape =
+  | { type: 'polygon'; ring: [number, number][] }
+  | { type: 'rectangle'; bounds: BoundingBox }
+  | { type: 'circle'; center: [number, number]; radiusMeters: number };
+
+export interface TradeArea {
+  id: string;
+  name: string;
+  shape: AreaShape;
+}
+
+// Polygon rings in [lat, lon] order: the outer ring first, then any holes
+export type PolygonRings = [number, number][][];
+
+export interface ZoneBoundary {
+  id: string;
+  properties: Record<string, string>;
+  // One entry per polygon, so MultiPolygon features keep every part
+  polygons: PolygonRings[];
+}
+
+// 'replace': a containing boundary overrides the zone from the data.
+// 'fill': boundaries only name restaurants that have no zone of their own.
+export type ZoneAssignmentMode = 'replace' | 'fill';
+
+export interface ZoneBoundarySet {
+  sourceName: string;
+  // Feature property that names each zone
+  nameProperty: string | null;
+  propertyKeys: string[];
+  mode: ZoneAssignmentMode;
+  boundaries: ZoneBoundary[];
+}
+
+// Values shaded per zone in the choropleth; attribute metrics average a numeric attribute
+export type ChoroplethMetric =
+  | { type: 'count' }
+  | { type: 'density' }
+  | { type: 'cuisine-share'; cuisine: string }
+  | { type: 'attribute'; key: string };
+
+export type ClassificationMethod = 'quantile' | 'equal-interval' | 'jenks';
+
+export interface ChoroplethOptions {
+  metric: ChoroplethMetric;
+  method: ClassificationMethod;
+  classes: number;
+}
+
+export type FacetField = 'cuisine' | 'zone';
+
+export interface FacetFilter {
+  values: string[];
+  mode: 'include' | 'exclude';
+}
+
+// Inclusive bounds; dates are compared as millisecond timestamps
+export interface RangeFilter {
+  min: number | null;
+  max: number | null;
+}
+
+export interface RestaurantFilters {
+  search: string;
+  facets: Record<FacetField, FacetFilter>;
+  areas: TradeArea[];
+  attributeFacets: Record<string, FacetFilter>;
+  attributeRanges: Record<string, RangeFilter>;
+  competitionRanges: Partial<Record<CompetitionMetric, RangeFilter>>;
+}
+
+export interface MarkerEncoding {
+  colorBy: string | null;
+  sizeBy: string | null;
+}
+
+export type DashboardTab = 'map' | 'clusters' | 'analytics' | 'insights' | 'data';
+
+export interface MapViewport {
+  center: [number, number];
+  zoom: number;
+}
+
+// Everything needed to reproduce a dashboard view; mirrored in the URL search params
+export type OpportunityUnit = 'grid' | 'zone';
+
+export interface OpportunityOptions {
+  // Cuisine to find room for; null leaves the analysis off
+  cuisine: string | null;
+  unit: OpportunityUnit;
+  cellSizeMeters: number;
+}
+
+export interface DashboardViewState {
+  tab: DashboardTab;
+  filters: RestaurantFilters;
+  clusteringAlgorithm: ClusteringAlgorithm;
+  clusterCount: number | 'auto';
+  densityOptions: DensityClusteringOptions;
+  showClusters: boolean;
+  showHeatmap: boolean;
+  heatmapOptions: HeatmapOptions;
+  aggregateMarkers: boolean;
+  showHulls: boolean;
+  hullBufferMeters: number;
+  showZoneBoundaries: boolean;
+  showChoropleth: boolean;
+  choroplethOptions: ChoroplethOptions;
+  opportunityOptions: OpportunityOptions;
+  markerEncoding: MarkerEncoding;
+  viewport: MapViewport | null;
+}
+
 export interface AnalyticsData {
   restaurants: Restaurant[];
   clusters: ClusterData[];
   cuisineStats: { [key: string]: number };
   zoneStats: { [key: string]: number };
-}
\ No newline at end of file
+}
+
+export interface HeatmapOptions {
+  radius: number;
+  blur: number;
+  intensity: number;
+}
+
+export type DatasetSource = 'file' | 'url' | 'sample';
+
+export interface DatasetMeta {
+  id: string;
+  name: string;
+  source: DatasetSource;
+  sourceDetail?: string;
+  rowCount: number;
+  importedAt: string;
+  // Minutes between automatic refreshes of a URL source; absent when refreshing is off
+  refreshMinutes?: number;
+  // Source rows deleted or merged away in the app, which refreshes leave out
+  removedRows?: string[];
+}
+
+export interface Dataset extends DatasetMeta {
+  restaurants: Restaurant[];
+}
+
+export type ImportField = 'name' | 'lat' | 'lon' | 'cuisine' | 'zone' | 'address';
+
+// Source column header for each restaurant field, or null when the field is not mapped.
+// `attributes` lists the other columns to keep and their types; when absent they are detected.
+export type ColumnMapping = Record<ImportField, string | null> & {
+  attributes?: Record<string, AttributeType>;
+};
+
+export interface RawTable {
+  fields: string[];
+  rows: Record<string, string>[];
+}
+
+export type ImportIssueType =
+  | 'missing-coordinates'
+  | 'invalid-coordinates'
+  | 'out-of-range'
+  | 'swapped-coordinates'
+  | 'null-island'
+  | 'needs-geocoding';
+
+export interface ImportIssue {
+  rowIndex: number;
+  row: Record<string, string>;
+  type: ImportIssueType;
+  message: string;
+}
+
+export interface ImportResult {
+  restaurants: Restaurant[];
+  issues: ImportIssue[];
+}
+
+export interface GeocodeMatch {
+  lat: number;
+  lon: number;
+  // What the query was matched to: a gazetteer entry or the provider's display name
+  label: string;
+  // 0–1 estimate of how well the match covers the query
+  confidence: number;
+}
+
+export interface GazetteerEntry {
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+export type GeocoderProvider = 'bundled' | 'gazetteer' | 'http';
+
+export interface GeocoderSettings {
+  provider: GeocoderProvider;
+  // User-supplied gazetteer CSV and its file name
+  gazetteerCSV: string | null;
+  gazetteerName: string | null;
+  // Nominatim-compatible endpoint root, e.g. a local stand-in or https://nominatim.openstreetmap.org
+  baseUrl: string;
+  minIntervalMs: number;
+}
+
+export interface DeduplicationOptions {
+  // Records farther apart than this are never the same venue
+  maxDistanceMeters: number;
+  // 0–1 name similarity two nearby records need to be paired
+  minNameSimilarity: number;
+}
+
+export interface DuplicateGroup {
+  id: string;
+  restaurants: Restaurant[];
+  // Weakest name similarity and greatest distance among the pairs that link the group
+  similarity: number;
+  maxDistanceMeters: number;
+  suggestedSurvivorId: string;
+}
+
+export interface DuplicateMerge {
+  survivorId: string;
+  duplicateIds: string[];
+}
+
+export type DatasetChangeType = 'add' | 'edit' | 'move' | 'delete' | 'merge';
+
+// One change to one restaurant; before and after are display values
+export interface DatasetChange {
+  type: DatasetChangeType;
+  restaurantId: string;
+  restaurantName: string;
+  field?: string;
+  before?: string;
+  after?: string;
+}
+
+// One undoable step in the edit history; merging duplicates changes many restaurants at once
+export interface DatasetEdit {
+  label: string;
+  changes: DatasetChange[];
+  at: string;
+}
+
+export interface RestaurantMove {
+  restaurant: Restaurant;
+  previous: Restaurant;
+  distanceMeters: number;
+}
+
+export interface RestaurantRecategorization {
+  restaurant: Restaurant;
+  previous: Restaurant;
+}
+
+// What changed between two versions of a dataset; restaurants are matched by name
+export interface DatasetDiff {
+  added: Restaurant[];
+  removed: Restaurant[];
+  moved: RestaurantMove[];
+  recategorized: RestaurantRecategorization[];
+}
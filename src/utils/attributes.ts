@@ -0,0 +1,240 @@
+import {
+  AttributeDefinition,
+  AttributeType,
+  AttributeValue,
+  ColumnMapping,
+  RawTable,
+  Restaurant
+} from '@/types/restaurant';
+import { IMPORT_FIELDS } from '@/utils/columnMapping';
+
+export const ATTRIBUTE_TYPE_LABELS: Record<AttributeType, string> = {
+  number: 'Number',
+  category: 'Category',
+  date: 'Date'
+};
+
+// Share of non-empty values that must parse for a column to be typed as number or date
+const DETECTION_THRESHOLD = 0.9;
+const DETECTION_SAMPLE_SIZE = 500;
+
+// Plain, signed, thousands-separated, currency-prefixed or percent numbers: "4.5", "$1,200", "12%"
+const NUMBER_PATTERN = /^[-+]?[$€£¥]?\s?(\d{1,3}(,\d{3})+|\d*)(\.\d+)?\s?%?$/;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/;
+const US_DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+const STORED_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseNumber(raw: string): number | null {
+  if (!NUMBER_PATTERN.test(raw) || !/\d/.test(raw)) return null;
+  return Number(raw.replace(/[^\d.+-]/g, ''));
+}
+
+function parseDate(raw: string): string | null {
+  const iso = raw.match(ISO_DATE_PATTERN);
+  const us = raw.match(US_DATE_PATTERN);
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : us
+      ? [Number(us[3]), Number(us[1]), Number(us[2])]
+      : [NaN, NaN, NaN];
+
+  if (isNaN(year)) return null;
+  // Impossible dates such as 2023-02-30 roll over into the next month, which gives them away
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+export function parseAttributeValue(raw: string | undefined, type: AttributeType): AttributeValue {
+  const value = raw?.trim();
+  if (!value) return null;
+
+  switch (type) {
+    case 'number':
+      return parseNumber(value);
+    case 'date':
+      return parseDate(value);
+    case 'category':
+      return value;
+  }
+}
+
+// Numbers win over dates, which win over categories; columns without any values are skipped
+export function detectAttributeType(values: string[]): AttributeType | null {
+  const filled = values.map(value => value?.trim()).filter(Boolean).slice(0, DETECTION_SAMPLE_SIZE);
+  if (filled.length === 0) return null;
+
+  const share = (parse: (raw: string) => unknown) =>
+    filled.filter(value => parse(value) !== null).length / filled.length;
+
+  if (share(parseNumber) >= DETECTION_THRESHOLD) return 'number';
+  if (share(parseDate) >= DETECTION_THRESHOLD) return 'date';
+  return 'category';
+}
+
+// Detected types for every column that is not mapped to a restaurant field
+export function detectAttributeTypes(table: RawTable, mapping: ColumnMapping): Record<string, AttributeType> {
+  const mapped = new Set(IMPORT_FIELDS.map(field => mapping[field]).filter(Boolean));
+  const types: Record<string, AttributeType> = {};
+
+  for (const column of table.fields) {
+    if (mapped.has(column)) continue;
+    const type = detectAttributeType(table.rows.map(row => row[column]));
+    if (type) types[column] = type;
+  }
+
+  return types;
+}
+
+export function withAttributeTypes(table: RawTable, mapping: ColumnMapping): ColumnMapping {
+  return mapping.attributes ? mapping : { ...mapping, attributes: detectAttributeTypes(table, mapping) };
+}
+
+// Attribute types of a loaded dataset, read back from the stored values: numbers are numeric,
+// strings that are all ISO dates are dates, and anything else is a category
+export function getAttributeSchema(restaurants: Restaurant[]): AttributeDefinition[] {
+  const seen = new Map<string, { numbers: number; dates: number; strings: number }>();
+
+  for (const restaurant of restaurants) {
+    for (const [key, value] of Object.entries(restaurant.attributes ?? {})) {
+      if (value === null) {
+        if (!seen.has(key)) seen.set(key, { numbers: 0, dates: 0, strings: 0 });
+        continue;
+      }
+
+      const stats = seen.get(key) ?? { numbers: 0, dates: 0, strings: 0 };
+      if (typeof value === 'number') {
+        stats.numbers++;
+      } else if (STORED_DATE_PATTERN.test(value)) {
+        stats.dates++;
+      } else {
+        stats.strings++;
+      }
+      seen.set(key, stats);
+    }
+  }
+
+  return Array.from(seen.entries()).map(([key, stats]) => ({
+    key,
+    type: stats.strings > 0 ? 'category' : stats.dates > 0 ? 'date' : 'number'
+  }));
+}
+
+export function getAttributeValue(restaurant: Restaurant, key: string): AttributeValue {
+  return restaurant.attributes?.[key] ?? null;
+}
+
+// Numeric view of an attribute for ranges and scales: numbers as-is, dates as timestamps
+export function getNumericAttributeValue(restaurant: Restaurant, key: string): number | null {
+  const value = getAttributeValue(restaurant, key);
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && STORED_DATE_PATTERN.test(value)) return Date.parse(value);
+  return null;
+}
+
+export function getNumericExtent(restaurants: Restaurant[], key: string): [number, number] | null {
+  let min = Infinity;
+  let max = -Infinity;
+
+  for (const restaurant of restaurants) {
+    const value = getNumericAttributeValue(restaurant, key);
+    if (value === null) continue;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+
+  return min <= max ? [min, max] : null;
+}
+
+export function formatAttributeValue(value: AttributeValue): string {
+  if (value === null) return '—';
+  if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return value;
+}
+
+export function formatAttributeKey(key: string): string {
+  return key.replace(/[_-]+/g, ' ').replace(/\b\w/g, char => char.toUpperCase());
+}
+
+export type BreakdownDimension =
+  | { kind: 'field'; field: 'cuisine' | 'zone' }
+  | { kind: 'attribute'; attribute: AttributeDefinition };
+
+export interface BreakdownRow {
+  label: string;
+  count: number;
+  value: number;
+}
+
+const HISTOGRAM_BINS = 10;
+const MAX_CATEGORY_ROWS = 15;
+
+// Groups restaurants by a dimension (category values, equal-width numeric bins or months) and
+// reports the group size plus, when a metric attribute is given, its mean within each group
+export function buildAttributeBreakdown(
+  restaurants: Restaurant[],
+  dimension: BreakdownDimension,
+  metricKey: string | null
+): BreakdownRow[] {
+  const groups = new Map<string, Restaurant[]>();
+  const addTo = (label: string, restaurant: Restaurant) => {
+    const group = groups.get(label);
+    if (group) {
+      group.push(restaurant);
+    } else {
+      groups.set(label, [restaurant]);
+    }
+  };
+
+  let order: string[] | null = null;
+
+  if (dimension.kind === 'field') {
+    restaurants.forEach(restaurant => addTo(restaurant[dimension.field] || 'Unknown', restaurant));
+  } else if (dimension.attribute.type === 'category') {
+    restaurants.forEach(restaurant => {
+      const value = getAttributeValue(restaurant, dimension.attribute.key);
+      addTo(value === null ? 'Unknown' : String(value), restaurant);
+    });
+  } else if (dimension.attribute.type === 'date') {
+    restaurants.forEach(restaurant => {
+      const value = getAttributeValue(restaurant, dimension.attribute.key);
+      if (typeof value === 'string') addTo(value.slice(0, 7), restaurant);
+    });
+    order = Array.from(groups.keys()).sort();
+  } else {
+    const extent = getNumericExtent(restaurants, dimension.attribute.key);
+    if (!extent) return [];
+
+    const [min, max] = extent;
+    const width = (max - min) / HISTOGRAM_BINS || 1;
+    const format = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+    order = Array.from({ length: max > min ? HISTOGRAM_BINS : 1 }, (_, i) =>
+      `${format(min + i * width)}–${format(min + (i + 1) * width)}`
+    );
+    order.forEach(label => groups.set(label, []));
+
+    restaurants.forEach(restaurant => {
+      const value = getNumericAttributeValue(restaurant, dimension.attribute.key);
+      if (value === null) return;
+      const bin = Math.min(order!.length - 1, Math.floor((value - min) / width));
+      groups.get(order![bin])!.push(restaurant);
+    });
+  }
+
+  const rows = (order ?? Array.from(groups.keys())).map(label => {
+    const members = groups.get(label) ?? [];
+    const metricValues = metricKey
+      ? members.map(restaurant => getNumericAttributeValue(restaurant, metricKey)).filter((v): v is number => v !== null)
+      : [];
+
+    return {
+      label,
+      count: members.length,
+      value: metricKey
+        ? (metricValues.length > 0 ? metricValues.reduce((sum, v) => sum + v, 0) / metricValues.length : 0)
+        : members.length
+    };
+  });
+
+  return order ? rows : rows.sort((a, b) => b.count - a.count).slice(0, MAX_CATEGORY_ROWS);
+}
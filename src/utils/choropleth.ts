@@ -0,0 +1,271 @@
+import {
+  ChoroplethMetric,
+  ChoroplethOptions,
+  ClassificationMethod,
+  PolygonRings,
+  Restaurant,
+  ZoneBoundarySet
+} from '@/types/restaurant';
+import { bufferedHull, polygonAreaKm2 } from '@/utils/geo';
+import { getBoundaryNames, getZoneAreas } from '@/utils/zoneBoundaries';
+
+export const DEFAULT_CHOROPLETH_OPTIONS: ChoroplethOptions = {
+  metric: { type: 'count' },
+  method: 'quantile',
+  classes: 5
+};
+
+export const MIN_CLASSES = 3;
+export const MAX_CLASSES = 7;
+
+export const CLASSIFICATION_LABELS: Record<ClassificationMethod, string> = {
+  quantile: 'Quantile',
+  'equal-interval': 'Equal interval',
+  jenks: 'Natural breaks (Jenks)'
+};
+
+// ColorBrewer YlOrRd, light to dark; fewer classes take evenly spaced steps
+const COLOR_RAMP = ['#ffffb2', '#fed976', '#feb24c', '#fd8d3c', '#fc4e2a', '#e31a1c', '#b10026'];
+export const NO_DATA_COLOR = '#d6d6d6';
+
+// Without uploaded boundaries a zone is the convex hull of its restaurants, grown by this much
+// so zones with one or two restaurants still cover some ground
+const HULL_BUFFER_METERS = 150;
+
+export interface ZoneShape {
+  name: string;
+  polygons: PolygonRings[];
+  areaKm2: number;
+}
+
+export interface ChoroplethZone extends ZoneShape {
+  value: number | null;
+  restaurantCount: number;
+  color: string;
+}
+
+export interface ChoroplethClass {
+  min: number;
+  max: number;
+  color: string;
+  zoneCount: number;
+}
+
+export interface ChoroplethResult {
+  metric: ChoroplethMetric;
+  method: ClassificationMethod;
+  zones: ChoroplethZone[];
+  classes: ChoroplethClass[];
+  fromBoundaries: boolean;
+}
+
+// Metrics as flat strings for selects and URL params
+export function metricKey(metric: ChoroplethMetric): string {
+  switch (metric.type) {
+    case 'cuisine-share':
+      return `cuisine:${metric.cuisine}`;
+    case 'attribute':
+      return `attribute:${metric.key}`;
+    default:
+      return metric.type;
+  }
+}
+
+export function parseMetricKey(key: string | null): ChoroplethMetric | null {
+  if (key === 'count' || key === 'density') return { type: key };
+  if (key?.startsWith('cuisine:')) return { type: 'cuisine-share', cuisine: key.slice('cuisine:'.length) };
+  if (key?.startsWith('attribute:')) return { type: 'attribute', key: key.slice('attribute:'.length) };
+  return null;
+}
+
+export function describeMetric(metric: ChoroplethMetric, formatKey: (key: string) => string = key => key): string {
+  switch (metric.type) {
+    case 'count':
+      return 'Restaurants';
+    case 'density':
+      return 'Restaurants per km²';
+    case 'cuisine-share':
+      return `${metric.cuisine} share`;
+    case 'attribute':
+      return `Average ${formatKey(metric.key)}`;
+  }
+}
+
+export function formatMetricValue(metric: ChoroplethMetric, value: number): string {
+  switch (metric.type) {
+    case 'count':
+      return Math.round(value).toLocaleString();
+    case 'cuisine-share':
+      return `${(value * 100).toFixed(0)}%`;
+    default:
+      return value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+  }
+}
+
+// One shape per zone name: the uploaded boundaries when there are any, otherwise a buffered
+// hull around each zone's restaurants
+export function getZoneShapes(restaurants: Restaurant[], boundaries: ZoneBoundarySet | null): ZoneShape[] {
+  if (boundaries) {
+    const names = getBoundaryNames(boundaries);
+    const areas = getZoneAreas(boundaries);
+    const polygons = new Map<string, PolygonRings[]>();
+    boundaries.boundaries.forEach((boundary, index) => {
+      if (!polygons.has(names[index])) polygons.set(names[index], []);
+      polygons.get(names[index])!.push(...boundary.polygons);
+    });
+    return Array.from(polygons, ([name, zonePolygons]) => ({ name, polygons: zonePolygons, areaKm2: areas[name] }));
+  }
+
+  const points = new Map<string, [number, number][]>();
+  restaurants.forEach(restaurant => {
+    if (!restaurant.zone) return;
+    if (!points.has(restaurant.zone)) points.set(restaurant.zone, []);
+    points.get(restaurant.zone)!.push([restaurant.lat, restaurant.lon]);
+  });
+
+  return Array.from(points, ([name, zonePoints]) => {
+    const ring = bufferedHull(zonePoints, HULL_BUFFER_METERS);
+    return { name, polygons: [[ring]], areaKm2: polygonAreaKm2(ring) };
+  });
+}
+
+function zoneValue(metric: ChoroplethMetric, members: Restaurant[], areaKm2: number): number | null {
+  switch (metric.type) {
+    case 'count':
+      return members.length;
+    case 'density':
+      return areaKm2 > 0 ? members.length / areaKm2 : null;
+    case 'cuisine-share':
+      return members.length > 0 ? members.filter(r => r.cuisine === metric.cuisine).length / members.length : null;
+    case 'attribute': {
+      const values = members
+        .map(restaurant => restaurant.attributes?.[metric.key])
+        .filter((value): value is number => typeof value === 'number' && isFinite(value));
+      return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+    }
+  }
+}
+
+// Fisher-Jenks optimal breaks: splits sorted values into classes that minimise the summed
+// within-class variance. Returns the upper bound of every class.
+function jenksBreaks(sorted: number[], classes: number): number[] {
+  const n = sorted.length;
+  const lowerLimits = Array.from({ length: n + 1 }, () => new Array<number>(classes + 1).fill(0));
+  const variances = Array.from({ length: n + 1 }, () => new Array<number>(classes + 1).fill(Infinity));
+
+  for (let j = 1; j <= classes; j++) {
+    lowerLimits[1][j] = 1;
+    variances[1][j] = 0;
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let variance = 0;
+
+    for (let m = 1; m <= l; m++) {
+      const lower = l - m + 1;
+      const value = sorted[lower - 1];
+      sum += value;
+      sumSquares += value * value;
+      variance = sumSquares - (sum * sum) / m;
+
+      if (lower > 1) {
+        // The values below this class must be able to fill the other j - 1 classes
+        for (let j = 2; j <= Math.min(classes, lower); j++) {
+          if (variances[l][j] >= variance + variances[lower - 1][j - 1]) {
+            lowerLimits[l][j] = lower;
+            variances[l][j] = variance + variances[lower - 1][j - 1];
+          }
+        }
+      }
+    }
+
+    lowerLimits[l][1] = 1;
+    variances[l][1] = variance;
+  }
+
+  const breaks = new Array<number>(classes);
+  breaks[classes - 1] = sorted[n - 1];
+  let upper = n;
+  for (let j = classes; j >= 2; j--) {
+    const lower = lowerLimits[upper][j];
+    breaks[j - 2] = sorted[lower - 2];
+    upper = lower - 1;
+  }
+  return breaks;
+}
+
+// Upper bound of each class, ascending and without repeats; never more classes than there
+// are distinct values
+export function classBreaks(values: number[], method: ClassificationMethod, classes: number): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  const distinct = new Set(sorted).size;
+  const count = Math.min(classes, distinct);
+  if (count === 0) return [];
+  if (count === 1) return [sorted[sorted.length - 1]];
+
+  let breaks: number[];
+  switch (method) {
+    case 'equal-interval': {
+      const min = sorted[0];
+      const step = (sorted[sorted.length - 1] - min) / count;
+      breaks = Array.from({ length: count }, (_, i) => (i === count - 1 ? sorted[sorted.length - 1] : min + step * (i + 1)));
+      break;
+    }
+    case 'jenks':
+      breaks = jenksBreaks(sorted, count);
+      break;
+    default:
+      breaks = Array.from({ length: count }, (_, i) => sorted[Math.ceil(((i + 1) * sorted.length) / count) - 1]);
+  }
+
+  return Array.from(new Set(breaks));
+}
+
+const rampColor = (index: number, count: number) =>
+  COLOR_RAMP[count === 1 ? COLOR_RAMP.length - 1 : Math.round((index * (COLOR_RAMP.length - 1)) / (count - 1))];
+
+// Shades each zone by the metric over the given restaurants; zones with no value for the
+// metric are drawn in the no-data color
+export function buildChoropleth(
+  shapes: ZoneShape[],
+  restaurants: Restaurant[],
+  options: ChoroplethOptions,
+  fromBoundaries: boolean
+): ChoroplethResult {
+  const members = new Map<string, Restaurant[]>();
+  restaurants.forEach(restaurant => {
+    if (!restaurant.zone) return;
+    if (!members.has(restaurant.zone)) members.set(restaurant.zone, []);
+    members.get(restaurant.zone)!.push(restaurant);
+  });
+
+  const valued = shapes.map(shape => {
+    const zoneMembers = members.get(shape.name) ?? [];
+    return { ...shape, restaurantCount: zoneMembers.length, value: zoneValue(options.metric, zoneMembers, shape.areaKm2) };
+  });
+
+  const values = valued.map(zone => zone.value).filter((value): value is number => value !== null);
+  const breaks = classBreaks(values, options.method, options.classes);
+  const classIndex = (value: number) => {
+    const index = breaks.findIndex(limit => value <= limit);
+    return index === -1 ? breaks.length - 1 : index;
+  };
+
+  const classes: ChoroplethClass[] = breaks.map((max, i) => ({
+    min: i === 0 ? Math.min(...values) : breaks[i - 1],
+    max,
+    color: rampColor(i, breaks.length),
+    zoneCount: 0
+  }));
+
+  const zones = valued.map(zone => {
+    if (zone.value === null) return { ...zone, color: NO_DATA_COLOR };
+    const index = classIndex(zone.value);
+    classes[index].zoneCount++;
+    return { ...zone, color: classes[index].color };
+  });
+
+  return { metric: options.metric, method: options.method, zones, classes, fromBoundaries };
+}
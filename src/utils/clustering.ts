@@ -1,101 +1,382 @@
-import { Restaurant, ClusterData } from '@/types/restaurant';
-
-// K-means clustering implementation
-export function kMeansCluster(restaurants: Restaurant[], k: number = 5): ClusterData[] {
-  if (restaurants.length === 0) return [];
-  
-  // Initialize centroids randomly
-  const centroids: [number, number][] = [];
-  const bounds = getBounds(restaurants);
-  
-  for (let i = 0; i < k; i++) {
-    centroids.push([
-      Math.random() * (bounds.maxLat - bounds.minLat) + bounds.minLat,
-      Math.random() * (bounds.maxLon - bounds.minLon) + bounds.minLon
-    ]);
+import {
+  Restaurant,
+  ClusterData,
+  ClusterHull,
+  ClusteringResult,
+  ClusterCountScore,
+  ClusterCountEvaluation
+} from '@/types/restaurant';
+import { haversineDistance, sphericalMean, bufferedHull, polygonAreaKm2 } from '@/utils/geo';
+
+export const CLUSTER_COLORS = ['#e91e63', '#9c27b0', '#3f51b5', '#00bcd4', '#4caf50', '#ff9800', '#f44336'];
+export const NOISE_CLUSTER_ID = -1;
+export const NOISE_COLOR = '#9e9e9e';
+
+// Cluster counts offered for k-means; automatic selection may go up to 10
+export const MIN_CLUSTER_COUNT = 3;
+export const MAX_CLUSTER_COUNT = 8;
+
+// Largest service area buffer offered around cluster hulls
+export const MAX_HULL_BUFFER_METERS = 2000;
+
+export interface KMeansOptions {
+  seed?: number;
+  restarts?: number;
+  maxIterations?: number;
+}
+
+// K-means runs on the main thread; above this many restaurants the centroids are fitted on a
+// seeded sample and every restaurant is then assigned to the nearest one
+const KMEANS_SAMPLE_SIZE = 2000;
+
+// Automatic cluster count selection runs k-means for every candidate k, so it scores a smaller sample
+const CLUSTER_COUNT_SAMPLE_SIZE = 1000;
+
+const DEFAULT_KMEANS_OPTIONS: Required<KMeansOptions> = {
+  seed: 42,
+  restarts: 5,
+  maxIterations: 100
+};
+
+// Mulberry32: small, fast seeded PRNG so clustering is reproducible for the same input
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// K-means clustering on great-circle distances with k-means++ seeding.
+// Runs several seeded restarts and keeps the one with the lowest inertia
+// (sum of squared distances to the assigned centroid, in km²).
+// Large datasets are fitted on a sample of KMEANS_SAMPLE_SIZE restaurants.
+export function kMeansCluster(
+  restaurants: Restaurant[],
+  k: number = 5,
+  options: KMeansOptions = {}
+): ClusteringResult {
+  if (restaurants.length === 0) return { clusters: [], noise: [], inertia: 0, iterations: 0 };
+
+  const { seed, restarts, maxIterations } = { ...DEFAULT_KMEANS_OPTIONS, ...options };
+  const clusterCount = Math.max(1, Math.min(k, restaurants.length));
+  const points = restaurants.map(r => [r.lat, r.lon] as [number, number]);
+  const random = createSeededRandom(seed);
+  const fitPoints = points.length > KMEANS_SAMPLE_SIZE
+    ? sampleWithoutReplacement(points, KMEANS_SAMPLE_SIZE, random)
+    : points;
+
+  let best: KMeansRun | null = null;
+  for (let run = 0; run < Math.max(1, restarts); run++) {
+    const result = runKMeans(fitPoints, clusterCount, maxIterations, random);
+    if (!best || result.inertia < best.inertia) {
+      best = result;
+    }
   }
-  
-  let assignments: number[] = new Array(restaurants.length).fill(0);
+
+  const assignments = fitPoints === points
+    ? best.assignments
+    : points.map(point => nearestCentroid(point, best.centroids).index);
+
+  return {
+    clusters: buildClusters(restaurants, best.centroids, assignments),
+    noise: [],
+    inertia: fitPoints === points ? best.inertia : totalInertia(points, best.centroids, assignments),
+    iterations: best.iterations
+  };
+}
+
+interface KMeansRun {
+  centroids: [number, number][];
+  assignments: number[];
+  inertia: number;
+  iterations: number;
+}
+
+function runKMeans(
+  points: [number, number][],
+  k: number,
+  maxIterations: number,
+  random: () => number
+): KMeansRun {
+  const centroids = initializeCentroids(points, k, random);
+  let assignments: number[] = new Array(points.length).fill(-1);
   let iterations = 0;
-  const maxIterations = 100;
-  
+
   while (iterations < maxIterations) {
-    const newAssignments: number[] = [];
-    
-    // Assign each restaurant to the nearest centroid
-    for (const restaurant of restaurants) {
-      let minDistance = Infinity;
-      let assignedCluster = 0;
-      
-      for (let i = 0; i < centroids.length; i++) {
-        const distance = euclideanDistance(
-          [restaurant.lat, restaurant.lon],
-          centroids[i]
-        );
-        if (distance < minDistance) {
-          minDistance = distance;
-          assignedCluster = i;
-        }
-      }
-      newAssignments.push(assignedCluster);
-    }
-    
+    // Assign each point to the nearest centroid
+    const newAssignments = points.map(point => nearestCentroid(point, centroids).index);
+    iterations++;
+
     // Check for convergence
     if (assignments.every((val, idx) => val === newAssignments[idx])) {
       break;
     }
-    
+
     assignments = newAssignments;
-    
-    // Update centroids
+
+    // Update centroids; an empty cluster keeps its previous centroid
     for (let i = 0; i < k; i++) {
-      const clusterRestaurants = restaurants.filter((_, idx) => assignments[idx] === i);
-      if (clusterRestaurants.length > 0) {
-        const avgLat = clusterRestaurants.reduce((sum, r) => sum + r.lat, 0) / clusterRestaurants.length;
-        const avgLon = clusterRestaurants.reduce((sum, r) => sum + r.lon, 0) / clusterRestaurants.length;
-        centroids[i] = [avgLat, avgLon];
+      const members = points.filter((_, idx) => assignments[idx] === i);
+      if (members.length > 0) {
+        centroids[i] = sphericalMean(members);
       }
     }
-    
-    iterations++;
   }
-  
-  // Create cluster data
-  const clusterColors = ['#e91e63', '#9c27b0', '#3f51b5', '#00bcd4', '#4caf50', '#ff9800', '#f44336'];
-  const clusters: ClusterData[] = [];
-  
-  for (let i = 0; i < k; i++) {
-    const clusterRestaurants = restaurants
-      .map((restaurant, idx) => ({ ...restaurant, cluster: i }))
-      .filter((_, idx) => assignments[idx] === i);
-    
-    if (clusterRestaurants.length > 0) {
-      clusters.push({
-        id: i,
-        center: centroids[i],
-        restaurants: clusterRestaurants,
-        color: clusterColors[i % clusterColors.length]
-      });
+
+  return { centroids, assignments, inertia: totalInertia(points, centroids, assignments), iterations };
+}
+
+function totalInertia(points: [number, number][], centroids: [number, number][], assignments: number[]): number {
+  return points.reduce((sum, point, idx) => {
+    const distanceKm = haversineDistance(point, centroids[assignments[idx]]) / 1000;
+    return sum + distanceKm * distanceKm;
+  }, 0);
+}
+
+// k-means++: the first centroid is a random point, every next one is drawn with
+// probability proportional to its squared distance from the nearest chosen centroid
+function initializeCentroids(
+  points: [number, number][],
+  k: number,
+  random: () => number
+): [number, number][] {
+  const centroids: [number, number][] = [points[Math.floor(random() * points.length)]];
+
+  while (centroids.length < k) {
+    const weights = points.map(point => nearestCentroid(point, centroids).distance ** 2);
+    const total = weights.reduce((sum, w) => sum + w, 0);
+
+    if (total === 0) {
+      // All remaining points coincide with existing centroids
+      centroids.push(points[Math.floor(random() * points.length)]);
+      continue;
+    }
+
+    let target = random() * total;
+    let chosen = points.length - 1;
+    for (let i = 0; i < weights.length; i++) {
+      target -= weights[i];
+      if (target <= 0) {
+        chosen = i;
+        break;
+      }
     }
+    centroids.push(points[chosen]);
   }
-  
-  return clusters;
+
+  return centroids;
 }
 
-function euclideanDistance(point1: [number, number], point2: [number, number]): number {
-  const dx = point1[0] - point2[0];
-  const dy = point1[1] - point2[1];
-  return Math.sqrt(dx * dx + dy * dy);
+// A plain scan: there are at most 10 centroids (the dashboard offers 3–8, automatic selection
+// tries up to 10), and a spatial index over so few points is a single leaf scanned the same way
+function nearestCentroid(point: [number, number], centroids: [number, number][]) {
+  let distance = Infinity;
+  let index = 0;
+
+  for (let i = 0; i < centroids.length; i++) {
+    const d = haversineDistance(point, centroids[i]);
+    if (d < distance) {
+      distance = d;
+      index = i;
+    }
+  }
+
+  return { index, distance };
 }
 
-function getBounds(restaurants: Restaurant[]) {
-  const lats = restaurants.map(r => r.lat);
-  const lons = restaurants.map(r => r.lon);
-  
-  return {
-    minLat: Math.min(...lats),
-    maxLat: Math.max(...lats),
-    minLon: Math.min(...lons),
-    maxLon: Math.max(...lons)
-  };
-}
\ No newline at end of file
+// Cluster IDs are assigned by sorting centroids north-to-south, then west-to-east,
+// so the same data always yields the same IDs and colors regardless of which restart won.
+// Restaurants whose assignment matches no centroid are left out.
+export function buildClusters(
+  restaurants: Restaurant[],
+  centroids: [number, number][],
+  assignments: number[]
+): ClusterData[] {
+  const occupied = centroids
+    .map((center, index) => ({ center, index }))
+    .filter(({ index }) => assignments.some(a => a === index))
+    .sort((a, b) => b.center[0] - a.center[0] || a.center[1] - b.center[1]);
+
+  return occupied.map(({ center, index }, id) => ({
+    id,
+    center,
+    restaurants: restaurants
+      .filter((_, idx) => assignments[idx] === index)
+      .map(restaurant => ({ ...restaurant, cluster: id })),
+    color: CLUSTER_COLORS[id % CLUSTER_COLORS.length]
+  }));
+}
+
+const SILHOUETTE_SAMPLE_SIZE = 500;
+
+// Score a range of cluster counts with the elbow method (inertia), the mean silhouette
+// coefficient and the Davies–Bouldin index. The recommended k is the one with the highest
+// silhouette; elbowK is the point of the inertia curve farthest from the chord joining its ends.
+// Large datasets are scored on a seeded sample of CLUSTER_COUNT_SAMPLE_SIZE restaurants.
+export function evaluateClusterCounts(
+  restaurants: Restaurant[],
+  minK: number = 2,
+  maxK: number = 10,
+  options: KMeansOptions = {}
+): ClusterCountEvaluation {
+  const seed = options.seed ?? DEFAULT_KMEANS_OPTIONS.seed;
+  const sample = restaurants.length > CLUSTER_COUNT_SAMPLE_SIZE
+    ? sampleWithoutReplacement(restaurants, CLUSTER_COUNT_SAMPLE_SIZE, createSeededRandom(seed))
+    : restaurants;
+  const upper = Math.min(maxK, sample.length - 1);
+  const scores: ClusterCountScore[] = [];
+
+  for (let k = Math.max(2, minK); k <= upper; k++) {
+    const { clusters, inertia } = kMeansCluster(sample, k, options);
+    scores.push({
+      k,
+      inertia,
+      silhouette: silhouetteScore(clusters, seed),
+      daviesBouldin: daviesBouldinIndex(clusters)
+    });
+  }
+
+  if (scores.length === 0) {
+    const k = Math.max(1, Math.min(minK, sample.length));
+    return { scores, recommendedK: k, elbowK: k };
+  }
+
+  const recommendedK = scores.reduce((best, score) =>
+    score.silhouette > best.silhouette ||
+    (score.silhouette === best.silhouette && score.daviesBouldin < best.daviesBouldin)
+      ? score
+      : best
+  ).k;
+
+  return { scores, recommendedK, elbowK: findElbow(scores) };
+}
+
+// Mean silhouette coefficient in [-1, 1]; large datasets are scored on a seeded sample
+function silhouetteScore(clusters: ClusterData[], seed: number): number {
+  if (clusters.length < 2) return 0;
+
+  const labelled = clusters.flatMap(cluster =>
+    cluster.restaurants.map(r => ({ point: [r.lat, r.lon] as [number, number], cluster: cluster.id }))
+  );
+  const sample = labelled.length > SILHOUETTE_SAMPLE_SIZE
+    ? sampleWithoutReplacement(labelled, SILHOUETTE_SAMPLE_SIZE, createSeededRandom(seed))
+    : labelled;
+
+  let total = 0;
+  for (const item of sample) {
+    const sums = new Map<number, { sum: number; count: number }>();
+    for (const other of labelled) {
+      if (other === item) continue;
+      const entry = sums.get(other.cluster) ?? { sum: 0, count: 0 };
+      entry.sum += haversineDistance(item.point, other.point);
+      entry.count++;
+      sums.set(other.cluster, entry);
+    }
+
+    const own = sums.get(item.cluster);
+    // Singleton clusters score 0 by convention
+    if (!own || own.count === 0) continue;
+
+    const a = own.sum / own.count;
+    let b = Infinity;
+    sums.forEach((entry, cluster) => {
+      if (cluster !== item.cluster) b = Math.min(b, entry.sum / entry.count);
+    });
+
+    const denominator = Math.max(a, b);
+    total += denominator === 0 ? 0 : (b - a) / denominator;
+  }
+
+  return total / sample.length;
+}
+
+// Davies–Bouldin index: mean over clusters of the worst (scatter_i + scatter_j) / separation_ij
+// ratio. Lower is better.
+function daviesBouldinIndex(clusters: ClusterData[]): number {
+  if (clusters.length < 2) return 0;
+
+  const scatter = clusters.map(cluster =>
+    cluster.restaurants.reduce((sum, r) => sum + haversineDistance([r.lat, r.lon], cluster.center), 0) /
+    cluster.restaurants.length
+  );
+
+  let total = 0;
+  for (let i = 0; i < clusters.length; i++) {
+    let worst = 0;
+    for (let j = 0; j < clusters.length; j++) {
+      if (i === j) continue;
+      const separation = haversineDistance(clusters[i].center, clusters[j].center);
+      const ratio = separation === 0 ? Infinity : (scatter[i] + scatter[j]) / separation;
+      worst = Math.max(worst, ratio);
+    }
+    total += worst;
+  }
+
+  return total / clusters.length;
+}
+
+function findElbow(scores: ClusterCountScore[]): number {
+  if (scores.length < 3) return scores[0].k;
+
+  // Normalize both axes to [0, 1] so the chord distance is not dominated by inertia units
+  const first = scores[0];
+  const last = scores[scores.length - 1];
+  const kRange = last.k - first.k || 1;
+  const inertiaRange = first.inertia - last.inertia || 1;
+
+  let elbow = first;
+  let maxDistance = -Infinity;
+  for (const score of scores) {
+    const x = (score.k - first.k) / kRange;
+    const y = (first.inertia - score.inertia) / inertiaRange;
+    // Distance above the chord y = x
+    const distance = y - x;
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      elbow = score;
+    }
+  }
+
+  return elbow.k;
+}
+
+function sampleWithoutReplacement<T>(items: T[], size: number, random: () => number): T[] {
+  const copy = [...items];
+  for (let i = 0; i < size; i++) {
+    const j = i + Math.floor(random() * (copy.length - i));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy.slice(0, size);
+}
+
+// Most common cuisines among a set of restaurants, as [cuisine, count] pairs
+export function getTopCuisines(restaurants: Restaurant[], limit: number = 3): [string, number][] {
+  const counts = restaurants.reduce((acc: { [key: string]: number }, r) => {
+    const cuisine = r.cuisine || 'Unknown';
+    acc[cuisine] = (acc[cuisine] || 0) + 1;
+    return acc;
+  }, {});
+
+  return Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, limit);
+}
+
+// Outline of each cluster as its convex hull, optionally grown by bufferMeters to show the
+// area the cluster serves. Clusters whose members are collinear or share one location
+// only get a polygon when a buffer is set.
+export function computeClusterHulls(clusters: ClusterData[], bufferMeters: number = 0): ClusterHull[] {
+  return clusters
+    .map(cluster => {
+      const ring = bufferedHull(
+        cluster.restaurants.map(r => [r.lat, r.lon] as [number, number]),
+        bufferMeters
+      );
+      return { clusterId: cluster.id, ring, areaKm2: polygonAreaKm2(ring) };
+    })
+    .filter(hull => hull.areaKm2 > 0);
+}
@@ -0,0 +1,102 @@
+import { ColumnMapping, ImportField } from '@/types/restaurant';
+
+const STORAGE_KEY = 'bistro-vista:column-mappings';
+
+export const IMPORT_FIELDS: ImportField[] = ['name', 'lat', 'lon', 'cuisine', 'zone', 'address'];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  name: 'Name',
+  lat: 'Latitude',
+  lon: 'Longitude',
+  cuisine: 'Cuisine',
+  zone: 'Zone',
+  address: 'Address'
+};
+
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['lat', 'lon'];
+
+// Header spellings recognised for each field, compared after normalizeHeader and tried in order;
+// coordinates taken from GeoJSON/KML geometry come first
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'restaurantname', 'restaurant', 'businessname', 'title'],
+  lat: ['geometrylat', 'lat', 'latitude', 'y', 'coordlat', 'latcoord'],
+  lon: ['geometrylon', 'lon', 'lng', 'long', 'longitude', 'x', 'coordlon', 'coordlng', 'loncoord', 'lngcoord'],
+  cuisine: ['cuisine', 'cuisinetype', 'type', 'category', 'foodtype'],
+  zone: ['zone', 'area', 'district', 'region', 'neighborhood', 'neighbourhood', 'borough'],
+  address: ['address', 'fulladdress', 'streetaddress', 'addr', 'street']
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export function emptyColumnMapping(): ColumnMapping {
+  return { name: null, lat: null, lon: null, cuisine: null, zone: null, address: null };
+}
+
+// Best guess for each field from the header names; a column is never suggested for two fields
+export function suggestColumnMapping(fields: string[]): ColumnMapping {
+  const mapping = emptyColumnMapping();
+  const used = new Set<string>();
+
+  for (const field of IMPORT_FIELDS) {
+    for (const alias of HEADER_ALIASES[field]) {
+      const match = fields.find(header => !used.has(header) && normalizeHeader(header) === alias);
+      if (match) {
+        mapping[field] = match;
+        used.add(match);
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+// Coordinates are required unless an address column is mapped, in which case rows without
+// coordinates are geocoded during import
+export function isMappingComplete(mapping: ColumnMapping): boolean {
+  return REQUIRED_IMPORT_FIELDS.every(field => mapping[field] !== null) || Boolean(mapping.address);
+}
+
+// Mappings are remembered per source (file name or URL) and per header layout, so a re-export
+// of the same vendor file is recognised even when its file name changes
+function mappingKeys(sourceKey: string, fields: string[]) {
+  return [`source:${sourceKey}`, `headers:${fields.join('|')}`];
+}
+
+function loadAllMappings(): Record<string, ColumnMapping> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+// A saved mapping is only reused when every column it refers to is still present
+export function loadSavedMapping(sourceKey: string, fields: string[]): ColumnMapping | null {
+  const saved = loadAllMappings();
+
+  for (const key of mappingKeys(sourceKey, fields)) {
+    if (!saved[key]) continue;
+    // Mappings saved before a field existed lack it entirely
+    const mapping = { ...emptyColumnMapping(), ...saved[key] };
+
+    const columnsPresent = IMPORT_FIELDS.every(field => mapping[field] === null || fields.includes(mapping[field]!));
+    if (columnsPresent && isMappingComplete(mapping)) return mapping;
+  }
+
+  return null;
+}
+
+export function saveColumnMapping(sourceKey: string, fields: string[], mapping: ColumnMapping) {
+  const saved = loadAllMappings();
+  for (const key of mappingKeys(sourceKey, fields)) {
+    saved[key] = mapping;
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  } catch (error) {
+    console.error('Failed to save column mapping:', error);
+  }
+}
@@ -0,0 +1,110 @@
+import { CompetitionMetric, CompetitionMetrics, RangeFilter, Restaurant } from '@/types/restaurant';
+import { haversineDistance } from '@/utils/geo';
+import { createSpatialIndex } from '@/utils/spatialIndex';
+
+export const COMPETITION_METRICS: CompetitionMetric[] = [
+  'nearestCompetitorMeters',
+  'competitorsWithin250m',
+  'competitorsWithin500m',
+  'competitorsWithin1km',
+  'nearestRestaurantMeters'
+];
+
+export const COMPETITION_LABELS: Record<CompetitionMetric, string> = {
+  nearestCompetitorMeters: 'Nearest competitor',
+  competitorsWithin250m: 'Competitors within 250 m',
+  competitorsWithin500m: 'Competitors within 500 m',
+  competitorsWithin1km: 'Competitors within 1 km',
+  nearestRestaurantMeters: 'Nearest restaurant'
+};
+
+const COUNT_RADII: [CompetitionMetric, number][] = [
+  ['competitorsWithin250m', 250],
+  ['competitorsWithin500m', 500],
+  ['competitorsWithin1km', 1000]
+];
+const MAX_COUNT_RADIUS = 1000;
+
+export const isDistanceMetric = (metric: CompetitionMetric) => metric.endsWith('Meters');
+
+export function formatCompetitionValue(metric: CompetitionMetric, value: number | null): string {
+  if (value === null) return isDistanceMetric(metric) ? 'None' : 'n/a';
+  if (!isDistanceMetric(metric)) return String(value);
+  return value >= 1000 ? `${(value / 1000).toFixed(1)} km` : `${Math.round(value)} m`;
+}
+
+export interface CompetitionPreset {
+  id: string;
+  label: string;
+  ranges: Partial<Record<CompetitionMetric, RangeFilter>>;
+}
+
+// Common questions as ready-made competition filters
+export const COMPETITION_PRESETS: CompetitionPreset[] = [
+  {
+    id: 'isolated',
+    label: 'Isolated venues (no restaurant within 500 m)',
+    ranges: { nearestRestaurantMeters: { min: 500, max: null } }
+  },
+  {
+    id: 'uncontested',
+    label: 'No same-cuisine competitor within 1 km',
+    ranges: { competitorsWithin1km: { min: null, max: 0 } }
+  },
+  {
+    id: 'crowded',
+    label: 'Crowded (5+ competitors within 500 m)',
+    ranges: { competitorsWithin500m: { min: 5, max: null } }
+  }
+];
+
+// Competition depends on nothing else, so datasets with the same key share their metrics
+export const competitionInputKey = (restaurants: Restaurant[]) =>
+  restaurants.map(restaurant => `${restaurant.id}@${restaurant.lat},${restaurant.lon}:${restaurant.cuisine ?? ''}`).join('|');
+
+// Competition around every restaurant by id, measured against all the others rather than the
+// filtered set, so filtering does not make a venue look more isolated than it is. Restaurants
+// that share a cuisine are competitors; restaurants without a cuisine have no competitor metrics.
+export function computeCompetitionMetrics(restaurants: Restaurant[]): Map<string, CompetitionMetrics> {
+  const index = createSpatialIndex(restaurants);
+  const byCuisine = new Map<string, Restaurant[]>();
+  restaurants.forEach(restaurant => {
+    if (!restaurant.cuisine) return;
+    if (!byCuisine.has(restaurant.cuisine)) byCuisine.set(restaurant.cuisine, []);
+    byCuisine.get(restaurant.cuisine)!.push(restaurant);
+  });
+  const cuisineIndexes = new Map(Array.from(byCuisine, ([cuisine, members]) => [cuisine, createSpatialIndex(members)]));
+
+  return new Map(restaurants.map(restaurant => {
+    const center: [number, number] = [restaurant.lat, restaurant.lon];
+    const isOther = (other: Restaurant) => other.id !== restaurant.id;
+    const metrics: CompetitionMetrics = {
+      nearestCompetitorMeters: null,
+      competitorsWithin250m: null,
+      competitorsWithin500m: null,
+      competitorsWithin1km: null,
+      nearestRestaurantMeters: index.nearest(center, 1, isOther)[0]?.distance ?? null
+    };
+
+    const cuisineIndex = restaurant.cuisine ? cuisineIndexes.get(restaurant.cuisine) : undefined;
+    if (cuisineIndex) {
+      metrics.nearestCompetitorMeters = cuisineIndex.nearest(center, 1, isOther)[0]?.distance ?? null;
+      const distances = cuisineIndex
+        .withinRadius(center, MAX_COUNT_RADIUS)
+        .filter(isOther)
+        .map(other => haversineDistance(center, [other.lat, other.lon]));
+      COUNT_RADII.forEach(([metric, radius]) => {
+        metrics[metric] = distances.filter(distance => distance <= radius).length;
+      });
+    }
+
+    return [restaurant.id, metrics];
+  }));
+}
+
+export const withCompetition = (restaurants: Restaurant[], metrics: Map<string, CompetitionMetrics>): Restaurant[] =>
+  restaurants.map(restaurant => ({ ...restaurant, competition: metrics.get(restaurant.id) }));
+
+export function getCompetitionValue(restaurant: Restaurant, metric: CompetitionMetric): number | null {
+  return restaurant.competition?.[metric] ?? null;
+}
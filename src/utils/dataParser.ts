@@ -1,5 +1,16 @@
 import Papa from 'papaparse';
-import { Restaurant } from '@/types/restaurant';
+import { Restaurant, RawTable, ColumnMapping, ImportResult } from '@/types/restaurant';
+import { suggestColumnMapping, isMappingComplete, loadSavedMapping } from '@/utils/columnMapping';
+import { validateRows } from '@/utils/importValidation';
+import { withAttributeTypes } from '@/utils/attributes';
+import {
+  DataFormat,
+  NamedTable,
+  detectFormat,
+  parseGeoJSONTable,
+  parseKMLTable,
+  parseWorkbookTables
+} from '@/utils/fileFormats';
 
 function convertGoogleSheetsURL(url: string): string {
   // Convert Google Sheets edit URL to CSV export URL
@@ -22,93 +33,33 @@ function validateURL(url: string): { isValid: boolean; message?: string } {
       return { isValid: true };
     }
     
-    if (url.endsWith('.csv') || url.includes('format=csv')) {
+    if (/\.(csv|tsv|json|geojson|kml|xlsx?)$/i.test(new URL(url).pathname) || url.includes('format=csv')) {
       return { isValid: true };
     }
     
     return { 
       isValid: true, 
-      message: 'URL should point to a CSV file or Google Sheets document' 
+      message: 'URL should point to a CSV, GeoJSON, KML or Excel file, or a Google Sheets document' 
     };
   } catch {
     return { isValid: false, message: 'Invalid URL format' };
   }
 }
 
-export function parseCSVData(csvText: string): Promise<Restaurant[]> {
+export function parseCSVTable(csvText: string): Promise<RawTable> {
   return new Promise((resolve, reject) => {
-    // Debug: Log first 500 characters of CSV to help diagnose issues
-    console.log('CSV Data Preview:', csvText.substring(0, 500));
-    
-    Papa.parse(csvText, {
+    Papa.parse<Record<string, string>>(csvText, {
       header: true,
       skipEmptyLines: true,
+      transformHeader: (header) => header.trim(),
       complete: (result) => {
-        try {
-          console.log('Parsed CSV meta:', result.meta);
-          console.log('Available columns:', result.meta.fields);
-          console.log('First row of data:', result.data[0]);
-          
-          if (!result.data || result.data.length === 0) {
-            throw new Error('No data found in CSV. Please check if the file contains valid restaurant data.');
-          }
-          
-          const restaurants: Restaurant[] = result.data.map((row: any, index: number) => {
-            // Try different column name variations (expanded list)
-            const name = row.name || row.Name || row.restaurant_name || row.Restaurant || 
-                        row['Restaurant Name'] || row.business_name || row['Business Name'] || 
-                        row.title || row.Title || `Restaurant ${index + 1}`;
-            
-            const lat = parseFloat(
-              row.lat || row.latitude || row.Lat || row.Latitude || 
-              row.LAT || row.LATITUDE || row['latitude'] || row['Latitude'] ||
-              row.y || row.Y || row.coord_lat || row.lat_coord
-            );
-            
-            const lon = parseFloat(
-              row.lon || row.lng || row.longitude || row.Lon || row.Lng || 
-              row.Longitude || row.LON || row.LNG || row.LONGITUDE ||
-              row['longitude'] || row['Longitude'] || row.x || row.X || 
-              row.coord_lon || row.lng_coord || row.coord_lng
-            );
-            
-            const cuisine = row.cuisine || row.Cuisine || row.type || row.Type || 
-                          row.category || row.Category || row.food_type || row['Food Type'] ||
-                          row.cuisine_type || row['Cuisine Type'];
-            
-            const zone = row.zone || row.Zone || row.area || row.Area || 
-                        row.district || row.District || row.region || row.Region ||
-                        row.neighborhood || row.Neighborhood || row.borough || row.Borough;
-            
-            // Debug: Log coordinate extraction for first few rows
-            if (index < 3) {
-              console.log(`Row ${index + 1} coordinates: lat=${lat}, lon=${lon}`);
-              console.log(`Row ${index + 1} raw data:`, row);
-            }
-            
-            if (isNaN(lat) || isNaN(lon)) {
-              throw new Error(
-                `Invalid coordinates for row ${index + 1}: lat=${lat}, lon=${lon}. ` +
-                `Available columns: ${Object.keys(row).join(', ')}`
-              );
-            }
-            
-            return {
-              id: `restaurant-${index}`,
-              name: String(name),
-              lat,
-              lon,
-              cuisine: cuisine ? String(cuisine) : undefined,
-              zone: zone ? String(zone) : undefined
-            };
-          });
-          
-          console.log(`Successfully parsed ${restaurants.length} restaurants`);
-          resolve(restaurants);
-        } catch (error) {
-          console.error('CSV parsing error:', error);
-          reject(error);
+        const fields = (result.meta.fields ?? []).filter(field => field !== '');
+        if (!result.data || result.data.length === 0 || fields.length === 0) {
+          reject(new Error('No data found in CSV. Please check if the file contains valid restaurant data.'));
+          return;
         }
+
+        resolve({ fields, rows: result.data });
       },
       error: (error) => {
         console.error('Papa parse error:', error);
@@ -118,7 +69,43 @@ export function parseCSVData(csvText: string): Promise<Restaurant[]> {
   });
 }
 
-export async function fetchDataFromURL(url: string): Promise<Restaurant[]> {
+// Rows with unusable coordinates are reported as issues instead of failing the whole import.
+// The mapping's attribute types are expected to be resolved already (see withAttributeTypes).
+export function applyColumnMapping(table: RawTable, mapping: ColumnMapping): ImportResult {
+  if (!isMappingComplete(mapping)) {
+    throw new Error('Latitude and longitude columns, or an address column, must be mapped before importing.');
+  }
+
+  return validateRows(table, mapping);
+}
+
+export interface ParsedSource {
+  format: DataFormat;
+  tables: NamedTable[];
+}
+
+export async function parseSource(bytes: ArrayBuffer, fileName: string | null): Promise<ParsedSource> {
+  const format = detectFormat(fileName, bytes);
+
+  switch (format) {
+    case 'xlsx':
+      return { format, tables: parseWorkbookTables(bytes) };
+    case 'geojson':
+      return { format, tables: [{ name: 'Features', table: parseGeoJSONTable(new TextDecoder().decode(bytes)) }] };
+    case 'kml':
+      return { format, tables: [{ name: 'Placemarks', table: parseKMLTable(new TextDecoder().decode(bytes)) }] };
+    default: {
+      const text = new TextDecoder().decode(bytes);
+      // An HTML page means the URL points at a viewer rather than the data itself
+      if (text.includes('<!DOCTYPE html') || text.includes('<html')) {
+        throw new Error('Received HTML instead of data. Please check the URL and ensure it points to a CSV, GeoJSON, KML or Excel file, or a public Google Sheets document.');
+      }
+      return { format, tables: [{ name: 'Data', table: await parseCSVTable(text) }] };
+    }
+  }
+}
+
+export async function fetchSourceFromURL(url: string): Promise<ParsedSource> {
   try {
     // Validate URL format
     const validation = validateURL(url);
@@ -127,46 +114,58 @@ export async function fetchDataFromURL(url: string): Promise<Restaurant[]> {
     }
     
     // Convert Google Sheets URLs to CSV export format
-    const csvUrl = convertGoogleSheetsURL(url);
-    console.log('Original URL:', url);
-    console.log('CSV URL:', csvUrl);
+    const dataUrl = convertGoogleSheetsURL(url);
     
-    const response = await fetch(csvUrl);
+    const response = await fetch(dataUrl);
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
     }
     
-    const csvText = await response.text();
-    console.log('Response content type:', response.headers.get('content-type'));
-    
-    // Check if response is actually CSV
-    if (csvText.includes('<!DOCTYPE html') || csvText.includes('<html')) {
-      throw new Error('Received HTML instead of CSV. Please check the URL and ensure it points to a CSV file or public Google Sheets document.');
-    }
-    
-    return await parseCSVData(csvText);
+    return await parseSource(await response.arrayBuffer(), new URL(dataUrl).pathname);
   } catch (error) {
     throw new Error(`Failed to fetch data from URL: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+// Joins a URL and the sheet picked from it in a dataset's source
+export const SHEET_SEPARATOR = ' › ';
+
+// A fetch of a URL dataset: the rows that validated, the issues of the rest and the mapping used
+export interface SourceFetch {
+  result: ImportResult;
+  mapping: ColumnMapping;
+}
+
+// Fetches a URL dataset again the way it was imported: the same sheet, with its saved column
+// mapping or, when the columns have changed, the suggested one
+export async function fetchDataFromSource(sourceDetail: string): Promise<SourceFetch> {
+  const [url, sheetName] = sourceDetail.split(SHEET_SEPARATOR);
+  const { tables } = await fetchSourceFromURL(url);
+  const sheet = sheetName ? tables.find(table => table.name === sheetName) : tables[0];
+  if (!sheet) throw new Error(`The sheet "${sheetName}" is no longer in the source.`);
+
+  const { table } = sheet;
+  const mapping = withAttributeTypes(table, loadSavedMapping(sourceDetail, table.fields) ?? suggestColumnMapping(table.fields));
+  return { result: applyColumnMapping(table, mapping), mapping };
+}
+
 export function generateSampleData(): Restaurant[] {
   const sampleRestaurants: Restaurant[] = [
-    { id: 'r1', name: 'Mario\'s Italian Bistro', lat: 40.7589, lon: -73.9851, cuisine: 'Italian', zone: 'Manhattan' },
-    { id: 'r2', name: 'Sakura Sushi', lat: 40.7505, lon: -73.9934, cuisine: 'Japanese', zone: 'Manhattan' },
-    { id: 'r3', name: 'Le Petit Paris', lat: 40.7614, lon: -73.9776, cuisine: 'French', zone: 'Manhattan' },
-    { id: 'r4', name: 'Spice Route', lat: 40.7505, lon: -73.9934, cuisine: 'Indian', zone: 'Manhattan' },
-    { id: 'r5', name: 'Brooklyn Burger Co.', lat: 40.6892, lon: -73.9442, cuisine: 'American', zone: 'Brooklyn' },
-    { id: 'r6', name: 'Pasta Palace', lat: 40.7831, lon: -73.9712, cuisine: 'Italian', zone: 'Manhattan' },
-    { id: 'r7', name: 'Dragon Garden', lat: 40.7589, lon: -73.9851, cuisine: 'Chinese', zone: 'Manhattan' },
-    { id: 'r8', name: 'Taco Libre', lat: 40.6782, lon: -73.9442, cuisine: 'Mexican', zone: 'Brooklyn' },
-    { id: 'r9', name: 'Mediterranean Delight', lat: 40.7505, lon: -73.9934, cuisine: 'Mediterranean', zone: 'Manhattan' },
-    { id: 'r10', name: 'BBQ Masters', lat: 40.6892, lon: -73.9442, cuisine: 'American', zone: 'Brooklyn' },
-    { id: 'r11', name: 'Green Garden', lat: 40.7831, lon: -73.9712, cuisine: 'Vegetarian', zone: 'Manhattan' },
-    { id: 'r12', name: 'Ocean Breeze', lat: 40.7589, lon: -73.9851, cuisine: 'Seafood', zone: 'Manhattan' },
-    { id: 'r13', name: 'Curry House', lat: 40.6782, lon: -73.9442, cuisine: 'Indian', zone: 'Brooklyn' },
-    { id: 'r14', name: 'Pizza Corner', lat: 40.7505, lon: -73.9934, cuisine: 'Italian', zone: 'Manhattan' },
-    { id: 'r15', name: 'Golden Wok', lat: 40.6892, lon: -73.9442, cuisine: 'Chinese', zone: 'Brooklyn' }
+    { id: 'r1', name: 'Mario\'s Italian Bistro', lat: 40.7589, lon: -73.9851, cuisine: 'Italian', zone: 'Manhattan', attributes: { rating: 4.5, price_level: '$$', seats: 60, opened: '2015-03-12', monthly_revenue: 185000 } },
+    { id: 'r2', name: 'Sakura Sushi', lat: 40.7505, lon: -73.9934, cuisine: 'Japanese', zone: 'Manhattan', attributes: { rating: 4.7, price_level: '$$$', seats: 40, opened: '2018-06-01', monthly_revenue: 210000 } },
+    { id: 'r3', name: 'Le Petit Paris', lat: 40.7614, lon: -73.9776, cuisine: 'French', zone: 'Manhattan', attributes: { rating: 4.3, price_level: '$$$', seats: 35, opened: '2012-09-20', monthly_revenue: 160000 } },
+    { id: 'r4', name: 'Spice Route', lat: 40.7505, lon: -73.9934, cuisine: 'Indian', zone: 'Manhattan', attributes: { rating: 4.1, price_level: '$$', seats: 50, opened: '2019-02-14', monthly_revenue: 120000 } },
+    { id: 'r5', name: 'Brooklyn Burger Co.', lat: 40.6892, lon: -73.9442, cuisine: 'American', zone: 'Brooklyn', attributes: { rating: 4.0, price_level: '$', seats: 45, opened: '2020-07-08', monthly_revenue: 95000 } },
+    { id: 'r6', name: 'Pasta Palace', lat: 40.7831, lon: -73.9712, cuisine: 'Italian', zone: 'Manhattan', attributes: { rating: 3.9, price_level: '$$', seats: 80, opened: '2010-11-30', monthly_revenue: 175000 } },
+    { id: 'r7', name: 'Dragon Garden', lat: 40.7589, lon: -73.9851, cuisine: 'Chinese', zone: 'Manhattan', attributes: { rating: 4.2, price_level: '$$', seats: 70, opened: '2016-04-22', monthly_revenue: 140000 } },
+    { id: 'r8', name: 'Taco Libre', lat: 40.6782, lon: -73.9442, cuisine: 'Mexican', zone: 'Brooklyn', attributes: { rating: 4.4, price_level: '$', seats: 30, opened: '2021-05-17', monthly_revenue: 70000 } },
+    { id: 'r9', name: 'Mediterranean Delight', lat: 40.7505, lon: -73.9934, cuisine: 'Mediterranean', zone: 'Manhattan', attributes: { rating: 4.0, price_level: '$$', seats: 55, opened: '2017-08-03', monthly_revenue: 110000 } },
+    { id: 'r10', name: 'BBQ Masters', lat: 40.6892, lon: -73.9442, cuisine: 'American', zone: 'Brooklyn', attributes: { rating: 4.6, price_level: '$$', seats: 90, opened: '2014-10-10', monthly_revenue: 230000 } },
+    { id: 'r11', name: 'Green Garden', lat: 40.7831, lon: -73.9712, cuisine: 'Vegetarian', zone: 'Manhattan', attributes: { rating: 4.3, price_level: '$$', seats: 25, opened: '2022-01-25', monthly_revenue: 60000 } },
+    { id: 'r12', name: 'Ocean Breeze', lat: 40.7589, lon: -73.9851, cuisine: 'Seafood', zone: 'Manhattan', attributes: { rating: 4.5, price_level: '$$$', seats: 65, opened: '2013-12-05', monthly_revenue: 250000 } },
+    { id: 'r13', name: 'Curry House', lat: 40.6782, lon: -73.9442, cuisine: 'Indian', zone: 'Brooklyn', attributes: { rating: 3.8, price_level: '$', seats: 40, opened: '2019-09-09', monthly_revenue: 80000 } },
+    { id: 'r14', name: 'Pizza Corner', lat: 40.7505, lon: -73.9934, cuisine: 'Italian', zone: 'Manhattan', attributes: { rating: 4.1, price_level: '$', seats: 20, opened: '2011-06-18', monthly_revenue: 65000 } },
+    { id: 'r15', name: 'Golden Wok', lat: 40.6892, lon: -73.9442, cuisine: 'Chinese', zone: 'Brooklyn', attributes: { rating: 3.7, price_level: '$', seats: 50, opened: '2018-03-27', monthly_revenue: 90000 } }
   ];
   
   return sampleRestaurants;
@@ -0,0 +1,125 @@
+import { AttributeDefinition, Restaurant } from '@/types/restaurant';
+import { formatAttributeKey, formatAttributeValue, getAttributeValue } from '@/utils/attributes';
+import { COMPETITION_LABELS, COMPETITION_METRICS, formatCompetitionValue, getCompetitionValue } from '@/utils/competition';
+
+export type DataColumnType = 'text' | 'number' | 'date';
+export type CellValue = string | number | null;
+
+export interface DataColumn {
+  id: string;
+  label: string;
+  type: DataColumnType;
+  getValue: (restaurant: Restaurant) => CellValue;
+  format: (value: CellValue) => string;
+}
+
+const formatText = (value: CellValue) => (value === null || value === '' ? '—' : String(value));
+const formatCoordinate = (value: CellValue) => (typeof value === 'number' ? value.toFixed(5) : '—');
+
+// Every field of the rows: the core fields, the extra attributes and the competition metrics
+export function getDataColumns(restaurants: Restaurant[], attributes: AttributeDefinition[]): DataColumn[] {
+  const columns: DataColumn[] = [
+    { id: 'name', label: 'Name', type: 'text', getValue: r => r.name, format: formatText },
+    { id: 'cuisine', label: 'Cuisine', type: 'text', getValue: r => r.cuisine ?? null, format: formatText },
+    { id: 'zone', label: 'Zone', type: 'text', getValue: r => r.zone ?? null, format: formatText }
+  ];
+  if (restaurants.some(restaurant => restaurant.address)) {
+    columns.push({ id: 'address', label: 'Address', type: 'text', getValue: r => r.address ?? null, format: formatText });
+  }
+  columns.push(
+    { id: 'lat', label: 'Latitude', type: 'number', getValue: r => r.lat, format: formatCoordinate },
+    { id: 'lon', label: 'Longitude', type: 'number', getValue: r => r.lon, format: formatCoordinate }
+  );
+
+  attributes.forEach(attribute => {
+    columns.push({
+      id: `attribute:${attribute.key}`,
+      label: formatAttributeKey(attribute.key),
+      type: attribute.type === 'category' ? 'text' : attribute.type,
+      getValue: r => getAttributeValue(r, attribute.key),
+      format: formatAttributeValue
+    });
+  });
+
+  COMPETITION_METRICS.forEach(metric => {
+    columns.push({
+      id: `competition:${metric}`,
+      label: COMPETITION_LABELS[metric],
+      type: 'number',
+      getValue: r => getCompetitionValue(r, metric),
+      format: value => formatCompetitionValue(metric, value as number | null)
+    });
+  });
+
+  return columns;
+}
+
+const COMPARISON_PATTERN = /^(>=|<=|>|<|=)\s*(.+)$/;
+const RANGE_PATTERN = /^(.+?)\s*\.\.\s*(.+)$/;
+
+// Numbers compare as numbers; text and ISO dates compare as strings
+function compareValues(value: string | number, operand: string, type: DataColumnType): number | null {
+  if (type === 'number') {
+    const parsed = Number(operand);
+    return isNaN(parsed) || typeof value !== 'number' ? null : value - parsed;
+  }
+  return String(value).toLowerCase().localeCompare(operand.toLowerCase());
+}
+
+// A column filter is a comparison (">500", "<=4.5", "=Italian"), a range ("10..20",
+// "2018-01-01..2019-12-31"), or otherwise text the formatted value must contain
+export function matchesColumnFilter(value: CellValue, query: string, column: DataColumn): boolean {
+  const filter = query.trim();
+  if (filter === '') return true;
+
+  const comparison = filter.match(COMPARISON_PATTERN);
+  const range = filter.match(RANGE_PATTERN);
+  if (comparison && (column.type !== 'text' || comparison[1] === '=')) {
+    if (value === null) return false;
+    const difference = compareValues(value, comparison[2].trim(), column.type);
+    if (difference === null) return false;
+    switch (comparison[1]) {
+      case '>': return difference > 0;
+      case '>=': return difference >= 0;
+      case '<': return difference < 0;
+      case '<=': return difference <= 0;
+      default: return difference === 0;
+    }
+  }
+  if (range && column.type !== 'text') {
+    if (value === null) return false;
+    const lower = compareValues(value, range[1].trim(), column.type);
+    const upper = compareValues(value, range[2].trim(), column.type);
+    return lower !== null && upper !== null && lower >= 0 && upper <= 0;
+  }
+
+  return column.format(value).toLowerCase().includes(filter.toLowerCase());
+}
+
+export function filterRows(
+  restaurants: Restaurant[],
+  columns: DataColumn[],
+  columnFilters: Record<string, string>
+): Restaurant[] {
+  const active = columns.filter(column => columnFilters[column.id]?.trim());
+  if (active.length === 0) return restaurants;
+  return restaurants.filter(restaurant =>
+    active.every(column => matchesColumnFilter(column.getValue(restaurant), columnFilters[column.id], column))
+  );
+}
+
+// Empty values sort last in either direction
+export function sortRows(restaurants: Restaurant[], column: DataColumn, descending: boolean): Restaurant[] {
+  const direction = descending ? -1 : 1;
+  return [...restaurants].sort((a, b) => {
+    const left = column.getValue(a);
+    const right = column.getValue(b);
+    const leftEmpty = left === null || left === '';
+    const rightEmpty = right === null || right === '';
+    if (leftEmpty || rightEmpty) return leftEmpty === rightEmpty ? 0 : leftEmpty ? 1 : -1;
+    const order = typeof left === 'number' && typeof right === 'number'
+      ? left - right
+      : String(left).localeCompare(String(right), undefined, { numeric: true });
+    return order * direction;
+  });
+}
@@ -0,0 +1,196 @@
+import { Dataset, DatasetMeta, DatasetSource, Restaurant } from '@/types/restaurant';
+
+const DB_NAME = 'bistro-vista';
+const DB_VERSION = 2;
+const META_STORE = 'datasets';
+const ROWS_STORE = 'datasetRows';
+const SETTINGS_STORE = 'settings';
+const LAST_DATASET_KEY = 'bistro-vista:last-dataset';
+
+// Metadata and rows live in separate stores so the library list never loads full datasets;
+// app-wide settings too large for localStorage get a key-value store of their own
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(ROWS_STORE)) {
+        db.createObjectStore(ROWS_STORE);
+      }
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+        db.createObjectStore(SETTINGS_STORE);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new Error(`Failed to open dataset storage: ${request.error?.message}`));
+  });
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completeTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function listDatasets(): Promise<DatasetMeta[]> {
+  const db = await openDatabase();
+  const datasets = await promisifyRequest<DatasetMeta[]>(
+    db.transaction(META_STORE).objectStore(META_STORE).getAll()
+  );
+  db.close();
+  return datasets.sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+}
+
+export async function getDataset(id: string): Promise<Dataset | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction([META_STORE, ROWS_STORE]);
+  const [meta, restaurants] = await Promise.all([
+    promisifyRequest<DatasetMeta | undefined>(transaction.objectStore(META_STORE).get(id)),
+    promisifyRequest<Restaurant[] | undefined>(transaction.objectStore(ROWS_STORE).get(id))
+  ]);
+  db.close();
+
+  return meta && restaurants ? { ...meta, restaurants } : null;
+}
+
+async function putDataset(meta: DatasetMeta, restaurants: Restaurant[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([META_STORE, ROWS_STORE], 'readwrite');
+  transaction.objectStore(META_STORE).put(meta);
+  transaction.objectStore(ROWS_STORE).put(restaurants, meta.id);
+  await completeTransaction(transaction);
+  db.close();
+}
+
+export async function saveDataset(
+  restaurants: Restaurant[],
+  name: string,
+  source: DatasetSource,
+  sourceDetail?: string
+): Promise<Dataset> {
+  const meta: DatasetMeta = {
+    id: `dataset-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    source,
+    sourceDetail,
+    rowCount: restaurants.length,
+    importedAt: new Date().toISOString()
+  };
+  await putDataset(meta, restaurants);
+  return { ...meta, restaurants };
+}
+
+// Reads and rewrites a dataset's metadata inside one transaction, so concurrent updates to
+// different fields cannot overwrite each other; new rows, if given, are written in the same transaction
+async function updateDatasetMeta(
+  id: string,
+  update: (meta: DatasetMeta) => DatasetMeta,
+  restaurants?: Restaurant[]
+): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(restaurants ? [META_STORE, ROWS_STORE] : META_STORE, 'readwrite');
+  const metaStore = transaction.objectStore(META_STORE);
+  const request = metaStore.get(id) as IDBRequest<DatasetMeta | undefined>;
+  let found = false;
+
+  // The write is queued from the success callback, while the transaction is still active
+  request.onsuccess = () => {
+    if (!request.result) return;
+    found = true;
+    metaStore.put(update(request.result));
+    if (restaurants) {
+      transaction.objectStore(ROWS_STORE).put(restaurants, id);
+    }
+  };
+  await completeTransaction(transaction);
+  db.close();
+
+  if (!found) throw new Error('Dataset not found');
+}
+
+export function renameDataset(id: string, name: string): Promise<void> {
+  return updateDatasetMeta(id, meta => ({ ...meta, name }));
+}
+
+// Null turns automatic refreshing off
+export function setDatasetRefreshInterval(id: string, minutes: number | null): Promise<void> {
+  return updateDatasetMeta(id, meta => ({ ...meta, refreshMinutes: minutes ?? undefined }));
+}
+
+// Remembers source rows deleted or merged away in the app, so refreshes leave them out
+export function addDatasetRemovedRows(id: string, keys: string[]): Promise<void> {
+  return updateDatasetMeta(id, meta => ({
+    ...meta,
+    removedRows: Array.from(new Set([...(meta.removedRows ?? []), ...keys]))
+  }));
+}
+
+// Replaces the rows of a stored dataset after edits such as merging duplicates
+export function updateDatasetRows(id: string, restaurants: Restaurant[]): Promise<void> {
+  return updateDatasetMeta(id, meta => ({ ...meta, rowCount: restaurants.length }), restaurants);
+}
+
+export async function duplicateDataset(id: string): Promise<Dataset> {
+  const dataset = await getDataset(id);
+  if (!dataset) throw new Error('Dataset not found');
+
+  return saveDataset(dataset.restaurants, `${dataset.name} (copy)`, dataset.source, dataset.sourceDetail);
+}
+
+export async function deleteDataset(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([META_STORE, ROWS_STORE], 'readwrite');
+  transaction.objectStore(META_STORE).delete(id);
+  transaction.objectStore(ROWS_STORE).delete(id);
+  await completeTransaction(transaction);
+  db.close();
+
+  if (getLastDatasetId() === id) setLastDatasetId(null);
+}
+
+export async function getSetting<T>(key: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  const value = await promisifyRequest<T | undefined>(db.transaction(SETTINGS_STORE).objectStore(SETTINGS_STORE).get(key));
+  db.close();
+  return value;
+}
+
+// Null removes the setting
+export async function putSetting(key: string, value: unknown): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SETTINGS_STORE, 'readwrite');
+  if (value === null) {
+    transaction.objectStore(SETTINGS_STORE).delete(key);
+  } else {
+    transaction.objectStore(SETTINGS_STORE).put(value, key);
+  }
+  await completeTransaction(transaction);
+  db.close();
+}
+
+// The last opened dataset is reopened automatically after a page refresh
+export function getLastDatasetId(): string | null {
+  return localStorage.getItem(LAST_DATASET_KEY);
+}
+
+export function setLastDatasetId(id: string | null) {
+  if (id) {
+    localStorage.setItem(LAST_DATASET_KEY, id);
+  } else {
+    localStorage.removeItem(LAST_DATASET_KEY);
+  }
+}
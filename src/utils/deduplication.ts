@@ -0,0 +1,185 @@
+import {
+  AttributeValue,
+  DeduplicationOptions,
+  DuplicateGroup,
+  DuplicateMerge,
+  Restaurant
+} from '@/types/restaurant';
+import { haversineDistance } from '@/utils/geo';
+import { createSpatialIndex } from '@/utils/spatialIndex';
+import { trackLocalEdits } from '@/utils/editing';
+
+export const DEFAULT_DEDUPLICATION_OPTIONS: DeduplicationOptions = {
+  maxDistanceMeters: 50,
+  minNameSimilarity: 0.7
+};
+
+// Words that say nothing about which venue a name refers to
+const FILLER_TOKENS = new Set(['the', 'and', 'restaurant', 'inc', 'llc', 'ltd', 'co']);
+
+function nameTokens(name: string): string[] {
+  const tokens = name
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  const meaningful = tokens.filter(token => !FILLER_TOKENS.has(token));
+  return meaningful.length > 0 ? meaningful : tokens;
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2);
+    counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function bigramDice(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const left = bigrams(a);
+  const right = bigrams(b);
+  let shared = 0;
+  left.forEach((count, bigram) => {
+    shared += Math.min(count, right.get(bigram) ?? 0);
+  });
+  return (2 * shared) / (a.length - 1 + b.length - 1);
+}
+
+// 0–1 similarity of two names: whichever is higher of the shared-word score, which ignores
+// word order ("Wok Golden" vs "Golden Wok"), and the character-pair score, which tolerates
+// typos and spacing ("Marios Bistro" vs "Mario's Bistro")
+export function nameSimilarity(a: string, b: string): number {
+  const left = nameTokens(a);
+  const right = nameTokens(b);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const rightSet = new Set(right);
+  const leftSet = new Set(left);
+  const sharedTokens = Array.from(leftSet).filter(token => rightSet.has(token)).length;
+  const tokenDice = (2 * sharedTokens) / (leftSet.size + rightSet.size);
+
+  return Math.max(tokenDice, bigramDice(left.join(''), right.join('')));
+}
+
+// Fields a record has filled in; the most complete record of a group is suggested as survivor
+function completeness(restaurant: Restaurant): number {
+  const attributes = Object.values(restaurant.attributes ?? {}).filter(value => value !== null && value !== '');
+  return [restaurant.cuisine, restaurant.zone, restaurant.address].filter(Boolean).length + attributes.length;
+}
+
+// Groups of records that are probably the same venue. Two records are paired when they lie
+// within the distance threshold and their names are similar enough; pairs that share a record
+// are chained into one group. Different venues at the same coordinates (food halls, addresses
+// geocoded to the same building) are left apart unless their names match.
+export function findDuplicateGroups(restaurants: Restaurant[], options: DeduplicationOptions): DuplicateGroup[] {
+  const index = createSpatialIndex(restaurants.map((restaurant, position) => ({
+    lat: restaurant.lat,
+    lon: restaurant.lon,
+    position
+  })));
+
+  const parent = restaurants.map((_, position) => position);
+  const find = (position: number): number => {
+    while (parent[position] !== position) {
+      parent[position] = parent[parent[position]];
+      position = parent[position];
+    }
+    return position;
+  };
+
+  const links: { a: number; b: number; similarity: number; distance: number }[] = [];
+  restaurants.forEach((restaurant, a) => {
+    const center: [number, number] = [restaurant.lat, restaurant.lon];
+    index.withinRadius(center, options.maxDistanceMeters).forEach(({ position: b }) => {
+      if (b <= a) return;
+      const similarity = nameSimilarity(restaurant.name, restaurants[b].name);
+      if (similarity < options.minNameSimilarity) return;
+
+      links.push({ a, b, similarity, distance: haversineDistance(center, [restaurants[b].lat, restaurants[b].lon]) });
+      parent[find(a)] = find(b);
+    });
+  });
+
+  const groups = new Map<number, { members: number[]; similarity: number; maxDistance: number }>();
+  restaurants.forEach((_, position) => {
+    const root = find(position);
+    if (!groups.has(root)) groups.set(root, { members: [], similarity: 1, maxDistance: 0 });
+    groups.get(root)!.members.push(position);
+  });
+  links.forEach(link => {
+    const group = groups.get(find(link.a))!;
+    group.similarity = Math.min(group.similarity, link.similarity);
+    group.maxDistance = Math.max(group.maxDistance, link.distance);
+  });
+
+  return Array.from(groups.values())
+    .filter(group => group.members.length > 1)
+    .map(group => {
+      const members = group.members.map(position => restaurants[position]);
+      const survivor = members.reduce((best, restaurant) =>
+        completeness(restaurant) > completeness(best) ? restaurant : best
+      );
+      return {
+        id: `duplicates-${members[0].id}`,
+        restaurants: members,
+        similarity: group.similarity,
+        maxDistanceMeters: group.maxDistance,
+        suggestedSurvivorId: survivor.id
+      };
+    })
+    .sort((a, b) => b.similarity - a.similarity || a.maxDistanceMeters - b.maxDistanceMeters);
+}
+
+const isEmpty = (value: AttributeValue | undefined) => value === null || value === undefined || value === '';
+
+// The survivor keeps its own values; anything it lacks is taken from the duplicates in order.
+// Filled-in cuisines and zones count as edits made in the app.
+export function mergeRestaurants(survivor: Restaurant, duplicates: Restaurant[]): Restaurant {
+  const merged: Restaurant = { ...survivor, attributes: survivor.attributes ? { ...survivor.attributes } : undefined };
+
+  duplicates.forEach(duplicate => {
+    merged.cuisine = merged.cuisine || duplicate.cuisine;
+    merged.zone = merged.zone || duplicate.zone;
+    merged.address = merged.address || duplicate.address;
+
+    Object.entries(duplicate.attributes ?? {}).forEach(([key, value]) => {
+      if (isEmpty(value)) return;
+      merged.attributes = merged.attributes ?? {};
+      if (isEmpty(merged.attributes[key])) merged.attributes[key] = value;
+    });
+  });
+
+  return trackLocalEdits(survivor, merged);
+}
+
+// Replaces every survivor with its merged record and drops the duplicates, keeping the
+// order of the remaining records
+export function applyMerges(
+  restaurants: Restaurant[],
+  merges: DuplicateMerge[]
+): { restaurants: Restaurant[]; removed: number } {
+  const byId = new Map(restaurants.map(restaurant => [restaurant.id, restaurant]));
+  const merged = new Map<string, Restaurant>();
+  const removedIds = new Set<string>();
+
+  merges.forEach(({ survivorId, duplicateIds }) => {
+    const survivor = byId.get(survivorId);
+    if (!survivor) return;
+    const duplicates = duplicateIds.filter(id => id !== survivorId && byId.has(id)).map(id => byId.get(id)!);
+    merged.set(survivorId, mergeRestaurants(survivor, duplicates));
+    duplicates.forEach(duplicate => removedIds.add(duplicate.id));
+  });
+
+  const remaining = restaurants
+    .filter(restaurant => !removedIds.has(restaurant.id))
+    .map(restaurant => merged.get(restaurant.id) ?? restaurant);
+
+  return { restaurants: remaining, removed: restaurants.length - remaining.length };
+}
@@ -0,0 +1,338 @@
+import { Restaurant, ClusteringResult, DensityClusteringOptions } from '@/types/restaurant';
+import { haversineDistance, sphericalMean } from '@/utils/geo';
+import { buildClusters, NOISE_CLUSTER_ID } from '@/utils/clustering';
+import { createSpatialIndex, SpatialIndex } from '@/utils/spatialIndex';
+
+export const DEFAULT_DENSITY_OPTIONS: DensityClusteringOptions = {
+  epsMeters: 500,
+  minPts: 3
+};
+
+// Ranges offered by the dashboard sliders
+export const MIN_EPS_METERS = 50;
+export const MAX_EPS_METERS = 5000;
+export const MIN_MIN_PTS = 2;
+export const MAX_MIN_PTS = 20;
+
+// Neighbors fetched per spatial index query while looking for a point's nearest other component;
+// the query is repeated with twice as many until no farther point can be closer
+const NEIGHBOR_BATCH = 16;
+
+// HDBSCAN runs on the main thread; above this many restaurants the dashboard uses DBSCAN instead
+export const HDBSCAN_MAX_ROWS = 10000;
+
+// Smallest distance used when converting distances to HDBSCAN lambdas (1 / distance),
+// so restaurants at identical coordinates do not produce infinite stabilities
+const MIN_DISTANCE_METERS = 1e-3;
+
+// DBSCAN: a restaurant with at least minPts restaurants (itself included) within epsMeters
+// is a core point; clusters grow through chains of core points, and anything not reachable
+// from a core point is noise.
+export function dbscanCluster(
+  restaurants: Restaurant[],
+  options: DensityClusteringOptions = DEFAULT_DENSITY_OPTIONS
+): ClusteringResult {
+  // A point always counts itself, so anything below 1 means the same as 1
+  const minPts = Math.max(1, options.minPts);
+  const points = restaurants.map(r => [r.lat, r.lon] as [number, number]);
+  const UNVISITED = -2;
+  const labels: number[] = new Array(points.length).fill(UNVISITED);
+  const index = createSpatialIndex(points.map(([lat, lon], i) => ({ lat, lon, i })));
+
+  const regionQuery = (i: number) => index.withinRadius(points[i], options.epsMeters).map(item => item.i);
+
+  let clusterCount = 0;
+  for (let i = 0; i < points.length; i++) {
+    if (labels[i] !== UNVISITED) continue;
+
+    const neighbors = regionQuery(i);
+    if (neighbors.length < minPts) {
+      labels[i] = NOISE_CLUSTER_ID;
+      continue;
+    }
+
+    const cluster = clusterCount++;
+    labels[i] = cluster;
+
+    // Points are labelled when queued, so each is queued once; only core points expand further
+    const queue = [i];
+    for (let head = 0; head < queue.length; head++) {
+      const currentNeighbors = head === 0 ? neighbors : regionQuery(queue[head]);
+      if (currentNeighbors.length < minPts) continue;
+
+      for (const neighbor of currentNeighbors) {
+        // Noise reached from a core point becomes a border point; it is not a core point itself
+        if (labels[neighbor] === NOISE_CLUSTER_ID) labels[neighbor] = cluster;
+        if (labels[neighbor] !== UNVISITED) continue;
+        labels[neighbor] = cluster;
+        queue.push(neighbor);
+      }
+    }
+  }
+
+  return labelsToResult(restaurants, labels, clusterCount);
+}
+
+interface TreeEdge {
+  from: number;
+  to: number;
+  distance: number;
+}
+
+interface LinkageNode {
+  left: number;
+  right: number;
+  distance: number;
+  size: number;
+}
+
+interface CondensedCluster {
+  parent: number;
+  birthLambda: number;
+  stability: number;
+  children: number[];
+}
+
+// HDBSCAN: builds the minimum spanning tree of the mutual reachability graph (core distance
+// from the minPts-th nearest neighbor), condenses the single-linkage hierarchy with
+// minPts as the minimum cluster size, and keeps the clusters with the highest stability.
+// Unlike DBSCAN it needs no eps and finds clusters of varying density.
+export function hdbscanCluster(
+  restaurants: Restaurant[],
+  minPtsOption: number = DEFAULT_DENSITY_OPTIONS.minPts
+): ClusteringResult {
+  // The core distance needs at least one neighbor (the point itself)
+  const minPts = Math.max(1, Math.round(minPtsOption));
+  const n = restaurants.length;
+  const minClusterSize = Math.max(2, minPts);
+  if (n < minClusterSize) {
+    return labelsToResult(restaurants, new Array(n).fill(NOISE_CLUSTER_ID), 0);
+  }
+
+  const points = restaurants.map(r => [r.lat, r.lon] as [number, number]);
+  const index = createSpatialIndex(points.map(([lat, lon], i) => ({ lat, lon, i })));
+
+  // Core distance: distance to the minPts-th nearest point, counting the point itself
+  const coreDistances = points.map(point => {
+    const neighbors = index.nearest(point, Math.min(minPts, n));
+    return neighbors[neighbors.length - 1].distance;
+  });
+
+  const edges = mutualReachabilityTree(points, coreDistances, index);
+
+  // Single-linkage hierarchy: leaves are 0..n-1, merge node m is stored at index m - n
+  edges.sort((a, b) => a.distance - b.distance);
+  const parent = Array.from({ length: 2 * n - 1 }, (_, i) => i);
+  const find = (x: number): number => {
+    while (parent[x] !== x) {
+      parent[x] = parent[parent[x]];
+      x = parent[x];
+    }
+    return x;
+  };
+
+  const linkage: LinkageNode[] = [];
+  const sizeOf = (node: number) => (node < n ? 1 : linkage[node - n].size);
+  for (const edge of edges) {
+    const left = find(edge.from);
+    const right = find(edge.to);
+    const node = n + linkage.length;
+    linkage.push({ left, right, distance: edge.distance, size: sizeOf(left) + sizeOf(right) });
+    parent[left] = node;
+    parent[right] = node;
+  }
+
+  const leavesOf = (node: number) => {
+    const leaves: number[] = [];
+    const stack = [node];
+    while (stack.length > 0) {
+      const item = stack.pop()!;
+      if (item < n) {
+        leaves.push(item);
+      } else {
+        stack.push(linkage[item - n].left, linkage[item - n].right);
+      }
+    }
+    return leaves;
+  };
+
+  // Condense the hierarchy: a split only creates new clusters when both sides are large enough,
+  // otherwise the smaller side "falls out" of the surviving cluster
+  const condensed: CondensedCluster[] = [{ parent: -1, birthLambda: 0, stability: 0, children: [] }];
+  const pointCluster: number[] = new Array(n).fill(0);
+  const stack: [number, number][] = [[2 * n - 2, 0]];
+
+  while (stack.length > 0) {
+    const [node, clusterId] = stack.pop()!;
+    const { left, right, distance: mergeDistance } = linkage[node - n];
+    const lambda = 1 / Math.max(mergeDistance, MIN_DISTANCE_METERS);
+    const cluster = condensed[clusterId];
+
+    if (sizeOf(left) >= minClusterSize && sizeOf(right) >= minClusterSize) {
+      for (const child of [left, right]) {
+        cluster.stability += (lambda - cluster.birthLambda) * sizeOf(child);
+        const childId = condensed.length;
+        condensed.push({ parent: clusterId, birthLambda: lambda, stability: 0, children: [] });
+        cluster.children.push(childId);
+        stack.push([child, childId]);
+      }
+      continue;
+    }
+
+    for (const child of [left, right]) {
+      if (sizeOf(child) >= minClusterSize) {
+        stack.push([child, clusterId]);
+      } else {
+        for (const leaf of leavesOf(child)) {
+          pointCluster[leaf] = clusterId;
+          cluster.stability += lambda - cluster.birthLambda;
+        }
+      }
+    }
+  }
+
+  // Excess-of-mass selection, bottom-up; children are always created after their parent
+  const selected = new Array(condensed.length).fill(false);
+  const subtreeStability = new Array(condensed.length).fill(0);
+  for (let id = condensed.length - 1; id > 0; id--) {
+    const cluster = condensed[id];
+    const childStability = cluster.children.reduce((sum, child) => sum + subtreeStability[child], 0);
+
+    if (cluster.children.length === 0 || cluster.stability >= childStability) {
+      selected[id] = true;
+      subtreeStability[id] = cluster.stability;
+      const descendants = [...cluster.children];
+      while (descendants.length > 0) {
+        const descendant = descendants.pop()!;
+        selected[descendant] = false;
+        descendants.push(...condensed[descendant].children);
+      }
+    } else {
+      subtreeStability[id] = childStability;
+    }
+  }
+
+  const clusterIndex = new Map<number, number>();
+  selected.forEach((isSelected, id) => {
+    if (isSelected) clusterIndex.set(id, clusterIndex.size);
+  });
+
+  const labels = pointCluster.map(clusterId => {
+    let id = clusterId;
+    while (id > 0 && !selected[id]) id = condensed[id].parent;
+    return id > 0 ? clusterIndex.get(id)! : NOISE_CLUSTER_ID;
+  });
+
+  return labelsToResult(restaurants, labels, clusterIndex.size);
+}
+
+// Minimum spanning tree of the mutual reachability graph by Borůvka's algorithm: each round
+// links every component to its nearest other component. The mutual reachability distance is
+// never below the plain distance, so nearest-neighbor queries on the spatial index find each
+// link without building the dense graph.
+function mutualReachabilityTree(
+  points: [number, number][],
+  coreDistances: number[],
+  index: SpatialIndex<{ lat: number; lon: number; i: number }>
+): TreeEdge[] {
+  const n = points.length;
+  const parent = Array.from({ length: n }, (_, i) => i);
+  const find = (x: number): number => {
+    while (parent[x] !== x) {
+      parent[x] = parent[parent[x]];
+      x = parent[x];
+    }
+    return x;
+  };
+
+  // Each point's shortest link to another component found so far, and a lower bound on its next
+  // one. Components only grow, so links only get longer, and a link stays the shortest while its
+  // far end is still outside.
+  const known: (TreeEdge | undefined)[] = new Array(n);
+  const lowerBound = Float64Array.from(coreDistances);
+
+  const edges: TreeEdge[] = [];
+  while (edges.length < n - 1) {
+    const componentOf = points.map((_, i) => find(i));
+    const sizes = new Map<number, number>();
+    componentOf.forEach(component => sizes.set(component, (sizes.get(component) ?? 0) + 1));
+    // Every other component still links to something, so the largest one can be left out of the
+    // round; searching out of it would wade through most of the points
+    let largest = componentOf[0];
+    sizes.forEach((size, component) => {
+      if (size > sizes.get(largest)!) largest = component;
+    });
+
+    // Links still leading out of their component need no search and cap every other search
+    const shortest = new Map<number, TreeEdge>();
+    const stale: number[] = [];
+    points.forEach((_, a) => {
+      const own = componentOf[a];
+      if (own === largest) return;
+      const link = known[a];
+      if (!link || componentOf[link.to] === own) {
+        stale.push(a);
+      } else if (!shortest.has(own) || link.distance < shortest.get(own)!.distance) {
+        shortest.set(own, link);
+      }
+    });
+
+    stale.sort((a, b) => lowerBound[a] - lowerBound[b]);
+    for (const a of stale) {
+      const own = componentOf[a];
+      const limit = shortest.get(own)?.distance ?? Infinity;
+      if (lowerBound[a] >= limit) continue;
+
+      let best: TreeEdge | undefined;
+      for (let k = NEIGHBOR_BATCH; ; k *= 2) {
+        const neighbors = index.nearest(points[a], k, item => componentOf[item.i] !== own, limit);
+        let found: TreeEdge | undefined;
+        for (const { item, distance } of neighbors) {
+          const reachability = Math.max(coreDistances[a], coreDistances[item.i], distance);
+          if (!found || reachability < found.distance) found = { from: a, to: item.i, distance: reachability };
+        }
+        // Farther points are no closer once the last one returned is beyond the best link found
+        if (neighbors.length === k && neighbors[k - 1].distance < found!.distance) continue;
+        // Past the limit a shorter link may have been left out, but none beats the current one
+        if (found && found.distance <= limit) best = found;
+        break;
+      }
+
+      if (!best) {
+        lowerBound[a] = limit;
+        continue;
+      }
+      known[a] = best;
+      lowerBound[a] = best.distance;
+      shortest.set(own, best);
+    }
+
+    shortest.forEach(edge => {
+      const from = find(edge.from);
+      const to = find(edge.to);
+      // Two components can pick the same link, or links of equal length that would close a cycle
+      if (from === to) return;
+      parent[from] = to;
+      edges.push(edge);
+    });
+  }
+
+  return edges;
+}
+
+function labelsToResult(restaurants: Restaurant[], labels: number[], clusterCount: number): ClusteringResult {
+  const centroids = Array.from({ length: clusterCount }, (_, cluster) =>
+    sphericalMean(
+      restaurants
+        .filter((_, idx) => labels[idx] === cluster)
+        .map(r => [r.lat, r.lon] as [number, number])
+    )
+  );
+
+  return {
+    clusters: buildClusters(restaurants, centroids, labels),
+    noise: restaurants
+      .filter((_, idx) => labels[idx] === NOISE_CLUSTER_ID)
+      .map(restaurant => ({ ...restaurant, cluster: NOISE_CLUSTER_ID }))
+  };
+}
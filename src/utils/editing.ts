@@ -0,0 +1,223 @@
+import { DatasetChange, DatasetDiff, DatasetEdit, DuplicateMerge, LocalEdits, Restaurant } from '@/types/restaurant';
+
+export type EditableField = 'name' | 'cuisine' | 'zone';
+
+export const EDITABLE_FIELDS: EditableField[] = ['name', 'cuisine', 'zone'];
+
+// Restaurants added in the app have no source row
+const ADDED_ID_PREFIX = 'restaurant-added-';
+
+export const isAddedInApp = (restaurant: Restaurant) => restaurant.id.startsWith(ADDED_ID_PREFIX);
+
+// A field's value in the source, before any edit made in the app
+export const sourceValue = (restaurant: Restaurant, field: EditableField): string =>
+  restaurant.localEdits?.[field] ?? restaurant[field] ?? '';
+
+export const sourcePosition = (restaurant: Restaurant): [number, number] =>
+  restaurant.localEdits?.position ?? [restaurant.lat, restaurant.lon];
+
+// Records the source's value of every field that now differs from it, and forgets fields whose
+// value is back to the source's
+export function trackLocalEdits(original: Restaurant, updated: Restaurant): Restaurant {
+  const { localEdits: _previous, ...rest } = updated;
+  if (isAddedInApp(original)) return rest;
+
+  const edits: LocalEdits = {};
+  EDITABLE_FIELDS.forEach(field => {
+    const source = sourceValue(original, field);
+    if ((updated[field] ?? '') !== source) edits[field] = source;
+  });
+  const [lat, lon] = sourcePosition(original);
+  if (updated.lat !== lat || updated.lon !== lon) edits.position = [lat, lon];
+
+  return Object.keys(edits).length > 0 ? { ...rest, localEdits: edits } : rest;
+}
+
+const FIELD_LABELS: Record<EditableField, string> = {
+  name: 'Name',
+  cuisine: 'Cuisine',
+  zone: 'Zone'
+};
+
+export const CHANGE_TYPE_LABELS: Record<DatasetChange['type'], string> = {
+  add: 'Added',
+  edit: 'Edited',
+  move: 'Moved',
+  delete: 'Deleted',
+  merge: 'Merged'
+};
+
+// The dataset after an edit, and the edit as recorded in the history
+export interface EditResult {
+  restaurants: Restaurant[];
+  edit: DatasetEdit;
+}
+
+const formatPosition = (lat: number, lon: number) => `${lat.toFixed(6)}, ${lon.toFixed(6)}`;
+
+const createEdit = (label: string, changes: DatasetChange[]): DatasetEdit => ({
+  label,
+  changes,
+  at: new Date().toISOString()
+});
+
+export const isEditableField = (field: string): field is EditableField =>
+  (EDITABLE_FIELDS as string[]).includes(field);
+
+// Null when nothing changes. Names are required; a blank cuisine or zone clears it.
+export function updateRestaurantField(
+  restaurants: Restaurant[],
+  id: string,
+  field: EditableField,
+  value: string
+): EditResult | null {
+  const restaurant = restaurants.find(candidate => candidate.id === id);
+  const next = value.trim();
+  if (!restaurant || (field === 'name' && next === '')) return null;
+
+  const before = restaurant[field] ?? '';
+  if (before === next) return null;
+
+  const updated = trackLocalEdits(restaurant, { ...restaurant, [field]: next === '' ? undefined : next });
+  return {
+    restaurants: restaurants.map(candidate => (candidate.id === id ? updated : candidate)),
+    edit: createEdit(`Edit ${FIELD_LABELS[field].toLowerCase()} of ${restaurant.name}`, [{
+      type: 'edit',
+      restaurantId: id,
+      restaurantName: updated.name,
+      field: FIELD_LABELS[field],
+      before,
+      after: next
+    }])
+  };
+}
+
+export function moveRestaurant(
+  restaurants: Restaurant[],
+  id: string,
+  [lat, lon]: [number, number]
+): EditResult | null {
+  const restaurant = restaurants.find(candidate => candidate.id === id);
+  if (!restaurant || (restaurant.lat === lat && restaurant.lon === lon)) return null;
+
+  return {
+    restaurants: restaurants.map(candidate =>
+      candidate.id === id ? trackLocalEdits(candidate, { ...candidate, lat, lon }) : candidate),
+    edit: createEdit(`Move ${restaurant.name}`, [{
+      type: 'move',
+      restaurantId: id,
+      restaurantName: restaurant.name,
+      field: 'Position',
+      before: formatPosition(restaurant.lat, restaurant.lon),
+      after: formatPosition(lat, lon)
+    }])
+  };
+}
+
+export function addRestaurant(
+  restaurants: Restaurant[],
+  [lat, lon]: [number, number],
+  name = 'New restaurant'
+): EditResult & { restaurant: Restaurant } {
+  const restaurant: Restaurant = {
+    id: `${ADDED_ID_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    lat,
+    lon
+  };
+  return {
+    restaurant,
+    restaurants: [...restaurants, restaurant],
+    edit: createEdit(`Add ${name}`, [{
+      type: 'add',
+      restaurantId: restaurant.id,
+      restaurantName: name,
+      field: 'Position',
+      after: formatPosition(lat, lon)
+    }])
+  };
+}
+
+export function deleteRestaurant(restaurants: Restaurant[], id: string): EditResult | null {
+  const restaurant = restaurants.find(candidate => candidate.id === id);
+  if (!restaurant) return null;
+
+  return {
+    restaurants: restaurants.filter(candidate => candidate.id !== id),
+    edit: createEdit(`Delete ${restaurant.name}`, [{
+      type: 'delete',
+      restaurantId: id,
+      restaurantName: restaurant.name
+    }])
+  };
+}
+
+// One change per duplicate folded into its survivor, described before the merge is applied
+export function describeMerges(restaurants: Restaurant[], merges: DuplicateMerge[]): DatasetEdit {
+  const byId = new Map(restaurants.map(restaurant => [restaurant.id, restaurant]));
+  const changes = merges.flatMap(({ survivorId, duplicateIds }) => {
+    const survivor = byId.get(survivorId);
+    if (!survivor) return [];
+    return duplicateIds
+      .filter(id => id !== survivorId && byId.has(id))
+      .map(id => ({
+        type: 'merge' as const,
+        restaurantId: id,
+        restaurantName: byId.get(id)!.name,
+        after: survivor.name
+      }));
+  });
+  return createEdit(`Merge ${merges.length} duplicate groups`, changes);
+}
+
+// A refresh from a live source as one step, so it can be undone like any other edit
+export function describeDiff(diff: DatasetDiff): DatasetEdit {
+  const changes: DatasetChange[] = [
+    ...diff.added.map(restaurant => ({
+      type: 'add' as const,
+      restaurantId: restaurant.id,
+      restaurantName: restaurant.name,
+      field: 'Position',
+      after: formatPosition(restaurant.lat, restaurant.lon)
+    })),
+    ...diff.removed.map(restaurant => ({
+      type: 'delete' as const,
+      restaurantId: restaurant.id,
+      restaurantName: restaurant.name
+    })),
+    ...diff.moved.map(({ restaurant, previous }) => ({
+      type: 'move' as const,
+      restaurantId: restaurant.id,
+      restaurantName: restaurant.name,
+      field: 'Position',
+      before: formatPosition(previous.lat, previous.lon),
+      after: formatPosition(restaurant.lat, restaurant.lon)
+    })),
+    ...diff.recategorized.map(({ restaurant, previous }) => ({
+      type: 'edit' as const,
+      restaurantId: restaurant.id,
+      restaurantName: restaurant.name,
+      field: FIELD_LABELS.cuisine,
+      before: previous.cuisine ?? '',
+      after: restaurant.cuisine ?? ''
+    }))
+  ];
+  return createEdit('Refresh from source', changes);
+}
+
+export type ChangeLogRow = Record<'time' | 'change' | 'restaurant' | 'restaurantId' | 'field' | 'before' | 'after', string>;
+
+// Oldest first, one row per changed restaurant
+export function buildChangeLogRows(edits: DatasetEdit[]): ChangeLogRow[] {
+  return edits.flatMap(edit =>
+    edit.changes.map(change => ({
+      time: edit.at,
+      change: CHANGE_TYPE_LABELS[change.type],
+      restaurant: change.restaurantName,
+      restaurantId: change.restaurantId,
+      field: change.field ?? '',
+      before: change.before ?? '',
+      after: change.after ?? ''
+    }))
+  );
+}
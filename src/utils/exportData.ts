@@ -0,0 +1,195 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import {
+  AttributeDefinition,
+  AttributeValue,
+  ClusteringResult,
+  DatasetEdit,
+  FacetField,
+  Restaurant
+} from '@/types/restaurant';
+import { getNumericAttributeValue } from '@/utils/attributes';
+import { buildChangeLogRows } from '@/utils/editing';
+
+// Cluster number per restaurant id, numbered from 1 like the dashboard; noise and
+// unclustered restaurants have no entry
+export function getClusterAssignments(clustering: ClusteringResult): Map<string, number> {
+  const assignments = new Map<string, number>();
+  clustering.clusters.forEach(cluster => {
+    cluster.restaurants.forEach(restaurant => assignments.set(restaurant.id, cluster.id + 1));
+  });
+  return assignments;
+}
+
+type ExportRow = Record<string, string | number | null>;
+
+// Core fields first, then the cluster, then every extra attribute in schema order. Attribute
+// keys that clash with a core column are left out rather than overwriting it.
+function buildExportRows(
+  restaurants: Restaurant[],
+  assignments: Map<string, number>,
+  attributes: AttributeDefinition[]
+): ExportRow[] {
+  return restaurants.map(restaurant => {
+    const row: ExportRow = {
+      name: restaurant.name,
+      lat: restaurant.lat,
+      lon: restaurant.lon,
+      cuisine: restaurant.cuisine ?? null,
+      zone: restaurant.zone ?? null,
+      address: restaurant.address ?? null,
+      cluster: assignments.get(restaurant.id) ?? null
+    };
+    attributes.forEach(({ key }) => {
+      if (!(key in row)) row[key] = restaurant.attributes?.[key] ?? null;
+    });
+    return row;
+  });
+}
+
+export function buildRestaurantsCSV(
+  restaurants: Restaurant[],
+  assignments: Map<string, number>,
+  attributes: AttributeDefinition[]
+): string {
+  const rows = buildExportRows(restaurants, assignments, attributes);
+  const fields = ['name', 'lat', 'lon', 'cuisine', 'zone', 'address', 'cluster', ...attributes.map(a => a.key)];
+  return Papa.unparse(rows, { columns: Array.from(new Set(fields)) });
+}
+
+export function buildRestaurantsGeoJSON(
+  restaurants: Restaurant[],
+  assignments: Map<string, number>,
+  attributes: AttributeDefinition[]
+): string {
+  const rows = buildExportRows(restaurants, assignments, attributes);
+  const collection = {
+    type: 'FeatureCollection',
+    features: restaurants.map((restaurant, i) => {
+      const { lat, lon, ...properties } = rows[i];
+      return {
+        type: 'Feature',
+        id: restaurant.id,
+        geometry: { type: 'Point', coordinates: [lon, lat] },
+        properties
+      };
+    })
+  };
+  return JSON.stringify(collection, null, 2);
+}
+
+export interface GroupStats {
+  name: string;
+  restaurants: number;
+  share: number;
+  clusters: number;
+  averages: Record<string, number | null>;
+}
+
+// Per-cuisine or per-zone counts, share of the total, how many clusters the group spans and
+// the mean of every numeric attribute
+export function buildGroupStats(
+  restaurants: Restaurant[],
+  field: FacetField,
+  assignments: Map<string, number>,
+  attributes: AttributeDefinition[]
+): GroupStats[] {
+  const groups = new Map<string, Restaurant[]>();
+  restaurants.forEach(restaurant => {
+    const name = restaurant[field] || 'Unknown';
+    const group = groups.get(name);
+    if (group) {
+      group.push(restaurant);
+    } else {
+      groups.set(name, [restaurant]);
+    }
+  });
+
+  const numericKeys = attributes.filter(a => a.type === 'number').map(a => a.key);
+
+  return Array.from(groups.entries())
+    .map(([name, members]) => {
+      const averages: Record<string, number | null> = {};
+      numericKeys.forEach(key => {
+        const values = members.map(r => getNumericAttributeValue(r, key)).filter((v): v is number => v !== null);
+        averages[key] = values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+      });
+
+      const clusterIds = new Set(members.map(r => assignments.get(r.id)).filter(id => id !== undefined));
+      return {
+        name,
+        restaurants: members.length,
+        share: members.length / restaurants.length,
+        clusters: clusterIds.size,
+        averages
+      };
+    })
+    .sort((a, b) => b.restaurants - a.restaurants);
+}
+
+function statsSheet(stats: GroupStats[], label: string): XLSX.WorkSheet {
+  const rows = stats.map(group => {
+    const row: Record<string, AttributeValue> = {
+      [label]: group.name,
+      Restaurants: group.restaurants,
+      'Share (%)': Math.round(group.share * 1000) / 10,
+      Clusters: group.clusters
+    };
+    Object.entries(group.averages).forEach(([key, value]) => {
+      row[`Avg ${key}`] = value === null ? null : Math.round(value * 100) / 100;
+    });
+    return row;
+  });
+  return XLSX.utils.json_to_sheet(rows);
+}
+
+// Workbook with one sheet of cuisine stats and one of zone stats
+export function buildStatsWorkbook(
+  restaurants: Restaurant[],
+  assignments: Map<string, number>,
+  attributes: AttributeDefinition[]
+): ArrayBuffer {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    statsSheet(buildGroupStats(restaurants, 'cuisine', assignments, attributes), 'Cuisine'),
+    'Cuisines'
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    statsSheet(buildGroupStats(restaurants, 'zone', assignments, attributes), 'Zone'),
+    'Zones'
+  );
+  return XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+}
+
+// The whole edited dataset on one sheet and its change log on another. Rows lead with their id
+// so change log entries can be traced to them, including deleted restaurants.
+export function buildEditedDatasetWorkbook(
+  restaurants: Restaurant[],
+  assignments: Map<string, number>,
+  attributes: AttributeDefinition[],
+  edits: DatasetEdit[]
+): ArrayBuffer {
+  const rows = buildExportRows(restaurants, assignments, attributes)
+    .map((row, index) => ({ ...row, id: restaurants[index].id }));
+  const changeLog = buildChangeLogRows(edits).map(row => ({
+    Time: row.time,
+    Change: row.change,
+    Restaurant: row.restaurant,
+    'Restaurant ID': row.restaurantId,
+    Field: row.field,
+    Before: row.before,
+    After: row.after
+  }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows, { header: ['id'] }), 'Restaurants');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(changeLog), 'Change Log');
+  return XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+}
+
+// Export file names carry the export date, e.g. "restaurants-2024-05-01.csv"
+export function exportFileName(stem: string, extension: string): string {
+  return `${stem}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+}
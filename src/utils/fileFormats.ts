@@ -0,0 +1,223 @@
+import * as XLSX from 'xlsx';
+import { RawTable } from '@/types/restaurant';
+
+export type DataFormat = 'csv' | 'geojson' | 'kml' | 'xlsx';
+
+// One importable table; workbooks produce one per non-empty sheet
+export interface NamedTable {
+  name: string;
+  table: RawTable;
+}
+
+export const FORMAT_LABELS: Record<DataFormat, string> = {
+  csv: 'CSV',
+  geojson: 'GeoJSON',
+  kml: 'KML',
+  xlsx: 'Excel'
+};
+
+export const ACCEPTED_FILE_TYPES = '.csv,.tsv,.txt,.json,.geojson,.kml,.xlsx,.xls';
+
+// Coordinates read from feature geometry get their own columns so they never collide with
+// lat/lon properties; column suggestions prefer them over property columns
+export const GEOMETRY_LAT_COLUMN = 'geometry_lat';
+export const GEOMETRY_LON_COLUMN = 'geometry_lon';
+
+const EXTENSION_FORMATS: Record<string, DataFormat> = {
+  csv: 'csv',
+  tsv: 'csv',
+  txt: 'csv',
+  json: 'geojson',
+  geojson: 'geojson',
+  kml: 'kml',
+  xlsx: 'xlsx',
+  xls: 'xlsx'
+};
+
+// Format from the file extension when it is known, otherwise from the first bytes:
+// zip/OLE signatures are workbooks, a leading "{" is GeoJSON, and XML with <kml is KML
+export function detectFormat(fileName: string | null, bytes: ArrayBuffer): DataFormat {
+  const extension = fileName?.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  if (extension && EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+
+  const head = new Uint8Array(bytes.slice(0, 8));
+  const isZip = head[0] === 0x50 && head[1] === 0x4b;
+  const isOle = head[0] === 0xd0 && head[1] === 0xcf && head[2] === 0x11 && head[3] === 0xe0;
+  if (isZip || isOle) return 'xlsx';
+
+  const text = new TextDecoder().decode(bytes.slice(0, 1024)).trimStart();
+  if (text.startsWith('{')) return 'geojson';
+  if (text.startsWith('<') && /<kml[\s>]/i.test(text)) return 'kml';
+  return 'csv';
+}
+
+// Builds a table from loosely shaped records, keeping columns in order of first appearance
+function recordsToTable(records: Record<string, string>[]): RawTable {
+  const fields: string[] = [];
+  const seen = new Set<string>();
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        fields.push(key);
+      }
+    }
+  }
+  return { fields, rows: records };
+}
+
+const stringifyValue = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Representative [lon, lat] of any GeoJSON geometry: the point itself, or the mean of all
+// vertices for lines and polygons
+function geometryPosition(geometry: { type: string; coordinates?: unknown; geometries?: unknown[] }): [number, number] | null {
+  const positions: [number, number][] = [];
+  const collect = (coordinates: unknown) => {
+    if (!Array.isArray(coordinates)) return;
+    if (typeof coordinates[0] === 'number') {
+      positions.push([coordinates[0] as number, coordinates[1] as number]);
+    } else {
+      coordinates.forEach(collect);
+    }
+  };
+
+  if (geometry.type === 'GeometryCollection') {
+    (geometry.geometries ?? []).forEach(child => collect((child as { coordinates?: unknown }).coordinates));
+  } else {
+    collect(geometry.coordinates);
+  }
+  if (positions.length === 0) return null;
+
+  const sum = positions.reduce((acc, [lon, lat]) => [acc[0] + lon, acc[1] + lat], [0, 0]);
+  return [sum[0] / positions.length, sum[1] / positions.length];
+}
+
+export function parseGeoJSONTable(text: string): RawTable {
+  let data: { type?: string; features?: unknown[]; geometry?: unknown; properties?: unknown };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const features = data.type === 'FeatureCollection'
+    ? data.features ?? []
+    : data.type === 'Feature' ? [data] : null;
+  if (!features) {
+    throw new Error('Expected a GeoJSON FeatureCollection or Feature.');
+  }
+
+  const records = features.map(feature => {
+    const { geometry, properties } = feature as {
+      geometry?: { type: string; coordinates?: unknown };
+      properties?: Record<string, unknown> | null;
+    };
+    const record: Record<string, string> = {};
+    Object.entries(properties ?? {}).forEach(([key, value]) => {
+      record[key] = stringifyValue(value);
+    });
+
+    const position = geometry ? geometryPosition(geometry) : null;
+    record[GEOMETRY_LAT_COLUMN] = position ? String(position[1]) : '';
+    record[GEOMETRY_LON_COLUMN] = position ? String(position[0]) : '';
+    return record;
+  });
+
+  if (records.length === 0) throw new Error('The GeoJSON file contains no features.');
+  return recordsToTable(records);
+}
+
+const childText = (element: Element, tagName: string) =>
+  element.getElementsByTagName(tagName)[0]?.textContent?.trim() ?? '';
+
+// Placemarks become rows: name, description, the enclosing folder (a layer in Google My Maps),
+// every ExtendedData field, and the position of the first Point (or the mean of other geometry)
+export function parseKMLTable(text: string): RawTable {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The KML file is not valid XML.');
+  }
+
+  const placemarks = Array.from(xml.getElementsByTagName('Placemark'));
+  if (placemarks.length === 0) throw new Error('The KML file contains no placemarks.');
+
+  const records = placemarks.map(placemark => {
+    const record: Record<string, string> = {
+      name: childText(placemark, 'name'),
+      description: childText(placemark, 'description')
+    };
+
+    const folder = placemark.parentElement?.tagName === 'Folder' ? childText(placemark.parentElement, 'name') : '';
+    if (folder) record.folder = folder;
+
+    for (const data of Array.from(placemark.getElementsByTagName('Data'))) {
+      const key = data.getAttribute('name');
+      if (key) record[key] = childText(data, 'value');
+    }
+    for (const data of Array.from(placemark.getElementsByTagName('SimpleData'))) {
+      const key = data.getAttribute('name');
+      if (key) record[key] = data.textContent?.trim() ?? '';
+    }
+
+    // KML coordinates are "lon,lat[,alt]" tuples separated by whitespace
+    const point = placemark.getElementsByTagName('Point')[0];
+    const coordinateText = childText(point ?? placemark, 'coordinates');
+    const tuples = coordinateText.split(/\s+/).filter(Boolean).map(tuple => tuple.split(',').map(Number));
+    const valid = tuples.filter(([lon, lat]) => !isNaN(lon) && !isNaN(lat));
+    if (valid.length > 0) {
+      record[GEOMETRY_LAT_COLUMN] = String(valid.reduce((sum, [, lat]) => sum + lat, 0) / valid.length);
+      record[GEOMETRY_LON_COLUMN] = String(valid.reduce((sum, [lon]) => sum + lon, 0) / valid.length);
+    } else {
+      record[GEOMETRY_LAT_COLUMN] = '';
+      record[GEOMETRY_LON_COLUMN] = '';
+    }
+
+    return record;
+  });
+
+  return recordsToTable(records);
+}
+
+// Raw cell values as text: numbers unformatted and dates as ISO dates, so attribute detection
+// recognises them regardless of the cell's display format
+function cellText(value: unknown): string {
+  if (value instanceof Date) {
+    const pad = (part: number) => String(part).padStart(2, '0');
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+  return value === null || value === undefined ? '' : String(value);
+}
+
+// Every sheet with a header row and at least one data row
+export function parseWorkbookTables(bytes: ArrayBuffer): NamedTable[] {
+  const workbook = XLSX.read(bytes, { type: 'array', cellDates: true });
+
+  const tables = workbook.SheetNames.flatMap(sheetName => {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+      header: 1,
+      raw: true,
+      defval: '',
+      blankrows: false
+    }).map(row => row.map(cellText));
+    if (rows.length < 2) return [];
+
+    const used = new Set<string>();
+    const fields = rows[0].map((header, i) => {
+      let name = String(header).trim() || `Column ${i + 1}`;
+      while (used.has(name)) name = `${name} (${i + 1})`;
+      used.add(name);
+      return name;
+    });
+
+    const records = rows.slice(1).map(row =>
+      Object.fromEntries(fields.map((field, i) => [field, String(row[i] ?? '')]))
+    );
+    return [{ name: sheetName, table: { fields, rows: records } }];
+  });
+
+  if (tables.length === 0) throw new Error('The workbook has no sheets with data.');
+  return tables;
+}
@@ -0,0 +1,159 @@
+import { Restaurant, RestaurantFilters, FacetField, FacetFilter, RangeFilter, CompetitionMetric } from '@/types/restaurant';
+import { isPointInShape } from '@/utils/tradeAreas';
+import { getAttributeValue, getNumericAttributeValue } from '@/utils/attributes';
+import { getCompetitionValue } from '@/utils/competition';
+
+export const FACET_FIELDS: FacetField[] = ['cuisine', 'zone'];
+
+export const FACET_LABELS: Record<FacetField, string> = {
+  cuisine: 'Cuisine',
+  zone: 'Zone'
+};
+
+export const EMPTY_FILTERS: RestaurantFilters = {
+  search: '',
+  facets: {
+    cuisine: { values: [], mode: 'include' },
+    zone: { values: [], mode: 'include' }
+  },
+  areas: [],
+  attributeFacets: {},
+  attributeRanges: {},
+  competitionRanges: {}
+};
+
+export function getFacetValue(restaurant: Restaurant, field: FacetField): string | undefined {
+  return restaurant[field];
+}
+
+function matchesFacetValue(value: string | undefined, facet: FacetFilter): boolean {
+  if (facet.values.length === 0) return true;
+
+  const selected = value !== undefined && facet.values.includes(value);
+  return facet.mode === 'include' ? selected : !selected;
+}
+
+function matchesFacet(restaurant: Restaurant, field: FacetField, facet: FacetFilter): boolean {
+  return matchesFacetValue(getFacetValue(restaurant, field), facet);
+}
+
+export function getAttributeFacetValue(restaurant: Restaurant, key: string): string | undefined {
+  const value = getAttributeValue(restaurant, key);
+  return value === null ? undefined : String(value);
+}
+
+// Restaurants without a value drop out as soon as a bound is set
+function inRange(value: number | null, range: RangeFilter): boolean {
+  if (range.min === null && range.max === null) return true;
+
+  return value !== null &&
+    (range.min === null || value >= range.min) &&
+    (range.max === null || value <= range.max);
+}
+
+function matchesRange(restaurant: Restaurant, key: string, range: RangeFilter): boolean {
+  return inRange(getNumericAttributeValue(restaurant, key), range);
+}
+
+function matchesCompetition(restaurant: Restaurant, filters: RestaurantFilters): boolean {
+  return (Object.entries(filters.competitionRanges) as [CompetitionMetric, RangeFilter][]).every(([metric, range]) =>
+    inRange(getCompetitionValue(restaurant, metric), range)
+  );
+}
+
+function matchesAttributes(restaurant: Restaurant, filters: RestaurantFilters, ignoreAttribute?: string): boolean {
+  return Object.entries(filters.attributeFacets).every(([key, facet]) =>
+    key === ignoreAttribute || matchesFacetValue(getAttributeFacetValue(restaurant, key), facet)
+  ) && Object.entries(filters.attributeRanges).every(([key, range]) =>
+    matchesRange(restaurant, key, range)
+  );
+}
+
+function matchesSearch(restaurant: Restaurant, search: string): boolean {
+  const query = search.trim().toLowerCase();
+  return query === '' || restaurant.name.toLowerCase().includes(query);
+}
+
+// With several areas applied, a restaurant only needs to fall inside one of them
+function matchesAreas(restaurant: Restaurant, filters: RestaurantFilters): boolean {
+  return filters.areas.length === 0 ||
+    filters.areas.some(area => isPointInShape([restaurant.lat, restaurant.lon], area.shape));
+}
+
+// Apply the name search, the drawn areas, every facet, the attribute and competition filters; `ignoreFacet`
+// and `ignoreAttribute` leave one facet out, which is how facet counts are computed against
+// "all the other filters"
+export function applyFilters(
+  restaurants: Restaurant[],
+  filters: RestaurantFilters,
+  ignoreFacet?: FacetField,
+  ignoreAttribute?: string
+): Restaurant[] {
+  return restaurants.filter(restaurant =>
+    matchesSearch(restaurant, filters.search) &&
+    matchesAreas(restaurant, filters) &&
+    FACET_FIELDS.every(field => field === ignoreFacet || matchesFacet(restaurant, field, filters.facets[field])) &&
+    matchesAttributes(restaurant, filters, ignoreAttribute) &&
+    matchesCompetition(restaurant, filters)
+  );
+}
+
+// Live counts per facet value: how many restaurants would match if the value were the only
+// selection in its facet, given the search and the other facets as they currently stand
+export function getFacetCounts(
+  restaurants: Restaurant[],
+  filters: RestaurantFilters,
+  field: FacetField
+): { value: string; count: number }[] {
+  return countValues(
+    restaurants,
+    applyFilters(restaurants, filters, field),
+    restaurant => getFacetValue(restaurant, field)
+  );
+}
+
+function countValues(
+  restaurants: Restaurant[],
+  matching: Restaurant[],
+  getValue: (restaurant: Restaurant) => string | undefined
+): { value: string; count: number }[] {
+  const counts = new Map<string, number>();
+
+  for (const restaurant of restaurants) {
+    const value = getValue(restaurant);
+    if (value && !counts.has(value)) counts.set(value, 0);
+  }
+  for (const restaurant of matching) {
+    const value = getValue(restaurant);
+    if (value) counts.set(value, (counts.get(value) || 0) + 1);
+  }
+
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => a.value.localeCompare(b.value));
+}
+
+export function getAttributeFacetCounts(
+  restaurants: Restaurant[],
+  filters: RestaurantFilters,
+  key: string
+): { value: string; count: number }[] {
+  return countValues(
+    restaurants,
+    applyFilters(restaurants, filters, undefined, key),
+    restaurant => getAttributeFacetValue(restaurant, key)
+  );
+}
+
+export function isRangeActive(range: RangeFilter | undefined): boolean {
+  return range !== undefined && (range.min !== null || range.max !== null);
+}
+
+export function hasActiveFilters(filters: RestaurantFilters): boolean {
+  return filters.search.trim() !== '' ||
+    filters.areas.length > 0 ||
+    FACET_FIELDS.some(field => filters.facets[field].values.length > 0) ||
+    Object.values(filters.attributeFacets).some(facet => facet.values.length > 0) ||
+    Object.values(filters.attributeRanges).some(isRangeActive) ||
+    Object.values(filters.competitionRanges).some(isRangeActive);
+}
@@ -0,0 +1,147 @@
+export const EARTH_RADIUS_METERS = 6371008.8;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Great-circle distance between two [lat, lon] points, in meters
+export function haversineDistance(point1: [number, number], point2: [number, number]): number {
+  const lat1 = toRadians(point1[0]);
+  const lat2 = toRadians(point2[0]);
+  const dLat = lat2 - lat1;
+  const dLon = toRadians(point2[1] - point1[1]);
+
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Mean position of a set of [lat, lon] points, averaged as 3D unit vectors so it stays
+// correct near the antimeridian and at high latitudes
+export function sphericalMean(points: [number, number][]): [number, number] {
+  let x = 0;
+  let y = 0;
+  let z = 0;
+
+  for (const [lat, lon] of points) {
+    const phi = toRadians(lat);
+    const lambda = toRadians(lon);
+    x += Math.cos(phi) * Math.cos(lambda);
+    y += Math.cos(phi) * Math.sin(lambda);
+    z += Math.sin(phi);
+  }
+
+  x /= points.length;
+  y /= points.length;
+  z /= points.length;
+
+  return [toDegrees(Math.atan2(z, Math.sqrt(x * x + y * y))), toDegrees(Math.atan2(y, x))];
+}
+
+// Point reached by travelling distanceMeters from a [lat, lon] point along an initial bearing (degrees)
+export function destinationPoint(
+  point: [number, number],
+  bearingDegrees: number,
+  distanceMeters: number
+): [number, number] {
+  const phi1 = toRadians(point[0]);
+  const lambda1 = toRadians(point[1]);
+  const theta = toRadians(bearingDegrees);
+  const delta = distanceMeters / EARTH_RADIUS_METERS;
+
+  const phi2 = Math.asin(
+    Math.sin(phi1) * Math.cos(delta) + Math.cos(phi1) * Math.sin(delta) * Math.cos(theta)
+  );
+  const lambda2 = lambda1 + Math.atan2(
+    Math.sin(theta) * Math.sin(delta) * Math.cos(phi1),
+    Math.cos(delta) - Math.sin(phi1) * Math.sin(phi2)
+  );
+
+  return [toDegrees(phi2), ((toDegrees(lambda2) + 540) % 360) - 180];
+}
+
+// Convex hull of [lat, lon] points (Andrew's monotone chain on lon/lat), counter-clockwise,
+// without a repeated closing vertex
+export function convexHull(points: [number, number][]): [number, number][] {
+  const sorted = [...points].sort((a, b) => a[1] - b[1] || a[0] - b[0]);
+  if (sorted.length < 3) return sorted;
+
+  const cross = (o: [number, number], a: [number, number], b: [number, number]) =>
+    (a[1] - o[1]) * (b[0] - o[0]) - (a[0] - o[0]) * (b[1] - o[1]);
+
+  const lower: [number, number][] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) {
+      lower.pop();
+    }
+    lower.push(point);
+  }
+
+  const upper: [number, number][] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const point = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) {
+      upper.pop();
+    }
+    upper.push(point);
+  }
+
+  lower.pop();
+  upper.pop();
+  return lower.concat(upper);
+}
+
+// Area of a [lat, lon] ring on the sphere, in km² (spherical excess approximation)
+export function polygonAreaKm2(ring: [number, number][]): number {
+  if (ring.length < 3) return 0;
+
+  let total = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [lat1, lon1] = ring[i];
+    const [lat2, lon2] = ring[(i + 1) % ring.length];
+    total += toRadians(lon2 - lon1) * (2 + Math.sin(toRadians(lat1)) + Math.sin(toRadians(lat2)));
+  }
+
+  return Math.abs((total * EARTH_RADIUS_METERS * EARTH_RADIUS_METERS) / 2) / 1e6;
+}
+
+// Convex buffer around a point set: the hull of circles of radiusMeters drawn around each
+// hull vertex, which equals the hull grown outward by the radius
+export function bufferedHull(
+  points: [number, number][],
+  radiusMeters: number,
+  segments: number = 32
+): [number, number][] {
+  const hull = convexHull(points);
+  if (radiusMeters <= 0) return hull;
+
+  const circlePoints = hull.flatMap(vertex =>
+    Array.from({ length: segments }, (_, i) => destinationPoint(vertex, (360 / segments) * i, radiusMeters))
+  );
+  return convexHull(circlePoints);
+}
+
+// Ray-casting point-in-polygon test on a [lat, lon] ring (open or closed)
+export function pointInPolygon(point: [number, number], ring: [number, number][]): boolean {
+  const [lat, lon] = point;
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [latI, lonI] = ring[i];
+    const [latJ, lonJ] = ring[j];
+    const crosses = (latI > lat) !== (latJ > lat) &&
+      lon < ((lonJ - lonI) * (lat - latI)) / (latJ - latI) + lonI;
+    if (crosses) inside = !inside;
+  }
+
+  return inside;
+}
+
+// Type guards for coordinates read back from storage or shared links, where stored JSON
+// can hold anything
+export const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value);
+
+export const isLatLon = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 && value.every(isFiniteNumber);
+
+export const isRing = (value: unknown): value is [number, number][] =>
+  Array.isArray(value) && value.length >= 3 && value.every(isLatLon);
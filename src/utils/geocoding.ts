@@ -0,0 +1,326 @@
+import Papa from 'papaparse';
+import { GazetteerEntry, GeocodeMatch, GeocoderSettings } from '@/types/restaurant';
+import { suggestColumnMapping } from '@/utils/columnMapping';
+import bundledGazetteerCSV from '@/data/nyc-gazetteer.csv?raw';
+
+// Anything that turns an address into coordinates. The id namespaces cached results, so two
+// providers never share answers.
+export interface Geocoder {
+  id: string;
+  geocode: (query: string, signal?: AbortSignal) => Promise<GeocodeMatch | null>;
+}
+
+export interface GeocodeOutcome {
+  rowIndex: number;
+  query: string;
+  match: GeocodeMatch | null;
+  error?: string;
+}
+
+const SETTINGS_KEY = 'bistro-vista:geocoder';
+const CACHE_KEY = 'bistro-vista:geocode-cache:v2';
+// Cache of earlier versions, which kept "not found" forever; dropped on first use
+const LEGACY_CACHE_KEY = 'bistro-vista:geocode-cache';
+const MAX_CACHE_ENTRIES = 5000;
+// Addresses a service could not find are asked again after this long, in case its data improved
+const NOT_FOUND_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const BUNDLED_GAZETTEER_LABEL = 'New York City neighborhoods (approximate centers)';
+
+export const DEFAULT_GEOCODER_SETTINGS: GeocoderSettings = {
+  provider: 'bundled',
+  gazetteerCSV: null,
+  gazetteerName: null,
+  // No service is contacted until one is entered; a self-hosted instance needs no limit, while
+  // the public Nominatim usage policy allows one request per second
+  baseUrl: '',
+  minIntervalMs: 1000
+};
+
+// Matches at or above this are selected in the review table by default
+export const AUTO_ACCEPT_CONFIDENCE = 0.5;
+export const HIGH_CONFIDENCE = 0.8;
+
+// Fuzzy gazetteer matches below this are treated as no match
+const MIN_GAZETTEER_SCORE = 0.3;
+// An address that contains every word of a gazetteer entry ("12 Bedford Ave, Williamsburg,
+// Brooklyn") is a locality-level match, not an exact one
+const LOCALITY_MATCH_WEIGHT = 0.6;
+
+const ABBREVIATIONS: Record<string, string> = {
+  st: 'street',
+  ave: 'avenue',
+  av: 'avenue',
+  rd: 'road',
+  blvd: 'boulevard',
+  dr: 'drive',
+  pl: 'place',
+  ln: 'lane',
+  sq: 'square',
+  pkwy: 'parkway',
+  hwy: 'highway',
+  e: 'east',
+  w: 'west',
+  n: 'north',
+  s: 'south'
+};
+
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+    .map(token => ABBREVIATIONS[token] ?? token);
+}
+
+export const normalizeQuery = (text: string) => tokenize(text).join(' ');
+
+// Street types and directions say nothing about which place is meant, so fuzzy matching
+// ignores them ("Main St" must not match "St. George")
+const GENERIC_TOKENS = new Set(Object.values(ABBREVIATIONS));
+const distinctiveTokens = (text: string) => new Set(tokenize(text).filter(token => !GENERIC_TOKENS.has(token)));
+
+// Share of the query's words that also appear in the matched label
+function tokenCoverage(query: string, label: string): number {
+  const queryTokens = new Set(tokenize(query));
+  if (queryTokens.size === 0) return 0;
+  const labelTokens = new Set(tokenize(label));
+  let shared = 0;
+  queryTokens.forEach(token => {
+    if (labelTokens.has(token)) shared++;
+  });
+  return shared / queryTokens.size;
+}
+
+const roundConfidence = (value: number) => Math.round(value * 100) / 100;
+
+// Reads name/address, lat and lon columns from a gazetteer CSV, using the same header
+// recognition as restaurant imports
+export function parseGazetteerCSV(text: string): GazetteerEntry[] {
+  const { data, meta } = Papa.parse<Record<string, string>>(text.trim(), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: header => header.trim()
+  });
+
+  const mapping = suggestColumnMapping(meta.fields ?? []);
+  const nameColumn = mapping.address ?? mapping.name;
+  if (!nameColumn || !mapping.lat || !mapping.lon) {
+    throw new Error('The gazetteer needs a name or address column and latitude/longitude columns.');
+  }
+
+  const entries = data
+    .map(row => ({ name: row[nameColumn]?.trim() ?? '', lat: Number(row[mapping.lat!]), lon: Number(row[mapping.lon!]) }))
+    .filter(entry => entry.name && !isNaN(entry.lat) && !isNaN(entry.lon));
+
+  if (entries.length === 0) throw new Error('The gazetteer has no usable rows.');
+  return entries;
+}
+
+// Offline lookup: an exact normalized match scores 1, otherwise the entry sharing the most
+// words wins, scored by word overlap
+export function createGazetteerGeocoder(id: string, entries: GazetteerEntry[]): Geocoder {
+  const indexed = entries.map(entry => ({ entry, tokens: distinctiveTokens(entry.name) }));
+  const exact = new Map(entries.map(entry => [normalizeQuery(entry.name), entry]));
+  const toMatch = (entry: GazetteerEntry, confidence: number): GeocodeMatch => ({
+    lat: entry.lat,
+    lon: entry.lon,
+    label: entry.name,
+    confidence: roundConfidence(confidence)
+  });
+
+  return {
+    id,
+    geocode: async (query) => {
+      const exactEntry = exact.get(normalizeQuery(query));
+      if (exactEntry) return toMatch(exactEntry, 1);
+
+      const queryTokens = distinctiveTokens(query);
+      let best: { entry: GazetteerEntry; score: number; shared: number } | null = null;
+
+      for (const { entry, tokens } of indexed) {
+        let shared = 0;
+        tokens.forEach(token => {
+          if (queryTokens.has(token)) shared++;
+        });
+        if (shared === 0) continue;
+
+        const dice = (2 * shared) / (tokens.size + queryTokens.size);
+        const score = Math.max(dice, LOCALITY_MATCH_WEIGHT * (shared / tokens.size));
+        if (!best || score > best.score || (score === best.score && shared > best.shared)) {
+          best = { entry, score, shared };
+        }
+      }
+
+      return best && best.score >= MIN_GAZETTEER_SCORE ? toMatch(best.entry, best.score) : null;
+    }
+  };
+}
+
+// Nominatim /search API, which local stand-ins and several hosted services also implement.
+// Confidence is how much of the query the returned display name covers.
+export function createNominatimGeocoder(baseUrl: string): Geocoder {
+  const root = baseUrl.trim().replace(/\/+$/, '');
+
+  return {
+    id: `http:${root}`,
+    geocode: async (query, signal) => {
+      const params = new URLSearchParams({ q: query, format: 'jsonv2', limit: '1' });
+      const response = await fetch(`${root}/search?${params}`, { signal, headers: { Accept: 'application/json' } });
+      if (!response.ok) {
+        throw new Error(`Geocoding service returned ${response.status} ${response.statusText}`);
+      }
+
+      const results = await response.json();
+      const first = Array.isArray(results) ? results[0] : null;
+      if (!first) return null;
+
+      const lat = Number(first.lat);
+      const lon = Number(first.lon);
+      if (isNaN(lat) || isNaN(lon)) return null;
+
+      const label = typeof first.display_name === 'string' ? first.display_name : query;
+      return { lat, lon, label, confidence: roundConfidence(tokenCoverage(query, label)) };
+    }
+  };
+}
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Geocoding cancelled', 'AbortError'));
+  }, { once: true });
+});
+
+// Time of the next free request slot per service, shared by every geocoder created for it, so
+// a new geocoding run cannot start before the previous run's last request has cleared the limit
+const nextSlots = new Map<string, number>();
+
+// Spaces requests to the same service at least minIntervalMs apart, however many are queued
+export function withRateLimit(geocoder: Geocoder, minIntervalMs: number): Geocoder {
+  return {
+    id: geocoder.id,
+    geocode: async (query, signal) => {
+      const now = Date.now();
+      const nextSlot = nextSlots.get(geocoder.id) ?? 0;
+      const wait = Math.max(0, nextSlot - now);
+      nextSlots.set(geocoder.id, Math.max(now, nextSlot) + minIntervalMs);
+      if (wait > 0) await delay(wait, signal);
+      return geocoder.geocode(query, signal);
+    }
+  };
+}
+
+interface CacheEntry {
+  match: GeocodeMatch | null;
+  at: number;
+}
+
+// Results survive reloads in localStorage; "not found" expires after NOT_FOUND_TTL_MS and the
+// oldest entries are dropped past MAX_CACHE_ENTRIES. Loaded once per session and kept in memory
+// after that.
+let cache: Record<string, CacheEntry> | null = null;
+
+function loadCache(): Record<string, CacheEntry> {
+  if (!cache) {
+    try {
+      localStorage.removeItem(LEGACY_CACHE_KEY);
+      cache = JSON.parse(localStorage.getItem(CACHE_KEY) ?? '{}');
+    } catch {
+      cache = {};
+    }
+  }
+  return cache!;
+}
+
+function readFromCache(key: string): CacheEntry | undefined {
+  const entry = loadCache()[key];
+  if (entry && entry.match === null && Date.now() - entry.at > NOT_FOUND_TTL_MS) return undefined;
+  return entry;
+}
+
+function storeInCache(key: string, match: GeocodeMatch | null) {
+  const entries = loadCache();
+  // Re-inserted so a refreshed entry counts as the newest
+  delete entries[key];
+  entries[key] = { match, at: Date.now() };
+
+  const keys = Object.keys(entries);
+  keys.slice(0, Math.max(0, keys.length - MAX_CACHE_ENTRIES)).forEach(oldKey => delete entries[oldKey]);
+
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error('Failed to save geocoding cache:', error);
+  }
+}
+
+export function withCache(geocoder: Geocoder): Geocoder {
+  return {
+    id: geocoder.id,
+    geocode: async (query, signal) => {
+      const key = `${geocoder.id}|${normalizeQuery(query)}`;
+      const cached = readFromCache(key);
+      if (cached) return cached.match;
+
+      const match = await geocoder.geocode(query, signal);
+      storeInCache(key, match);
+      return match;
+    }
+  };
+}
+
+// Gazetteer lookups are local and instant, so only the HTTP provider is cached and rate-limited
+export function createGeocoder(settings: GeocoderSettings): Geocoder {
+  switch (settings.provider) {
+    case 'bundled':
+      return createGazetteerGeocoder('gazetteer:bundled', parseGazetteerCSV(bundledGazetteerCSV));
+    case 'gazetteer':
+      if (!settings.gazetteerCSV) throw new Error('Upload a gazetteer CSV first.');
+      return createGazetteerGeocoder('gazetteer:custom', parseGazetteerCSV(settings.gazetteerCSV));
+    case 'http':
+      if (!settings.baseUrl.trim()) throw new Error('Enter the geocoding service URL first.');
+      return withCache(withRateLimit(createNominatimGeocoder(settings.baseUrl), settings.minIntervalMs));
+  }
+}
+
+// Geocodes one query at a time, reporting each outcome as it arrives. Failed lookups are
+// reported with their error; cancelling stops after the current request.
+export async function geocodeQueries(
+  queries: { rowIndex: number; query: string }[],
+  geocoder: Geocoder,
+  onOutcome: (outcome: GeocodeOutcome) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  for (const { rowIndex, query } of queries) {
+    if (signal?.aborted) return;
+    try {
+      onOutcome({ rowIndex, query, match: await geocoder.geocode(query, signal) });
+    } catch (error) {
+      if (signal?.aborted) return;
+      onOutcome({ rowIndex, query, match: null, error: error instanceof Error ? error.message : 'Lookup failed' });
+    }
+  }
+}
+
+export function loadGeocoderSettings(): GeocoderSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_GEOCODER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_GEOCODER_SETTINGS;
+  } catch {
+    return DEFAULT_GEOCODER_SETTINGS;
+  }
+}
+
+export function saveGeocoderSettings(settings: GeocoderSettings) {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save geocoder settings:', error);
+  }
+}
@@ -0,0 +1,182 @@
+import { HeatmapOptions } from '@/types/restaurant';
+
+export const DEFAULT_HEATMAP_OPTIONS: HeatmapOptions = {
+  radius: 25,
+  blur: 15,
+  intensity: 1
+};
+
+// Ranges offered by the dashboard sliders
+export const MIN_HEATMAP_RADIUS = 5;
+export const MAX_HEATMAP_RADIUS = 60;
+export const MIN_HEATMAP_BLUR = 0;
+export const MAX_HEATMAP_BLUR = 40;
+export const MIN_HEATMAP_INTENSITY = 0.2;
+export const MAX_HEATMAP_INTENSITY = 3;
+
+// Color ramp used for both the density surface and the legend
+export const HEATMAP_GRADIENT: { stop: number; color: [number, number, number] }[] = [
+  { stop: 0, color: [0, 0, 255] },
+  { stop: 0.25, color: [0, 255, 255] },
+  { stop: 0.5, color: [0, 255, 0] },
+  { stop: 0.75, color: [255, 255, 0] },
+  { stop: 1, color: [255, 0, 0] }
+];
+
+export interface DensityGrid {
+  values: Float32Array;
+  cols: number;
+  rows: number;
+  cellSize: number;
+  max: number;
+}
+
+// Kernel density estimation on a regular pixel grid.
+// Each point spreads a Gaussian kernel (sigma = radius / 3) over the cells within its radius,
+// so the cost is O(points * (radius / cellSize)^2) instead of O(points * cells).
+export function computeKernelDensity(
+  points: [number, number][],
+  width: number,
+  height: number,
+  radius: number,
+  cellSize: number = 4
+): DensityGrid {
+  const cols = Math.max(1, Math.ceil(width / cellSize));
+  const rows = Math.max(1, Math.ceil(height / cellSize));
+  const values = new Float32Array(cols * rows);
+
+  const sigma = Math.max(radius / 3, 1);
+  const twoSigmaSq = 2 * sigma * sigma;
+  const cellRadius = Math.ceil(radius / cellSize);
+
+  for (const [x, y] of points) {
+    const cx = Math.floor(x / cellSize);
+    const cy = Math.floor(y / cellSize);
+    if (cx < -cellRadius || cy < -cellRadius || cx >= cols + cellRadius || cy >= rows + cellRadius) {
+      continue;
+    }
+
+    for (let row = Math.max(0, cy - cellRadius); row <= Math.min(rows - 1, cy + cellRadius); row++) {
+      for (let col = Math.max(0, cx - cellRadius); col <= Math.min(cols - 1, cx + cellRadius); col++) {
+        const dx = (col + 0.5) * cellSize - x;
+        const dy = (row + 0.5) * cellSize - y;
+        const distSq = dx * dx + dy * dy;
+        if (distSq > radius * radius) continue;
+        values[row * cols + col] += Math.exp(-distSq / twoSigmaSq);
+      }
+    }
+  }
+
+  let max = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] > max) max = values[i];
+  }
+
+  return { values, cols, rows, cellSize, max };
+}
+
+// Separable box blur, applied twice to approximate a Gaussian smoothing pass
+export function blurDensityGrid(grid: DensityGrid, blur: number): DensityGrid {
+  const cellBlur = Math.round(blur / grid.cellSize);
+  if (cellBlur < 1) return grid;
+
+  const { cols, rows } = grid;
+  let current = grid.values;
+
+  const pass = (source: Float32Array, target: Float32Array, horizontal: boolean) => {
+    const outer = horizontal ? rows : cols;
+    const inner = horizontal ? cols : rows;
+    const span = cellBlur * 2 + 1;
+
+    for (let o = 0; o < outer; o++) {
+      const index = (i: number) => (horizontal ? o * cols + i : i * cols + o);
+      let sum = 0;
+      for (let i = -cellBlur; i <= cellBlur; i++) {
+        if (i >= 0 && i < inner) sum += source[index(i)];
+      }
+      for (let i = 0; i < inner; i++) {
+        target[index(i)] = sum / span;
+        const removeAt = i - cellBlur;
+        const addAt = i + cellBlur + 1;
+        if (removeAt >= 0) sum -= source[index(removeAt)];
+        if (addAt < inner) sum += source[index(addAt)];
+      }
+    }
+  };
+
+  for (let iteration = 0; iteration < 2; iteration++) {
+    const horizontal = new Float32Array(current.length);
+    const vertical = new Float32Array(current.length);
+    pass(current, horizontal, true);
+    pass(horizontal, vertical, false);
+    current = vertical;
+  }
+
+  let max = 0;
+  for (let i = 0; i < current.length; i++) {
+    if (current[i] > max) max = current[i];
+  }
+
+  return { ...grid, values: current, max };
+}
+
+export function getHeatmapColor(t: number): [number, number, number] {
+  const value = Math.min(Math.max(t, 0), 1);
+
+  for (let i = 1; i < HEATMAP_GRADIENT.length; i++) {
+    const lower = HEATMAP_GRADIENT[i - 1];
+    const upper = HEATMAP_GRADIENT[i];
+    if (value <= upper.stop) {
+      const ratio = (value - lower.stop) / (upper.stop - lower.stop);
+      return [
+        Math.round(lower.color[0] + (upper.color[0] - lower.color[0]) * ratio),
+        Math.round(lower.color[1] + (upper.color[1] - lower.color[1]) * ratio),
+        Math.round(lower.color[2] + (upper.color[2] - lower.color[2]) * ratio)
+      ];
+    }
+  }
+
+  return HEATMAP_GRADIENT[HEATMAP_GRADIENT.length - 1].color;
+}
+
+// Paint a density grid onto a canvas. Intensity scales the normalized density before
+// the color lookup, and low densities fade out so the base map stays readable.
+export function renderDensityGrid(
+  grid: DensityGrid,
+  canvas: HTMLCanvasElement,
+  intensity: number
+) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  if (grid.max === 0) return;
+
+  const image = ctx.createImageData(grid.cols, grid.rows);
+  for (let i = 0; i < grid.values.length; i++) {
+    const t = Math.min((grid.values[i] / grid.max) * intensity, 1);
+    if (t < 0.02) continue;
+
+    const [r, g, b] = getHeatmapColor(t);
+    image.data[i * 4] = r;
+    image.data[i * 4 + 1] = g;
+    image.data[i * 4 + 2] = b;
+    image.data[i * 4 + 3] = Math.round(Math.min(t * 1.5, 0.85) * 255);
+  }
+
+  // Draw at grid resolution, then scale up with smoothing to the full canvas size
+  const offscreen = document.createElement('canvas');
+  offscreen.width = grid.cols;
+  offscreen.height = grid.rows;
+  offscreen.getContext('2d')?.putImageData(image, 0, 0);
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(offscreen, 0, 0, grid.cols * grid.cellSize, grid.rows * grid.cellSize);
+}
+
+export function getHeatmapLegendGradient(): string {
+  const stops = HEATMAP_GRADIENT.map(({ stop, color }) =>
+    `rgb(${color[0]}, ${color[1]}, ${color[2]}) ${stop * 100}%`
+  );
+  return `linear-gradient(to right, ${stops.join(', ')})`;
+}
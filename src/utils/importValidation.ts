@@ -0,0 +1,183 @@
+import Papa from 'papaparse';
+import { ColumnMapping, ImportIssue, ImportIssueType, ImportResult, RawTable, Restaurant } from '@/types/restaurant';
+import { parseAttributeValue } from '@/utils/attributes';
+import { haversineDistance } from '@/utils/geo';
+
+export const ISSUE_LABELS: Record<ImportIssueType, string> = {
+  'missing-coordinates': 'Missing coordinates',
+  'invalid-coordinates': 'Non-numeric coordinates',
+  'out-of-range': 'Out of range',
+  'swapped-coordinates': 'Swapped lat/lon',
+  'null-island': 'Null island (0, 0)',
+  'needs-geocoding': 'Needs geocoding'
+};
+
+// Address-only sources have no coordinate columns; geocoded and hand-entered coordinates are
+// written into these instead
+export const GEOCODED_LAT_COLUMN = 'geocoded_lat';
+export const GEOCODED_LON_COLUMN = 'geocoded_lon';
+
+export function coordinateColumns(mapping: ColumnMapping): { lat: string; lon: string } {
+  return { lat: mapping.lat ?? GEOCODED_LAT_COLUMN, lon: mapping.lon ?? GEOCODED_LON_COLUMN };
+}
+
+const cell = (row: Record<string, string>, column: string | null) => {
+  const value = column ? row[column]?.trim() : undefined;
+  return value ? value : undefined;
+};
+
+const inLatRange = (value: number) => value >= -90 && value <= 90;
+const inLonRange = (value: number) => value >= -180 && value <= 180;
+
+// Swaps that stay within range are only visible against the rest of the dataset, so they are
+// looked for once enough rows are valid
+const MIN_ROWS_FOR_SWAP_CHECK = 5;
+// A row belongs to the main cluster within this many times the median distance to its centre
+const CLUSTER_RADIUS_FACTOR = 3;
+const MIN_CLUSTER_RADIUS_METERS = 25000;
+// Latitudes with next to no restaurants: Antarctica, and the Arctic beyond Svalbard
+const isUninhabitedLatitude = (lat: number) => lat < -60 || lat > 80;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Validates one raw row against the mapping; exactly one of restaurant or issue is returned.
+// The restaurant id comes from the row position so fixed rows keep the id they would have had.
+export function validateRow(
+  row: Record<string, string>,
+  rowIndex: number,
+  mapping: ColumnMapping
+): { restaurant?: Restaurant; issue?: ImportIssue } {
+  const columns = coordinateColumns(mapping);
+  const rawLat = cell(row, columns.lat);
+  const rawLon = cell(row, columns.lon);
+  const address = cell(row, mapping.address ?? null);
+  const fail = (type: ImportIssueType, message: string) => ({ issue: { rowIndex, row, type, message } });
+
+  if (rawLat === undefined || rawLon === undefined) {
+    if (address) return fail('needs-geocoding', `No coordinates; address "${address}" can be geocoded`);
+    return fail('missing-coordinates', `Missing ${rawLat === undefined ? 'latitude' : 'longitude'}`);
+  }
+
+  const lat = Number(rawLat);
+  const lon = Number(rawLon);
+  if (isNaN(lat) || isNaN(lon)) {
+    return fail('invalid-coordinates', `Coordinates are not numbers: lat="${rawLat}", lon="${rawLon}"`);
+  }
+
+  if (!inLatRange(lat) || !inLonRange(lon)) {
+    // A latitude beyond ±90 that is a valid longitude, paired with a valid latitude, is almost
+    // always a row with the two columns the other way round
+    if (inLatRange(lon) && inLonRange(lat)) {
+      return fail('swapped-coordinates', `Latitude ${lat} is out of range; lat and lon look swapped`);
+    }
+    return fail('out-of-range', `Coordinates out of range: lat=${lat}, lon=${lon}`);
+  }
+
+  if (lat === 0 && lon === 0) {
+    return fail('null-island', 'Coordinates are (0, 0), usually a placeholder for a missing location');
+  }
+
+  const restaurant: Restaurant = {
+    id: `restaurant-${rowIndex}`,
+    name: cell(row, mapping.name) ?? `Restaurant ${rowIndex + 1}`,
+    lat,
+    lon,
+    cuisine: cell(row, mapping.cuisine),
+    zone: cell(row, mapping.zone),
+    address
+  };
+
+  const attributeTypes = Object.entries(mapping.attributes ?? {});
+  if (attributeTypes.length > 0) {
+    restaurant.attributes = Object.fromEntries(
+      attributeTypes.map(([column, type]) => [column, parseAttributeValue(row[column], type)])
+    );
+  }
+
+  return { restaurant };
+}
+
+export function validateRows(table: RawTable, mapping: ColumnMapping): ImportResult {
+  const result: ImportResult = { restaurants: [], issues: [] };
+  const valid: { restaurant: Restaurant; rowIndex: number }[] = [];
+
+  table.rows.forEach((row, index) => {
+    const { restaurant, issue } = validateRow(row, index, mapping);
+    if (restaurant) valid.push({ restaurant, rowIndex: index });
+    if (issue) result.issues.push(issue);
+  });
+
+  const swapped = findSwappedRows(valid.map(({ restaurant }) => restaurant));
+  valid.forEach(({ restaurant, rowIndex }) => {
+    const message = swapped.get(restaurant.id);
+    if (message) result.issues.push({ rowIndex, row: table.rows[rowIndex], type: 'swapped-coordinates', message });
+    else result.restaurants.push(restaurant);
+  });
+  result.issues.sort((a, b) => a.rowIndex - b.rowIndex);
+
+  return result;
+}
+
+// Rows whose coordinates are in range but the other way round, keyed by restaurant id. When the
+// whole dataset sits where no restaurants are and swapping moves it somewhere plausible, the
+// columns are mapped the wrong way; otherwise single rows are swapped when they lie outside the
+// main cluster and their swapped point falls inside it.
+function findSwappedRows(restaurants: Restaurant[]): Map<string, string> {
+  const swapped = new Map<string, string>();
+  if (restaurants.length < MIN_ROWS_FOR_SWAP_CHECK) return swapped;
+
+  const center: [number, number] = [
+    median(restaurants.map(restaurant => restaurant.lat)),
+    median(restaurants.map(restaurant => restaurant.lon))
+  ];
+  if (isUninhabitedLatitude(center[0]) && inLatRange(center[1]) && !isUninhabitedLatitude(center[1])) {
+    restaurants.forEach(restaurant => {
+      swapped.set(restaurant.id, 'Most rows lie near the poles; the latitude and longitude columns look swapped');
+    });
+    return swapped;
+  }
+
+  const distances = restaurants.map(restaurant => haversineDistance([restaurant.lat, restaurant.lon], center));
+  const radius = Math.max(CLUSTER_RADIUS_FACTOR * median(distances), MIN_CLUSTER_RADIUS_METERS);
+  restaurants.forEach((restaurant, index) => {
+    if (distances[index] <= radius || !inLatRange(restaurant.lon)) return;
+    if (haversineDistance([restaurant.lon, restaurant.lat], center) <= radius) {
+      swapped.set(restaurant.id, `(${restaurant.lat}, ${restaurant.lon}) lies far from the other rows; swapped it falls among them`);
+    }
+  });
+  return swapped;
+}
+
+// Row with the mapped coordinate columns exchanged, used as the quick fix for swapped rows
+export function swapCoordinates(row: Record<string, string>, mapping: ColumnMapping): Record<string, string> {
+  const { lat, lon } = coordinateColumns(mapping);
+  return { ...row, [lat]: row[lon], [lon]: row[lat] };
+}
+
+// Row with coordinates filled in, from geocoding or manual entry
+export function setCoordinates(
+  row: Record<string, string>,
+  mapping: ColumnMapping,
+  lat: number,
+  lon: number
+): Record<string, string> {
+  const columns = coordinateColumns(mapping);
+  return { ...row, [columns.lat]: String(lat), [columns.lon]: String(lon) };
+}
+
+// CSV report with the 1-based source line (after the header), the issue and the original columns
+export function buildIssueReport(issues: ImportIssue[], fields: string[]): string {
+  return Papa.unparse({
+    fields: ['row', 'issue', 'message', ...fields],
+    data: issues.map(issue => [
+      issue.rowIndex + 2,
+      ISSUE_LABELS[issue.type],
+      issue.message,
+      ...fields.map(field => issue.row[field] ?? '')
+    ])
+  });
+}
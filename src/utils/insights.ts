@@ -0,0 +1,75 @@
+import { BoundingBox, ClusterData, Restaurant } from '@/types/restaurant';
+
+export type InsightTone = 'primary' | 'secondary' | 'accent' | 'warning';
+
+export interface KeyInsight {
+  title: string;
+  text: string;
+  tone: InsightTone;
+}
+
+const topValue = (restaurants: Restaurant[], getValue: (restaurant: Restaurant) => string | undefined) => {
+  const counts: { [key: string]: number } = {};
+  restaurants.forEach(restaurant => {
+    const value = getValue(restaurant);
+    if (value) counts[value] = (counts[value] || 0) + 1;
+  });
+  return Object.entries(counts).sort(([, a], [, b]) => b - a)[0];
+};
+
+// The automated findings shown on the Insights tab and written into exported reports
+export function getKeyInsights(
+  filteredRestaurants: Restaurant[],
+  clusters: ClusterData[],
+  bounds: BoundingBox | null,
+  hasZones: boolean
+): KeyInsight[] {
+  const topCuisine = topValue(filteredRestaurants, r => r.cuisine || 'Unknown');
+  const denseZone = topValue(filteredRestaurants, r => r.zone);
+
+  const spread = bounds
+    ? `Covers ${(bounds.maxLat - bounds.minLat).toFixed(3)}° latitude × ${(bounds.maxLon - bounds.minLon).toFixed(3)}° longitude`
+    : 'No data available';
+
+  const density = !hasZones
+    ? 'Zone data not available for density analysis'
+    : denseZone
+      ? `Highest density in ${denseZone[0]} (${denseZone[1]} restaurants)`
+      : 'No zone data available';
+
+  const clustering = clusters.length === 0
+    ? 'No clusters generated'
+    : `Average cluster size: ${(clusters.reduce((sum, c) => sum + c.restaurants.length, 0) / clusters.length).toFixed(1)} restaurants`;
+
+  return [
+    {
+      title: 'Most Popular Cuisine',
+      text: topCuisine ? `${topCuisine[0]} (${topCuisine[1]} restaurants)` : 'No data available',
+      tone: 'primary'
+    },
+    { title: 'Geographic Spread', text: spread, tone: 'secondary' },
+    { title: 'Density Analysis', text: density, tone: 'accent' },
+    { title: 'Clustering Effectiveness', text: clustering, tone: 'warning' }
+  ];
+}
+
+export function getRecommendations(restaurants: Restaurant[], clusters: ClusterData[]): string[] {
+  const recommendations: string[] = [];
+  const missingCuisine = restaurants.filter(r => !r.cuisine).length;
+  const missingZone = restaurants.filter(r => !r.zone).length;
+
+  if (missingCuisine > 0) {
+    recommendations.push(`Consider adding cuisine data for ${missingCuisine} restaurants`);
+  }
+  if (missingZone > 0) {
+    recommendations.push(`Zone information missing for ${missingZone} restaurants; upload zone boundaries to assign them by location`);
+  }
+  if (restaurants.length < 10) {
+    recommendations.push('More data points would improve clustering accuracy');
+  }
+  if (clusters.length > 0 && clusters.some(c => c.restaurants.length < 2)) {
+    recommendations.push('Consider reducing cluster count for better grouping');
+  }
+
+  return recommendations;
+}
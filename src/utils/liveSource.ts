@@ -0,0 +1,166 @@
+import { DatasetDiff, DatasetEdit, Restaurant } from '@/types/restaurant';
+import { haversineDistance } from '@/utils/geo';
+import { SourceFetch } from '@/utils/dataParser';
+import { setCoordinates, validateRow } from '@/utils/importValidation';
+import { EDITABLE_FIELDS, isAddedInApp, sourcePosition, sourceValue } from '@/utils/editing';
+
+export const REFRESH_INTERVALS = [1, 5, 15, 60];
+
+// Smaller shifts are geocoding or rounding noise; the new position is kept but not reported
+export const MOVE_THRESHOLD_METERS = 10;
+
+export interface RefreshResult {
+  // The fetched rows, with the ids of the restaurants they were matched to
+  restaurants: Restaurant[];
+  diff: DatasetDiff;
+}
+
+// One fetch from the source, kept for the changelog panel
+export interface RefreshLogEntry {
+  at: string;
+  diff: DatasetDiff;
+  // Address-only rows that were never geocoded, which a refresh cannot place
+  ungeocoded: number;
+}
+
+const nameKey = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const isDiffEmpty = (diff: DatasetDiff) =>
+  diff.added.length + diff.removed.length + diff.moved.length + diff.recategorized.length === 0;
+
+// Identifies a source row by its name and position in the source, ignoring edits made in the app
+export function sourceRowKey(restaurant: Restaurant): string {
+  const [lat, lon] = sourcePosition(restaurant);
+  return `${nameKey(sourceValue(restaurant, 'name'))}@${lat.toFixed(4)},${lon.toFixed(4)}`;
+}
+
+// Source rows an edit deletes or merges away, so later refreshes leave them out
+export function removedRowKeys(restaurants: Restaurant[], edit: DatasetEdit): string[] {
+  const byId = new Map(restaurants.map(restaurant => [restaurant.id, restaurant]));
+  return edit.changes
+    .filter(change => change.type === 'delete' || change.type === 'merge')
+    .map(change => byId.get(change.restaurantId))
+    .filter((restaurant): restaurant is Restaurant => restaurant !== undefined && !isAddedInApp(restaurant))
+    .map(sourceRowKey);
+}
+
+// Address-only rows come back without coordinates. Those geocoded on import keep the coordinates
+// accepted for the restaurant with the same name and address; the rest cannot be placed.
+export function resolveGeocodedRows(
+  { result, mapping }: SourceFetch,
+  previous: Restaurant[]
+): { restaurants: Restaurant[]; ungeocoded: number } {
+  const placeKey = (name: string, address: string) => `${nameKey(name)}|${nameKey(address)}`;
+  const placed = new Map<string, Restaurant>();
+  previous.forEach(restaurant => {
+    if (restaurant.address) placed.set(placeKey(sourceValue(restaurant, 'name'), restaurant.address), restaurant);
+  });
+
+  const restaurants = [...result.restaurants];
+  let ungeocoded = 0;
+  result.issues.forEach(({ type, row, rowIndex }) => {
+    if (type !== 'needs-geocoding') return;
+    const name = (mapping.name && row[mapping.name]?.trim()) || `Restaurant ${rowIndex + 1}`;
+    const match = placed.get(placeKey(name, row[mapping.address!] ?? ''));
+    const { restaurant } = match
+      ? validateRow(setCoordinates(row, mapping, ...sourcePosition(match)), rowIndex, mapping)
+      : {};
+    if (restaurant) restaurants.push(restaurant);
+    else ungeocoded++;
+  });
+
+  return { restaurants, ungeocoded };
+}
+
+// Row ids come from row positions, which shift when the source gains or loses rows, so a fetched
+// restaurant is matched to a previous one by its source name; among same-named chain branches
+// the nearest wins. The source's values replace the previous ones except for fields edited in
+// the app. Restaurants added in the app are kept, and rows deleted or merged away in the app
+// (`removedRows`, see sourceRowKey) are not added back.
+export function diffRestaurants(previous: Restaurant[], next: Restaurant[], removedRows: string[] = []): RefreshResult {
+  const unmatched = new Map<string, Restaurant[]>();
+  const addedInApp: Restaurant[] = [];
+  previous.forEach(restaurant => {
+    if (isAddedInApp(restaurant)) {
+      addedInApp.push(restaurant);
+      return;
+    }
+    const key = nameKey(sourceValue(restaurant, 'name'));
+    unmatched.set(key, [...(unmatched.get(key) ?? []), restaurant]);
+  });
+
+  const diff: DatasetDiff = { added: [], removed: [], moved: [], recategorized: [] };
+  const matchedIds = new Set<string>();
+  const matched = next.map(restaurant => {
+    const candidates = unmatched.get(nameKey(restaurant.name)) ?? [];
+    if (candidates.length === 0) return null;
+
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    candidates.forEach((candidate, index) => {
+      const distance = haversineDistance(sourcePosition(candidate), [restaurant.lat, restaurant.lon]);
+      if (distance < nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    });
+    const [match] = candidates.splice(nearest, 1);
+    matchedIds.add(match.id);
+
+    const updated = keepLocalEdits({ ...restaurant, id: match.id }, match);
+    if (!match.localEdits?.position && nearestDistance > MOVE_THRESHOLD_METERS) {
+      diff.moved.push({ restaurant: updated, previous: match, distanceMeters: nearestDistance });
+    }
+    if (match.localEdits?.cuisine === undefined && (match.cuisine ?? '') !== (restaurant.cuisine ?? '')) {
+      diff.recategorized.push({ restaurant: updated, previous: match });
+    }
+    return updated;
+  });
+
+  // New rows keep their row id unless a matched restaurant already carries it
+  const removed = new Set(removedRows);
+  const restaurants = next.flatMap((restaurant, index) => {
+    if (matched[index]) return [matched[index]!];
+    if (removed.has(sourceRowKey(restaurant))) return [];
+    const id = matchedIds.has(restaurant.id) ? `${restaurant.id}-${Date.now().toString(36)}` : restaurant.id;
+    const added = { ...restaurant, id };
+    diff.added.push(added);
+    return [added];
+  });
+  diff.removed = previous.filter(restaurant => !isAddedInApp(restaurant) && !matchedIds.has(restaurant.id));
+
+  return { restaurants: [...restaurants, ...addedInApp], diff };
+}
+
+// The fetched row with the app's value for every field edited in the app. An edit is forgotten
+// once the source has the same value.
+function keepLocalEdits(fetched: Restaurant, previous: Restaurant): Restaurant {
+  const edits = previous.localEdits;
+  if (!edits) return fetched;
+
+  const result: Restaurant = { ...fetched, localEdits: {} };
+  EDITABLE_FIELDS.forEach(field => {
+    if (edits[field] === undefined || (fetched[field] ?? '') === (previous[field] ?? '')) return;
+    result[field] = previous[field];
+    result.localEdits![field] = fetched[field] ?? '';
+  });
+  if (edits.position && (fetched.lat !== previous.lat || fetched.lon !== previous.lon)) {
+    result.lat = previous.lat;
+    result.lon = previous.lon;
+    result.localEdits!.position = [fetched.lat, fetched.lon];
+  }
+
+  if (Object.keys(result.localEdits!).length === 0) delete result.localEdits;
+  return result;
+}
+
+export function summarizeDiff(diff: DatasetDiff): string {
+  const parts = [
+    [diff.added.length, 'added'],
+    [diff.removed.length, 'removed'],
+    [diff.moved.length, 'moved'],
+    [diff.recategorized.length, 're-categorized']
+  ] as const;
+  const changed = parts.filter(([count]) => count > 0).map(([count, label]) => `${count} ${label}`);
+  return changed.length > 0 ? changed.join(', ') : 'No changes';
+}
@@ -0,0 +1,109 @@
+import L from 'leaflet';
+
+const CUISINE_COLORS: { [key: string]: string } = {
+  'Italian': '#e91e63',
+  'Japanese': '#9c27b0',
+  'French': '#3f51b5',
+  'Indian': '#00bcd4',
+  'American': '#4caf50',
+  'Chinese': '#ff9800',
+  'Mexican': '#f44336',
+  'Mediterranean': '#795548',
+  'Vegetarian': '#8bc34a',
+  'Seafood': '#00acc1',
+  'Unknown': '#9e9e9e'
+};
+
+export function getCuisineColor(cuisine?: string): string {
+  return CUISINE_COLORS[cuisine || 'Unknown'] || CUISINE_COLORS['Unknown'];
+}
+
+// Icons are cached so re-renders reuse the same L.DivIcon instead of rebuilding every marker
+const cuisineIconCache = new Map<string, L.DivIcon>();
+const aggregateIconCache = new Map<string, L.DivIcon>();
+const rankIconCache = new Map<number, L.DivIcon>();
+
+// Create custom icons for different cuisines
+export function getCuisineIcon(cuisine?: string): L.DivIcon {
+  const color = getCuisineColor(cuisine);
+  const cached = cuisineIconCache.get(color);
+  if (cached) return cached;
+
+  const icon = L.divIcon({
+    className: 'custom-marker',
+    html: `<div style="
+      background-color: ${color};
+      width: 20px;
+      height: 20px;
+      border-radius: 50%;
+      border: 2px solid white;
+      box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+    "></div>`,
+    iconSize: [20, 20],
+    iconAnchor: [10, 10],
+    popupAnchor: [0, -10]
+  });
+  cuisineIconCache.set(color, icon);
+  return icon;
+}
+
+// Count bubble for aggregated markers, sized by order of magnitude
+export function getAggregateIcon(count: number): L.DivIcon {
+  const size = count < 10 ? 30 : count < 100 ? 36 : count < 1000 ? 44 : 52;
+  const label = count < 1000 ? String(count) : `${Math.round(count / 100) / 10}k`;
+  const key = `${size}:${label}`;
+  const cached = aggregateIconCache.get(key);
+  if (cached) return cached;
+
+  const icon = L.divIcon({
+    className: 'aggregate-marker',
+    html: `<div style="
+      background-color: hsl(346 77% 49.8% / 0.85);
+      width: ${size}px;
+      height: ${size}px;
+      border-radius: 50%;
+      border: 3px solid white;
+      box-shadow: 0 3px 6px rgba(0,0,0,0.4);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      color: white;
+      font-weight: bold;
+      font-size: 12px;
+    ">${label}</div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+    popupAnchor: [0, -size / 2]
+  });
+  aggregateIconCache.set(key, icon);
+  return icon;
+}
+
+// Numbered badge for ranked opportunity areas
+export function getRankIcon(rank: number): L.DivIcon {
+  const cached = rankIconCache.get(rank);
+  if (cached) return cached;
+
+  const icon = L.divIcon({
+    className: 'rank-marker',
+    html: `<div style="
+      background-color: #15803d;
+      width: 26px;
+      height: 26px;
+      border-radius: 6px;
+      border: 2px solid white;
+      box-shadow: 0 2px 4px rgba(0,0,0,0.4);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      color: white;
+      font-weight: bold;
+      font-size: 12px;
+    ">${rank}</div>`,
+    iconSize: [26, 26],
+    iconAnchor: [13, 13],
+    popupAnchor: [0, -13]
+  });
+  rankIconCache.set(rank, icon);
+  return icon;
+}
@@ -0,0 +1,61 @@
+import { Restaurant, MarkerAggregate } from '@/types/restaurant';
+
+const TILE_SIZE = 256;
+
+// Zoom level above which every restaurant is drawn individually
+export const AGGREGATION_MAX_ZOOM = 16;
+
+// Web Mercator projection to global pixel coordinates at a zoom level
+export function projectToWorldPixels(lat: number, lon: number, zoom: number): [number, number] {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const sin = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+  const x = ((lon + 180) / 360) * scale;
+  const y = (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale;
+  return [x, y];
+}
+
+// Grid-based marker aggregation: restaurants are bucketed into cellSizePx × cellSizePx cells
+// of the projected world at the given zoom. Cells are anchored to the world origin, so the
+// grouping stays stable while panning and only changes when the zoom does.
+export function aggregateMarkers(
+  restaurants: Restaurant[],
+  zoom: number,
+  cellSizePx: number = 60
+): MarkerAggregate[] {
+  const cells = new Map<string, Restaurant[]>();
+
+  for (const restaurant of restaurants) {
+    const [x, y] = projectToWorldPixels(restaurant.lat, restaurant.lon, zoom);
+    const key = `${Math.floor(x / cellSizePx)}:${Math.floor(y / cellSizePx)}`;
+    const members = cells.get(key);
+    if (members) {
+      members.push(restaurant);
+    } else {
+      cells.set(key, [restaurant]);
+    }
+  }
+
+  return Array.from(cells.entries()).map(([key, members]) => {
+    const bounds = { minLat: Infinity, minLon: Infinity, maxLat: -Infinity, maxLon: -Infinity };
+    let latSum = 0;
+    let lonSum = 0;
+
+    for (const r of members) {
+      latSum += r.lat;
+      lonSum += r.lon;
+      bounds.minLat = Math.min(bounds.minLat, r.lat);
+      bounds.maxLat = Math.max(bounds.maxLat, r.lat);
+      bounds.minLon = Math.min(bounds.minLon, r.lon);
+      bounds.maxLon = Math.max(bounds.maxLon, r.lon);
+    }
+
+    return {
+      id: `${zoom}:${key}`,
+      lat: latSum / members.length,
+      lon: lonSum / members.length,
+      count: members.length,
+      restaurants: members,
+      bounds
+    };
+  });
+}
@@ -0,0 +1,131 @@
+import { AttributeDefinition, MarkerEncoding, Restaurant } from '@/types/restaurant';
+import { getAttributeValue, getNumericAttributeValue, getNumericExtent } from '@/utils/attributes';
+import { getCuisineColor } from '@/utils/mapIcons';
+
+export const DEFAULT_MARKER_ENCODING: MarkerEncoding = { colorBy: null, sizeBy: null };
+
+const CATEGORY_PALETTE = [
+  '#e91e63', '#9c27b0', '#3f51b5', '#00bcd4', '#4caf50',
+  '#ff9800', '#f44336', '#795548', '#8bc34a', '#607d8b'
+];
+const OTHER_COLOR = '#bdbdbd';
+const MISSING_COLOR = '#e0e0e0';
+
+// Viridis stops, low to high
+const SEQUENTIAL_STOPS = ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'];
+
+const DEFAULT_RADIUS = 5;
+const MIN_RADIUS = 3;
+const MAX_RADIUS = 14;
+
+export interface MarkerStyle {
+  radius: number;
+  fillColor: string;
+}
+
+export type ColorLegend =
+  | { type: 'category'; key: string; entries: { label: string; color: string }[] }
+  | { type: 'scale'; key: string; isDate: boolean; min: number; max: number; gradient: string };
+
+export interface MarkerStyler {
+  style: (restaurant: Restaurant) => MarkerStyle;
+  colorLegend: ColorLegend | null;
+  sizeLegend: { key: string; isDate: boolean; min: number; max: number } | null;
+}
+
+const hexToRgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+export function interpolateSequential(t: number): string {
+  const clamped = Math.min(1, Math.max(0, t));
+  const position = clamped * (SEQUENTIAL_STOPS.length - 1);
+  const index = Math.min(Math.floor(position), SEQUENTIAL_STOPS.length - 2);
+  const local = position - index;
+
+  const from = hexToRgb(SEQUENTIAL_STOPS[index]);
+  const to = hexToRgb(SEQUENTIAL_STOPS[index + 1]);
+  const channels = from.map((value, i) => Math.round(value + (to[i] - value) * local));
+  return `rgb(${channels.join(', ')})`;
+}
+
+// Marker color and radius derived from attributes. Scales come from the full dataset rather
+// than the filtered view, so a restaurant keeps its color and size while filters change.
+export function createMarkerStyler(
+  restaurants: Restaurant[],
+  encoding: MarkerEncoding,
+  schema: AttributeDefinition[]
+): MarkerStyler {
+  const colorAttribute = schema.find(attribute => attribute.key === encoding.colorBy);
+  const sizeAttribute = schema.find(
+    attribute => attribute.key === encoding.sizeBy && attribute.type !== 'category'
+  );
+
+  let color = (restaurant: Restaurant) => getCuisineColor(restaurant.cuisine);
+  let colorLegend: ColorLegend | null = null;
+
+  if (colorAttribute?.type === 'category') {
+    // Most frequent values get their own color, the rest share one
+    const frequency = new Map<string, number>();
+    restaurants.forEach(restaurant => {
+      const value = getAttributeValue(restaurant, colorAttribute.key);
+      if (value !== null) frequency.set(String(value), (frequency.get(String(value)) || 0) + 1);
+    });
+    const ranked = Array.from(frequency.entries()).sort((a, b) => b[1] - a[1]).map(([value]) => value);
+    const colors = new Map(ranked.slice(0, CATEGORY_PALETTE.length).map((value, i) => [value, CATEGORY_PALETTE[i]]));
+
+    color = restaurant => {
+      const value = getAttributeValue(restaurant, colorAttribute.key);
+      return value === null ? MISSING_COLOR : colors.get(String(value)) ?? OTHER_COLOR;
+    };
+    colorLegend = {
+      type: 'category',
+      key: colorAttribute.key,
+      entries: [
+        ...Array.from(colors.entries()).map(([label, value]) => ({ label, color: value })),
+        ...(ranked.length > colors.size ? [{ label: 'Other', color: OTHER_COLOR }] : [])
+      ]
+    };
+  } else if (colorAttribute) {
+    const extent = getNumericExtent(restaurants, colorAttribute.key);
+    if (extent) {
+      const [min, max] = extent;
+      color = restaurant => {
+        const value = getNumericAttributeValue(restaurant, colorAttribute.key);
+        return value === null ? MISSING_COLOR : interpolateSequential(max > min ? (value - min) / (max - min) : 0.5);
+      };
+      colorLegend = {
+        type: 'scale',
+        key: colorAttribute.key,
+        isDate: colorAttribute.type === 'date',
+        min,
+        max,
+        gradient: `linear-gradient(to right, ${SEQUENTIAL_STOPS.join(', ')})`
+      };
+    }
+  }
+
+  let radius = (_restaurant: Restaurant) => DEFAULT_RADIUS;
+  let sizeLegend: MarkerStyler['sizeLegend'] = null;
+
+  const sizeExtent = sizeAttribute && getNumericExtent(restaurants, sizeAttribute.key);
+  if (sizeAttribute && sizeExtent) {
+    const [min, max] = sizeExtent;
+    // Square-root scale so marker area, not radius, grows with the value
+    radius = restaurant => {
+      const value = getNumericAttributeValue(restaurant, sizeAttribute.key);
+      if (value === null) return MIN_RADIUS;
+      const t = max > min ? Math.sqrt((value - min) / (max - min)) : 0.5;
+      return MIN_RADIUS + t * (MAX_RADIUS - MIN_RADIUS);
+    };
+    sizeLegend = { key: sizeAttribute.key, isDate: sizeAttribute.type === 'date', min, max };
+  }
+
+  return {
+    style: restaurant => ({ radius: radius(restaurant), fillColor: color(restaurant) }),
+    colorLegend,
+    sizeLegend
+  };
+}
+
+export function isEncodingActive(encoding: MarkerEncoding): boolean {
+  return encoding.colorBy !== null || encoding.sizeBy !== null;
+}
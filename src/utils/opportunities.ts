@@ -0,0 +1,204 @@
+import { OpportunityOptions, OpportunityUnit, PolygonRings, Restaurant } from '@/types/restaurant';
+import { EARTH_RADIUS_METERS, polygonAreaKm2 } from '@/utils/geo';
+import { ZoneShape } from '@/utils/choropleth';
+
+export const DEFAULT_OPPORTUNITY_OPTIONS: OpportunityOptions = {
+  cuisine: null,
+  unit: 'grid',
+  cellSizeMeters: 1000
+};
+
+export const MIN_CELL_SIZE_METERS = 250;
+export const MAX_CELL_SIZE_METERS = 5000;
+
+export const OPPORTUNITY_UNIT_LABELS: Record<OpportunityUnit, string> = {
+  grid: 'Grid cells',
+  zone: 'Zones'
+};
+
+// Areas with fewer restaurants than this say too little about demand to be ranked
+export const MIN_AREA_RESTAURANTS = 3;
+const MAX_OPPORTUNITIES = 10;
+
+const METERS_PER_DEGREE = (Math.PI / 180) * EARTH_RADIUS_METERS;
+
+export interface OpportunityArea {
+  id: string;
+  rank: number;
+  label: string;
+  polygons: PolygonRings[];
+  center: [number, number];
+  areaKm2: number;
+  restaurantCount: number;
+  cuisineCount: number;
+  // Restaurants of the cuisine the area would have at the citywide share
+  expectedCount: number;
+  density: number;
+  // 0–1 parts of the score: overall density against the densest area, and how far the cuisine
+  // falls short of its citywide share
+  demandScore: number;
+  gapScore: number;
+  score: number;
+}
+
+export interface OpportunityResult {
+  cuisine: string;
+  unit: OpportunityUnit;
+  // Share of the analysed restaurants that serve the cuisine
+  cuisineShare: number;
+  // Areas with enough restaurants to be scored
+  consideredCount: number;
+  areas: OpportunityArea[];
+}
+
+interface Candidate {
+  id: string;
+  label: string;
+  polygons: PolygonRings[];
+  center: [number, number];
+  areaKm2: number;
+  members: Restaurant[];
+}
+
+const mostCommonZone = (members: Restaurant[]) => {
+  const counts = new Map<string, number>();
+  members.forEach(restaurant => {
+    if (restaurant.zone) counts.set(restaurant.zone, (counts.get(restaurant.zone) ?? 0) + 1);
+  });
+  return Array.from(counts).sort(([, a], [, b]) => b - a)[0]?.[0];
+};
+
+// Square cells of roughly cellSizeMeters on a side, anchored at the south-west corner of the data
+function gridCandidates(restaurants: Restaurant[], cellSizeMeters: number): Candidate[] {
+  if (restaurants.length === 0) return [];
+
+  let minLat = Infinity;
+  let maxLat = -Infinity;
+  let minLon = Infinity;
+  for (const restaurant of restaurants) {
+    minLat = Math.min(minLat, restaurant.lat);
+    maxLat = Math.max(maxLat, restaurant.lat);
+    minLon = Math.min(minLon, restaurant.lon);
+  }
+  const latStep = cellSizeMeters / METERS_PER_DEGREE;
+  const lonStep = latStep / Math.max(Math.cos(((minLat + maxLat) / 2) * (Math.PI / 180)), 0.01);
+
+  const cells = new Map<string, { row: number; column: number; members: Restaurant[] }>();
+  restaurants.forEach(restaurant => {
+    const row = Math.floor((restaurant.lat - minLat) / latStep);
+    const column = Math.floor((restaurant.lon - minLon) / lonStep);
+    const key = `${row}:${column}`;
+    if (!cells.has(key)) cells.set(key, { row, column, members: [] });
+    cells.get(key)!.members.push(restaurant);
+  });
+
+  return Array.from(cells, ([key, { row, column, members }]) => {
+    const south = minLat + row * latStep;
+    const west = minLon + column * lonStep;
+    const ring: [number, number][] = [
+      [south, west],
+      [south + latStep, west],
+      [south + latStep, west + lonStep],
+      [south, west + lonStep]
+    ];
+    const center: [number, number] = [south + latStep / 2, west + lonStep / 2];
+    const zone = mostCommonZone(members);
+    const coordinates = `${center[0].toFixed(3)}, ${center[1].toFixed(3)}`;
+
+    return {
+      id: `cell-${key}`,
+      label: zone ? `${zone} near ${coordinates}` : `Near ${coordinates}`,
+      polygons: [[ring]],
+      center,
+      areaKm2: polygonAreaKm2(ring),
+      members
+    };
+  });
+}
+
+function zoneCandidates(restaurants: Restaurant[], shapes: ZoneShape[]): Candidate[] {
+  const members = new Map<string, Restaurant[]>();
+  restaurants.forEach(restaurant => {
+    if (!restaurant.zone) return;
+    if (!members.has(restaurant.zone)) members.set(restaurant.zone, []);
+    members.get(restaurant.zone)!.push(restaurant);
+  });
+
+  return shapes.map(shape => {
+    const zoneMembers = members.get(shape.name) ?? [];
+    const outer = shape.polygons[0]?.[0] ?? [];
+    const center: [number, number] = zoneMembers.length > 0
+      ? [
+        zoneMembers.reduce((sum, r) => sum + r.lat, 0) / zoneMembers.length,
+        zoneMembers.reduce((sum, r) => sum + r.lon, 0) / zoneMembers.length
+      ]
+      : [
+        outer.reduce((sum, [lat]) => sum + lat, 0) / Math.max(outer.length, 1),
+        outer.reduce((sum, [, lon]) => sum + lon, 0) / Math.max(outer.length, 1)
+      ];
+
+    return {
+      id: `zone-${shape.name}`,
+      label: shape.name,
+      polygons: shape.polygons,
+      center,
+      areaKm2: shape.areaKm2,
+      members: zoneMembers
+    };
+  });
+}
+
+// Whitespace for a cuisine: areas that are busy overall but where the cuisine is rarer than it
+// is across the whole data. The score multiplies the two, so a quiet area or one already well
+// served both rank low.
+export function findOpportunities(
+  restaurants: Restaurant[],
+  options: OpportunityOptions,
+  zoneShapes: ZoneShape[]
+): OpportunityResult | null {
+  if (!options.cuisine) return null;
+  const cuisine = options.cuisine;
+
+  const candidates = (options.unit === 'zone'
+    ? zoneCandidates(restaurants, zoneShapes)
+    : gridCandidates(restaurants, options.cellSizeMeters)
+  ).filter(candidate => candidate.members.length >= MIN_AREA_RESTAURANTS && candidate.areaKm2 > 0);
+
+  const cuisineShare = restaurants.length > 0
+    ? restaurants.filter(r => r.cuisine === cuisine).length / restaurants.length
+    : 0;
+  const maxDensity = candidates.reduce(
+    (max, candidate) => Math.max(max, candidate.members.length / candidate.areaKm2), 0
+  );
+
+  const scored = candidates.map(candidate => {
+    const restaurantCount = candidate.members.length;
+    const cuisineCount = candidate.members.filter(r => r.cuisine === cuisine).length;
+    const expectedCount = restaurantCount * cuisineShare;
+    const density = restaurantCount / candidate.areaKm2;
+    const demandScore = maxDensity > 0 ? density / maxDensity : 0;
+    // With no restaurant of the cuisine anywhere, every area is equally open
+    const gapScore = expectedCount > 0 ? Math.max(0, 1 - cuisineCount / expectedCount) : 1;
+
+    const { members, ...area } = candidate;
+    return {
+      ...area,
+      rank: 0,
+      restaurantCount,
+      cuisineCount,
+      expectedCount,
+      density,
+      demandScore,
+      gapScore,
+      score: demandScore * gapScore
+    };
+  });
+
+  const areas = scored
+    .filter(area => area.score > 0)
+    .sort((a, b) => b.score - a.score || b.restaurantCount - a.restaurantCount)
+    .slice(0, MAX_OPPORTUNITIES)
+    .map((area, index) => ({ ...area, rank: index + 1 }));
+
+  return { cuisine, unit: options.unit, cuisineShare, consideredCount: candidates.length, areas };
+}
@@ -0,0 +1,198 @@
+import { jsPDF } from 'jspdf';
+import html2canvas from 'html2canvas';
+import notoSansRegularUrl from '@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf?url';
+import notoSansBoldUrl from '@expo-google-fonts/noto-sans/700Bold/NotoSans_700Bold.ttf?url';
+import { KeyInsight } from '@/utils/insights';
+import { GroupStats } from '@/utils/exportData';
+
+export interface ReportSnapshot {
+  title: string;
+  canvas: HTMLCanvasElement;
+}
+
+export interface ReportContent {
+  title: string;
+  subtitle: string;
+  summary: [string, string][];
+  insights: KeyInsight[];
+  recommendations: string[];
+  cuisineStats: GroupStats[];
+  zoneStats: GroupStats[];
+  snapshots: ReportSnapshot[];
+}
+
+const PAGE_MARGIN = 15;
+const LINE_HEIGHT = 5;
+const STATS_TABLE_ROWS = 10;
+
+// jsPDF's built-in Helvetica only covers Windows-1252, so names in other scripts would come out
+// garbled; Noto Sans is embedded instead. The files are fetched on the first report and kept.
+const FONT_FAMILY = 'NotoSans';
+const FONT_FILES = [
+  { file: 'NotoSans-Regular.ttf', url: notoSansRegularUrl, style: 'normal' },
+  { file: 'NotoSans-Bold.ttf', url: notoSansBoldUrl, style: 'bold' }
+];
+
+let fontData: Promise<string[]> | null = null;
+
+async function fetchFontBase64(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load the report font: ${response.status}`);
+  const bytes = new Uint8Array(await response.arrayBuffer());
+
+  // Converted in chunks, since spreading the whole font into fromCharCode overflows the stack
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function loadFonts(): Promise<string[]> {
+  fontData ??= Promise.all(FONT_FILES.map(({ url }) => fetchFontBase64(url))).catch(error => {
+    fontData = null;
+    throw error;
+  });
+  return fontData;
+}
+
+// Tiles, markers and charts must have finished loading; stalled images are skipped after the timeout
+export async function waitForImages(element: HTMLElement, timeoutMs: number): Promise<void> {
+  const pending = Array.from(element.querySelectorAll('img')).filter(img => !img.complete);
+  const loaded = Promise.all(pending.map(img => new Promise(resolve => {
+    img.addEventListener('load', resolve, { once: true });
+    img.addEventListener('error', resolve, { once: true });
+  })));
+  await Promise.race([loaded, new Promise(resolve => setTimeout(resolve, timeoutMs))]);
+}
+
+// Map tiles come from another origin, so they are fetched with CORS to keep the canvas exportable
+export function captureElement(element: HTMLElement): Promise<HTMLCanvasElement> {
+  return html2canvas(element, { useCORS: true, backgroundColor: '#ffffff', scale: 2, logging: false });
+}
+
+// Lays out a multi-page A4 report: title and summary, insights, recommendations, the top
+// cuisines and zones, then every snapshot scaled to the page width and split across pages.
+// Snapshots of sections that rendered empty are left out.
+export async function buildPDFReport(content: ReportContent): Promise<Blob> {
+  const fonts = await loadFonts();
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  FONT_FILES.forEach(({ file, style }, i) => {
+    doc.addFileToVFS(file, fonts[i]);
+    doc.addFont(file, FONT_FAMILY, style);
+  });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(12);
+    y += 4;
+    doc.setFont(FONT_FAMILY, 'bold');
+    doc.setFontSize(13);
+    doc.text(text, PAGE_MARGIN, y);
+    y += LINE_HEIGHT + 2;
+  };
+
+  const paragraph = (text: string, indent = 0) => {
+    doc.setFont(FONT_FAMILY, 'normal');
+    doc.setFontSize(10);
+    const lines: string[] = doc.splitTextToSize(text, contentWidth - indent);
+    lines.forEach(line => {
+      ensureSpace(LINE_HEIGHT);
+      doc.text(line, PAGE_MARGIN + indent, y);
+      y += LINE_HEIGHT;
+    });
+  };
+
+  const table = (headers: string[], rows: string[][]) => {
+    const columnWidth = contentWidth / headers.length;
+    const drawRow = (cells: string[], bold: boolean) => {
+      ensureSpace(LINE_HEIGHT);
+      doc.setFont(FONT_FAMILY, bold ? 'bold' : 'normal');
+      doc.setFontSize(9);
+      cells.forEach((cell, i) => {
+        const text = doc.splitTextToSize(cell, columnWidth - 2)[0] ?? '';
+        doc.text(text, PAGE_MARGIN + i * columnWidth, y);
+      });
+      y += LINE_HEIGHT;
+    };
+    drawRow(headers, true);
+    rows.forEach(row => drawRow(row, false));
+  };
+
+  doc.setFont(FONT_FAMILY, 'bold');
+  doc.setFontSize(18);
+  doc.text(content.title, PAGE_MARGIN, y + 4);
+  y += 11;
+  doc.setFont(FONT_FAMILY, 'normal');
+  doc.setFontSize(10);
+  doc.setTextColor(110);
+  doc.text(content.subtitle, PAGE_MARGIN, y);
+  doc.setTextColor(0);
+  y += LINE_HEIGHT;
+
+  heading('Summary');
+  content.summary.forEach(([label, value]) => paragraph(`${label}: ${value}`));
+
+  heading('Key Insights');
+  content.insights.forEach(insight => paragraph(`${insight.title}: ${insight.text}`));
+
+  if (content.recommendations.length > 0) {
+    heading('Recommendations');
+    content.recommendations.forEach(recommendation => paragraph(`• ${recommendation}`, 2));
+  }
+
+  const statsRows = (stats: GroupStats[]) =>
+    stats.slice(0, STATS_TABLE_ROWS).map(group => [
+      group.name,
+      String(group.restaurants),
+      `${(group.share * 100).toFixed(1)}%`,
+      String(group.clusters)
+    ]);
+
+  heading('Top Cuisines');
+  table(['Cuisine', 'Restaurants', 'Share', 'Clusters'], statsRows(content.cuisineStats));
+
+  if (content.zoneStats.some(group => group.name !== 'Unknown')) {
+    heading('Top Zones');
+    table(['Zone', 'Restaurants', 'Share', 'Clusters'], statsRows(content.zoneStats));
+  }
+
+  // Each snapshot starts on a new page; tall ones continue in page-sized slices. A section that
+  // rendered empty has a zero-width canvas, which would leave no pixels per millimetre to slice by.
+  const snapshots = content.snapshots.filter(({ canvas }) => canvas.width > 0 && canvas.height > 0);
+  snapshots.forEach(({ title, canvas }) => {
+    doc.addPage();
+    y = PAGE_MARGIN;
+    heading(title);
+
+    const pixelsPerMm = canvas.width / contentWidth;
+    let offset = 0;
+    while (offset < canvas.height) {
+      const available = pageHeight - PAGE_MARGIN - y;
+      const sliceHeight = Math.min(canvas.height - offset, Math.floor(available * pixelsPerMm));
+      const slice = document.createElement('canvas');
+      slice.width = canvas.width;
+      slice.height = sliceHeight;
+      slice.getContext('2d')!.drawImage(canvas, 0, offset, canvas.width, sliceHeight, 0, 0, canvas.width, sliceHeight);
+      doc.addImage(slice, 'JPEG', PAGE_MARGIN, y, contentWidth, sliceHeight / pixelsPerMm);
+
+      offset += sliceHeight;
+      if (offset < canvas.height) {
+        doc.addPage();
+        y = PAGE_MARGIN;
+      }
+    }
+  });
+
+  return doc.output('blob');
+}
@@ -0,0 +1,290 @@
+import { BoundingBox } from '@/types/restaurant';
+import { haversineDistance, EARTH_RADIUS_METERS } from '@/utils/geo';
+
+export interface SpatialPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface NearestResult<T> {
+  item: T;
+  distance: number;
+}
+
+export interface SpatialIndex<T extends SpatialPoint> {
+  size: number;
+  bounds: BoundingBox | null;
+  search: (bbox: BoundingBox) => T[];
+  withinRadius: (center: [number, number], radiusMeters: number) => T[];
+  nearest: (
+    center: [number, number],
+    k: number,
+    predicate?: (item: T) => boolean,
+    maxDistanceMeters?: number
+  ) => NearestResult<T>[];
+}
+
+const NODE_SIZE = 64;
+
+// Static KD-tree over lat/lon (in the style of kdbush): items are sorted in place into
+// alternating lat/lon medians, so queries only visit the branches that can contain matches.
+// Bounding-box queries work in degrees; radius and nearest-neighbor queries use great-circle
+// distances in meters. The index is immutable, so rebuild it when the data changes.
+export function createSpatialIndex<T extends SpatialPoint>(items: T[]): SpatialIndex<T> {
+  const ids = new Uint32Array(items.length);
+  const coords = new Float64Array(items.length * 2);
+
+  items.forEach((item, i) => {
+    ids[i] = i;
+    coords[2 * i] = item.lat;
+    coords[2 * i + 1] = item.lon;
+  });
+
+  sortKD(ids, coords, 0, items.length - 1, 0);
+
+  const bounds = items.length === 0 ? null : computeBounds(coords);
+
+  const search = (bbox: BoundingBox): T[] => {
+    const result: T[] = [];
+    if (items.length === 0) return result;
+
+    const stack = [0, items.length - 1, 0];
+    while (stack.length > 0) {
+      const axis = stack.pop()!;
+      const right = stack.pop()!;
+      const left = stack.pop()!;
+
+      if (right - left <= NODE_SIZE) {
+        for (let i = left; i <= right; i++) {
+          if (inBox(coords[2 * i], coords[2 * i + 1], bbox)) result.push(items[ids[i]]);
+        }
+        continue;
+      }
+
+      const m = (left + right) >> 1;
+      const lat = coords[2 * m];
+      const lon = coords[2 * m + 1];
+      if (inBox(lat, lon, bbox)) result.push(items[ids[m]]);
+
+      const value = axis === 0 ? lat : lon;
+      const min = axis === 0 ? bbox.minLat : bbox.minLon;
+      const max = axis === 0 ? bbox.maxLat : bbox.maxLon;
+      if (min <= value) stack.push(left, m - 1, 1 - axis);
+      if (max >= value) stack.push(m + 1, right, 1 - axis);
+    }
+
+    return result;
+  };
+
+  const withinRadius = (center: [number, number], radiusMeters: number): T[] => {
+    return search(radiusBoundingBox(center, radiusMeters)).filter(
+      item => haversineDistance(center, [item.lat, item.lon]) <= radiusMeters
+    );
+  };
+
+  // Best-first traversal: tree nodes are visited in order of the distance from the query point
+  // to their bounding box, so the search stops as soon as k closer items have been found
+  const nearest = (
+    center: [number, number],
+    k: number,
+    predicate?: (item: T) => boolean,
+    maxDistanceMeters: number = Infinity
+  ): NearestResult<T>[] => {
+    const result: NearestResult<T>[] = [];
+    if (items.length === 0 || k <= 0) return result;
+
+    const queue = new MinHeap<QueueEntry>();
+    queue.push({
+      left: 0,
+      right: items.length - 1,
+      axis: 0,
+      box: bounds!,
+      distance: 0
+    });
+
+    while (queue.size > 0) {
+      const entry = queue.pop()!;
+      // Entries come out nearest first, so nothing after this one is within range either
+      if (entry.distance > maxDistanceMeters) break;
+
+      if (entry.itemIndex !== undefined) {
+        result.push({ item: items[entry.itemIndex], distance: entry.distance });
+        if (result.length === k) break;
+        continue;
+      }
+
+      const { left, right, axis, box } = entry;
+      if (right < left) continue;
+
+      const enqueueItem = (i: number) => {
+        const item = items[ids[i]];
+        if (predicate && !predicate(item)) return;
+        queue.push({
+          left: 0,
+          right: -1,
+          axis,
+          box,
+          itemIndex: ids[i],
+          distance: haversineDistance(center, [item.lat, item.lon])
+        });
+      };
+
+      if (right - left <= NODE_SIZE) {
+        for (let i = left; i <= right; i++) enqueueItem(i);
+        continue;
+      }
+
+      const m = (left + right) >> 1;
+      enqueueItem(m);
+
+      const value = coords[2 * m + axis];
+      const leftBox = axis === 0 ? { ...box, maxLat: value } : { ...box, maxLon: value };
+      const rightBox = axis === 0 ? { ...box, minLat: value } : { ...box, minLon: value };
+
+      queue.push({ left, right: m - 1, axis: 1 - axis, box: leftBox, distance: boxDistance(center, leftBox) });
+      queue.push({ left: m + 1, right, axis: 1 - axis, box: rightBox, distance: boxDistance(center, rightBox) });
+    }
+
+    return result;
+  };
+
+  return { size: items.length, bounds, search, withinRadius, nearest };
+}
+
+// Degree bounding box that contains every point within radiusMeters of center
+export function radiusBoundingBox(center: [number, number], radiusMeters: number): BoundingBox {
+  const latDelta = (radiusMeters / EARTH_RADIUS_METERS) * (180 / Math.PI);
+  const cosLat = Math.cos((center[0] * Math.PI) / 180);
+  const lonDelta = cosLat < 1e-6 ? 180 : Math.min(180, latDelta / cosLat);
+
+  return {
+    minLat: center[0] - latDelta,
+    maxLat: center[0] + latDelta,
+    minLon: center[1] - lonDelta,
+    maxLon: center[1] + lonDelta
+  };
+}
+
+interface QueueEntry {
+  left: number;
+  right: number;
+  axis: number;
+  box: BoundingBox;
+  distance: number;
+  itemIndex?: number;
+}
+
+function inBox(lat: number, lon: number, bbox: BoundingBox) {
+  return lat >= bbox.minLat && lat <= bbox.maxLat && lon >= bbox.minLon && lon <= bbox.maxLon;
+}
+
+// Distance from a point to the nearest point of a box, found by clamping the point into it.
+// At city scale this is a tight lower bound for the great-circle distance to anything inside.
+function boxDistance(center: [number, number], box: BoundingBox) {
+  const lat = Math.min(Math.max(center[0], box.minLat), box.maxLat);
+  const lon = Math.min(Math.max(center[1], box.minLon), box.maxLon);
+  return haversineDistance(center, [lat, lon]);
+}
+
+function computeBounds(coords: Float64Array): BoundingBox {
+  const bounds = { minLat: Infinity, minLon: Infinity, maxLat: -Infinity, maxLon: -Infinity };
+  for (let i = 0; i < coords.length; i += 2) {
+    bounds.minLat = Math.min(bounds.minLat, coords[i]);
+    bounds.maxLat = Math.max(bounds.maxLat, coords[i]);
+    bounds.minLon = Math.min(bounds.minLon, coords[i + 1]);
+    bounds.maxLon = Math.max(bounds.maxLon, coords[i + 1]);
+  }
+  return bounds;
+}
+
+function sortKD(ids: Uint32Array, coords: Float64Array, left: number, right: number, axis: number) {
+  if (right - left <= NODE_SIZE) return;
+
+  const m = (left + right) >> 1;
+  select(ids, coords, m, left, right, axis);
+  sortKD(ids, coords, left, m - 1, 1 - axis);
+  sortKD(ids, coords, m + 1, right, 1 - axis);
+}
+
+// Quickselect: reorders [left, right] so position k holds the k-th smallest value on the axis
+function select(ids: Uint32Array, coords: Float64Array, k: number, left: number, right: number, axis: number) {
+  while (right > left) {
+    const pivot = coords[2 * ((left + right) >> 1) + axis];
+    let i = left;
+    let j = right;
+
+    while (i <= j) {
+      while (coords[2 * i + axis] < pivot) i++;
+      while (coords[2 * j + axis] > pivot) j--;
+      if (i <= j) {
+        swap(ids, coords, i, j);
+        i++;
+        j--;
+      }
+    }
+
+    if (k <= j) {
+      right = j;
+    } else if (k >= i) {
+      left = i;
+    } else {
+      break;
+    }
+  }
+}
+
+function swap(ids: Uint32Array, coords: Float64Array, i: number, j: number) {
+  const id = ids[i];
+  ids[i] = ids[j];
+  ids[j] = id;
+
+  for (let offset = 0; offset < 2; offset++) {
+    const value = coords[2 * i + offset];
+    coords[2 * i + offset] = coords[2 * j + offset];
+    coords[2 * j + offset] = value;
+  }
+}
+
+class MinHeap<T extends { distance: number }> {
+  private items: T[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(item: T) {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].distance <= items[i].distance) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].distance < items[smallest].distance) smallest = left;
+        if (right < items.length && items[right].distance < items[smallest].distance) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+
+    return top;
+  }
+}
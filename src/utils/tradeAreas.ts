@@ -0,0 +1,71 @@
+import { AreaShape, BoundingBox, TradeArea } from '@/types/restaurant';
+import { haversineDistance, isFiniteNumber, isLatLon, isRing, pointInPolygon } from '@/utils/geo';
+
+const STORAGE_KEY = 'bistro-vista:trade-areas';
+
+export function isPointInShape(point: [number, number], shape: AreaShape): boolean {
+  switch (shape.type) {
+    case 'rectangle':
+      return point[0] >= shape.bounds.minLat && point[0] <= shape.bounds.maxLat &&
+        point[1] >= shape.bounds.minLon && point[1] <= shape.bounds.maxLon;
+    case 'circle':
+      return haversineDistance(point, shape.center) <= shape.radiusMeters;
+    case 'polygon':
+      return pointInPolygon(point, shape.ring);
+  }
+}
+
+export function describeShape(shape: AreaShape): string {
+  switch (shape.type) {
+    case 'rectangle':
+      return 'Rectangle';
+    case 'circle':
+      return `Circle, ${shape.radiusMeters >= 1000
+        ? `${(shape.radiusMeters / 1000).toFixed(1)} km`
+        : `${Math.round(shape.radiusMeters)} m`} radius`;
+    case 'polygon':
+      return `Polygon, ${shape.ring.length} vertices`;
+  }
+}
+
+function isAreaShape(value: unknown): value is AreaShape {
+  const shape = value as Record<string, unknown> | null;
+  switch (shape?.type) {
+    case 'polygon':
+      return isRing(shape.ring);
+    case 'rectangle': {
+      const bounds = shape.bounds as Partial<BoundingBox> | null;
+      return [bounds?.minLat, bounds?.minLon, bounds?.maxLat, bounds?.maxLon].every(isFiniteNumber);
+    }
+    case 'circle':
+      return isLatLon(shape.center) && isFiniteNumber(shape.radiusMeters) && shape.radiusMeters >= 0;
+    default:
+      return false;
+  }
+}
+
+// Saved areas and areas in shared links are parsed JSON; malformed entries are dropped
+// instead of failing later in the filters or on the map
+export function isTradeArea(value: unknown): value is TradeArea {
+  const area = value as Partial<TradeArea> | null;
+  return typeof area?.id === 'string' && typeof area.name === 'string' && isAreaShape(area.shape);
+}
+
+// Saved trade areas live in localStorage so drawn shapes can be reused across sessions
+export function loadTradeAreas(): TradeArea[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const areas: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(areas) ? areas.filter(isTradeArea) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveTradeAreas(areas: TradeArea[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(areas));
+  } catch (error) {
+    console.error('Failed to save trade areas:', error);
+  }
+}
@@ -0,0 +1,318 @@
+import {
+  AreaShape,
+  ClassificationMethod,
+  ClusteringAlgorithm,
+  CompetitionMetric,
+  DashboardTab,
+  DashboardViewState,
+  FacetFilter,
+  MapViewport,
+  OpportunityUnit,
+  RangeFilter,
+  TradeArea
+} from '@/types/restaurant';
+import { EMPTY_FILTERS, FACET_FIELDS } from '@/utils/filters';
+import {
+  DEFAULT_DENSITY_OPTIONS,
+  MAX_EPS_METERS,
+  MAX_MIN_PTS,
+  MIN_EPS_METERS,
+  MIN_MIN_PTS
+} from '@/utils/densityClustering';
+import { MAX_CLUSTER_COUNT, MAX_HULL_BUFFER_METERS, MIN_CLUSTER_COUNT } from '@/utils/clustering';
+import {
+  DEFAULT_HEATMAP_OPTIONS,
+  MAX_HEATMAP_BLUR,
+  MAX_HEATMAP_INTENSITY,
+  MAX_HEATMAP_RADIUS,
+  MIN_HEATMAP_BLUR,
+  MIN_HEATMAP_INTENSITY,
+  MIN_HEATMAP_RADIUS
+} from '@/utils/heatmap';
+import { DEFAULT_MARKER_ENCODING } from '@/utils/markerEncoding';
+import { DEFAULT_CHOROPLETH_OPTIONS, MAX_CLASSES, MIN_CLASSES, metricKey, parseMetricKey } from '@/utils/choropleth';
+import { COMPETITION_METRICS } from '@/utils/competition';
+import { DEFAULT_OPPORTUNITY_OPTIONS, MAX_CELL_SIZE_METERS, MIN_CELL_SIZE_METERS } from '@/utils/opportunities';
+import { isTradeArea } from '@/utils/tradeAreas';
+
+export const DEFAULT_VIEW_STATE: DashboardViewState = {
+  tab: 'map',
+  filters: EMPTY_FILTERS,
+  clusteringAlgorithm: 'kmeans',
+  clusterCount: 5,
+  densityOptions: DEFAULT_DENSITY_OPTIONS,
+  showClusters: false,
+  showHeatmap: false,
+  heatmapOptions: DEFAULT_HEATMAP_OPTIONS,
+  aggregateMarkers: true,
+  showHulls: true,
+  hullBufferMeters: 0,
+  showZoneBoundaries: true,
+  showChoropleth: false,
+  choroplethOptions: DEFAULT_CHOROPLETH_OPTIONS,
+  opportunityOptions: DEFAULT_OPPORTUNITY_OPTIONS,
+  markerEncoding: DEFAULT_MARKER_ENCODING,
+  viewport: null
+};
+
+const TABS: DashboardTab[] = ['map', 'clusters', 'analytics', 'insights', 'data'];
+const ALGORITHMS: ClusteringAlgorithm[] = ['kmeans', 'dbscan', 'hdbscan'];
+const CLASSIFICATION_METHODS: ClassificationMethod[] = ['quantile', 'equal-interval', 'jenks'];
+const OPPORTUNITY_UNITS: OpportunityUnit[] = ['grid', 'zone'];
+
+// Attribute keys are arbitrary column headers, so they go after a prefix rather than into a fixed name
+const ATTRIBUTE_PREFIX = 'attr.';
+const ATTRIBUTE_EXCLUDE_PREFIX = 'attrExclude.';
+const RANGE_PREFIX = 'range.';
+const COMPETITION_PREFIX = 'comp.';
+const RANGE_SEPARATOR = '~';
+
+// ~1 m precision keeps shared links short
+const COORDINATE_DECIMALS = 5;
+
+const roundCoordinate = (value: number) => Number(value.toFixed(COORDINATE_DECIMALS));
+
+const parseNumber = (value: string | null, fallback: number) => {
+  if (value === null || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  return isFinite(parsed) ? parsed : fallback;
+};
+
+const parseBoolean = (value: string | null, fallback: boolean) =>
+  value === '1' ? true : value === '0' ? false : fallback;
+
+const parseOneOf = <T extends string>(value: string | null, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+function parseFacet(params: URLSearchParams, valuesKey: string, exclude: boolean): FacetFilter {
+  return { values: params.getAll(valuesKey), mode: exclude ? 'exclude' : 'include' };
+}
+
+function parseRange(value: string): RangeFilter | null {
+  const [min, max] = value.split(RANGE_SEPARATOR);
+  if (max === undefined) return null;
+  const range = { min: parseNumber(min, NaN), max: parseNumber(max, NaN) };
+  return {
+    min: isNaN(range.min) ? null : range.min,
+    max: isNaN(range.max) ? null : range.max
+  };
+}
+
+// Applied areas travel with the link, since a colleague will not have them in their saved list
+function parseAreas(value: string | null): TradeArea[] {
+  if (!value) return [];
+  try {
+    const areas = JSON.parse(value);
+    if (!Array.isArray(areas)) return [];
+    return areas.filter(isTradeArea);
+  } catch {
+    return [];
+  }
+}
+
+function roundShape(shape: AreaShape): AreaShape {
+  switch (shape.type) {
+    case 'polygon':
+      return { ...shape, ring: shape.ring.map(([lat, lon]) => [roundCoordinate(lat), roundCoordinate(lon)]) };
+    case 'rectangle':
+      return {
+        ...shape,
+        bounds: {
+          minLat: roundCoordinate(shape.bounds.minLat),
+          minLon: roundCoordinate(shape.bounds.minLon),
+          maxLat: roundCoordinate(shape.bounds.maxLat),
+          maxLon: roundCoordinate(shape.bounds.maxLon)
+        }
+      };
+    case 'circle':
+      return {
+        ...shape,
+        center: [roundCoordinate(shape.center[0]), roundCoordinate(shape.center[1])],
+        radiusMeters: Math.round(shape.radiusMeters)
+      };
+  }
+}
+
+function parseViewport(value: string | null): MapViewport | null {
+  if (!value) return null;
+  const [lat, lon, zoom] = value.split(',').map(Number);
+  if ([lat, lon, zoom].some(part => !isFinite(part))) return null;
+  return { center: [lat, lon], zoom };
+}
+
+export function formatViewport(viewport: MapViewport): string {
+  return [roundCoordinate(viewport.center[0]), roundCoordinate(viewport.center[1]), viewport.zoom].join(',');
+}
+
+// Reads a view from search params; missing or malformed params fall back to the defaults
+export function decodeViewState(params: URLSearchParams): DashboardViewState {
+  const defaults = DEFAULT_VIEW_STATE;
+
+  const facets = { ...defaults.filters.facets };
+  FACET_FIELDS.forEach(field => {
+    facets[field] = parseFacet(params, field, params.get(`${field}Mode`) === 'exclude');
+  });
+
+  const attributeFacets: Record<string, FacetFilter> = {};
+  const attributeRanges: Record<string, RangeFilter> = {};
+  const competitionRanges: Partial<Record<CompetitionMetric, RangeFilter>> = {};
+  for (const [name, value] of params.entries()) {
+    if (name.startsWith(ATTRIBUTE_PREFIX)) {
+      const key = name.slice(ATTRIBUTE_PREFIX.length);
+      attributeFacets[key] ??= parseFacet(params, name, params.has(`${ATTRIBUTE_EXCLUDE_PREFIX}${key}`));
+    } else if (name.startsWith(ATTRIBUTE_EXCLUDE_PREFIX)) {
+      const key = name.slice(ATTRIBUTE_EXCLUDE_PREFIX.length);
+      attributeFacets[key] ??= parseFacet(params, `${ATTRIBUTE_PREFIX}${key}`, true);
+    } else if (name.startsWith(RANGE_PREFIX)) {
+      const range = parseRange(value);
+      if (range) attributeRanges[name.slice(RANGE_PREFIX.length)] = range;
+    } else if (name.startsWith(COMPETITION_PREFIX)) {
+      const metric = name.slice(COMPETITION_PREFIX.length) as CompetitionMetric;
+      const range = parseRange(value);
+      if (range && COMPETITION_METRICS.includes(metric)) competitionRanges[metric] = range;
+    }
+  }
+
+  const clusterCountParam = params.get('k');
+
+  return {
+    tab: parseOneOf(params.get('tab'), TABS, defaults.tab),
+    filters: {
+      search: params.get('q') ?? '',
+      facets,
+      areas: parseAreas(params.get('areas')),
+      attributeFacets,
+      attributeRanges,
+      competitionRanges
+    },
+    clusteringAlgorithm: parseOneOf(params.get('algo'), ALGORITHMS, defaults.clusteringAlgorithm),
+    clusterCount: clusterCountParam === 'auto'
+      ? 'auto'
+      : Math.min(MAX_CLUSTER_COUNT, Math.max(MIN_CLUSTER_COUNT,
+        Math.round(parseNumber(clusterCountParam, defaults.clusterCount as number)))),
+    densityOptions: {
+      epsMeters: Math.min(MAX_EPS_METERS, Math.max(MIN_EPS_METERS,
+        parseNumber(params.get('eps'), defaults.densityOptions.epsMeters)
+      )),
+      minPts: Math.min(MAX_MIN_PTS, Math.max(MIN_MIN_PTS, Math.round(
+        parseNumber(params.get('minPts'), defaults.densityOptions.minPts)
+      )))
+    },
+    showClusters: parseBoolean(params.get('clusters'), defaults.showClusters),
+    showHeatmap: parseBoolean(params.get('heatmap'), defaults.showHeatmap),
+    heatmapOptions: {
+      radius: Math.min(MAX_HEATMAP_RADIUS, Math.max(MIN_HEATMAP_RADIUS,
+        parseNumber(params.get('heatRadius'), defaults.heatmapOptions.radius)
+      )),
+      blur: Math.min(MAX_HEATMAP_BLUR, Math.max(MIN_HEATMAP_BLUR,
+        parseNumber(params.get('heatBlur'), defaults.heatmapOptions.blur)
+      )),
+      intensity: Math.min(MAX_HEATMAP_INTENSITY, Math.max(MIN_HEATMAP_INTENSITY,
+        parseNumber(params.get('heatIntensity'), defaults.heatmapOptions.intensity)
+      ))
+    },
+    aggregateMarkers: parseBoolean(params.get('aggregate'), defaults.aggregateMarkers),
+    showHulls: parseBoolean(params.get('hulls'), defaults.showHulls),
+    hullBufferMeters: Math.min(MAX_HULL_BUFFER_METERS, Math.max(0,
+      parseNumber(params.get('buffer'), defaults.hullBufferMeters)
+    )),
+    showZoneBoundaries: parseBoolean(params.get('boundaries'), defaults.showZoneBoundaries),
+    showChoropleth: parseBoolean(params.get('choropleth'), defaults.showChoropleth),
+    choroplethOptions: {
+      metric: parseMetricKey(params.get('choroMetric')) ?? defaults.choroplethOptions.metric,
+      method: parseOneOf(params.get('classify'), CLASSIFICATION_METHODS, defaults.choroplethOptions.method),
+      classes: Math.min(MAX_CLASSES, Math.max(MIN_CLASSES, Math.round(
+        parseNumber(params.get('classes'), defaults.choroplethOptions.classes)
+      )))
+    },
+    opportunityOptions: {
+      cuisine: params.get('gapCuisine') || null,
+      unit: parseOneOf(params.get('gapUnit'), OPPORTUNITY_UNITS, defaults.opportunityOptions.unit),
+      cellSizeMeters: Math.min(MAX_CELL_SIZE_METERS, Math.max(MIN_CELL_SIZE_METERS,
+        parseNumber(params.get('gapCell'), defaults.opportunityOptions.cellSizeMeters)
+      ))
+    },
+    markerEncoding: {
+      colorBy: params.get('color'),
+      sizeBy: params.get('size')
+    },
+    viewport: parseViewport(params.get('map'))
+  };
+}
+
+// Writes only the parts of the view that differ from the defaults, so an untouched
+// dashboard keeps a bare URL
+export function encodeViewState(state: DashboardViewState): URLSearchParams {
+  const defaults = DEFAULT_VIEW_STATE;
+  const params = new URLSearchParams();
+  const setIfChanged = <T>(name: string, value: T, fallback: T, format: (value: T) => string = String) => {
+    if (value !== fallback) params.set(name, format(value));
+  };
+  const flag = (value: boolean) => (value ? '1' : '0');
+
+  setIfChanged('tab', state.tab, defaults.tab);
+
+  const { filters } = state;
+  setIfChanged('q', filters.search, '');
+  FACET_FIELDS.forEach(field => {
+    const facet = filters.facets[field];
+    facet.values.forEach(value => params.append(field, value));
+    if (facet.mode === 'exclude') params.set(`${field}Mode`, 'exclude');
+  });
+  Object.entries(filters.attributeFacets).forEach(([key, facet]) => {
+    facet.values.forEach(value => params.append(`${ATTRIBUTE_PREFIX}${key}`, value));
+    if (facet.mode === 'exclude') params.set(`${ATTRIBUTE_EXCLUDE_PREFIX}${key}`, '1');
+  });
+  Object.entries(filters.attributeRanges).forEach(([key, range]) => {
+    if (range.min === null && range.max === null) return;
+    params.set(`${RANGE_PREFIX}${key}`, `${range.min ?? ''}${RANGE_SEPARATOR}${range.max ?? ''}`);
+  });
+  Object.entries(filters.competitionRanges).forEach(([metric, range]) => {
+    if (range.min === null && range.max === null) return;
+    params.set(`${COMPETITION_PREFIX}${metric}`, `${range.min ?? ''}${RANGE_SEPARATOR}${range.max ?? ''}`);
+  });
+  if (filters.areas.length > 0) {
+    params.set('areas', JSON.stringify(filters.areas.map(area => ({ ...area, shape: roundShape(area.shape) }))));
+  }
+
+  setIfChanged('algo', state.clusteringAlgorithm, defaults.clusteringAlgorithm);
+  setIfChanged('k', state.clusterCount, defaults.clusterCount);
+  setIfChanged('eps', state.densityOptions.epsMeters, defaults.densityOptions.epsMeters);
+  setIfChanged('minPts', state.densityOptions.minPts, defaults.densityOptions.minPts);
+
+  setIfChanged('clusters', state.showClusters, defaults.showClusters, flag);
+  setIfChanged('heatmap', state.showHeatmap, defaults.showHeatmap, flag);
+  setIfChanged('heatRadius', state.heatmapOptions.radius, defaults.heatmapOptions.radius);
+  setIfChanged('heatBlur', state.heatmapOptions.blur, defaults.heatmapOptions.blur);
+  setIfChanged('heatIntensity', state.heatmapOptions.intensity, defaults.heatmapOptions.intensity);
+  setIfChanged('aggregate', state.aggregateMarkers, defaults.aggregateMarkers, flag);
+  setIfChanged('hulls', state.showHulls, defaults.showHulls, flag);
+  setIfChanged('buffer', state.hullBufferMeters, defaults.hullBufferMeters);
+  setIfChanged('boundaries', state.showZoneBoundaries, defaults.showZoneBoundaries, flag);
+  setIfChanged('choropleth', state.showChoropleth, defaults.showChoropleth, flag);
+  setIfChanged('choroMetric', metricKey(state.choroplethOptions.metric), metricKey(defaults.choroplethOptions.metric));
+  setIfChanged('classify', state.choroplethOptions.method, defaults.choroplethOptions.method);
+  setIfChanged('classes', state.choroplethOptions.classes, defaults.choroplethOptions.classes);
+  setIfChanged('gapCuisine', state.opportunityOptions.cuisine, defaults.opportunityOptions.cuisine);
+  setIfChanged('gapUnit', state.opportunityOptions.unit, defaults.opportunityOptions.unit);
+  setIfChanged('gapCell', state.opportunityOptions.cellSizeMeters, defaults.opportunityOptions.cellSizeMeters);
+
+  if (state.markerEncoding.colorBy) params.set('color', state.markerEncoding.colorBy);
+  if (state.markerEncoding.sizeBy) params.set('size', state.markerEncoding.sizeBy);
+
+  if (state.viewport) params.set('map', formatViewport(state.viewport));
+
+  return params;
+}
+
+// Carries over every top-level part of the previous view that did not change, so memoised work
+// keyed on it (filtering, clustering) is not redone when only the viewport or tab moves
+export function reuseUnchanged(previous: DashboardViewState, next: DashboardViewState): DashboardViewState {
+  const merged = { ...next };
+  (Object.keys(next) as (keyof DashboardViewState)[]).forEach(key => {
+    if (JSON.stringify(previous[key]) === JSON.stringify(next[key])) {
+      (merged as Record<string, unknown>)[key] = previous[key];
+    }
+  });
+  return merged;
+}
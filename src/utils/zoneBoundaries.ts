@@ -0,0 +1,204 @@
+import { BoundingBox, PolygonRings, Restaurant, ZoneBoundary, ZoneBoundarySet } from '@/types/restaurant';
+import { isRing, pointInPolygon, polygonAreaKm2 } from '@/utils/geo';
+import { getSetting, putSetting } from '@/utils/datasetStore';
+
+const SETTING_KEY = 'zone-boundaries';
+const LEGACY_STORAGE_KEY = 'bistro-vista:zone-boundaries';
+
+// Property names that usually hold a zone's name in neighborhood and district files,
+// compared without case or punctuation
+const NAME_PROPERTY_CANDIDATES = [
+  'name', 'zone', 'zonename', 'neighborhood', 'neighbourhood', 'ntaname', 'nhood',
+  'district', 'districtname', 'boroname', 'borough', 'area', 'areaname', 'label', 'title'
+];
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+type Position = [number, number];
+
+// GeoJSON rings are [lon, lat]; everything in the app is [lat, lon]
+const toRings = (rings: Position[][]): PolygonRings =>
+  rings.map(ring => ring.map(([lon, lat]) => [lat, lon] as [number, number]));
+
+function geometryPolygons(geometry: { type?: string; coordinates?: unknown; geometries?: unknown[] } | null): PolygonRings[] {
+  if (!geometry) return [];
+  switch (geometry.type) {
+    case 'Polygon':
+      return [toRings(geometry.coordinates as Position[][])];
+    case 'MultiPolygon':
+      return (geometry.coordinates as Position[][][]).map(toRings);
+    case 'GeometryCollection':
+      return (geometry.geometries ?? []).flatMap(child => geometryPolygons(child as typeof geometry));
+    default:
+      return [];
+  }
+}
+
+const stringifyProperty = (value: unknown) =>
+  value === null || value === undefined || typeof value === 'object' ? '' : String(value);
+
+// Picks the property most likely to name the zones: a known name key first, otherwise the
+// text property with the most distinct values
+function guessNameProperty(boundaries: ZoneBoundary[], keys: string[]): string | null {
+  for (const candidate of NAME_PROPERTY_CANDIDATES) {
+    const key = keys.find(k => normalizeKey(k) === candidate);
+    if (key) return key;
+  }
+
+  let best: { key: string; distinct: number } | null = null;
+  for (const key of keys) {
+    const values = boundaries.map(boundary => boundary.properties[key]).filter(value => value && isNaN(Number(value)));
+    const distinct = new Set(values).size;
+    if (distinct > 0 && (!best || distinct > best.distinct)) best = { key, distinct };
+  }
+  return best?.key ?? null;
+}
+
+// Reads Polygon and MultiPolygon features from a GeoJSON file; other geometries are skipped
+export function parseZoneBoundaries(text: string, sourceName: string): ZoneBoundarySet {
+  let data: { type?: string; features?: unknown[] };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The boundary file is not valid JSON.');
+  }
+
+  const features = data.type === 'FeatureCollection' ? data.features ?? [] : data.type === 'Feature' ? [data] : null;
+  if (!features) throw new Error('Expected a GeoJSON FeatureCollection of zone polygons.');
+
+  const keys = new Set<string>();
+  const boundaries = features.flatMap((feature, index) => {
+    const { geometry, properties } = feature as {
+      geometry?: { type?: string; coordinates?: unknown } | null;
+      properties?: Record<string, unknown> | null;
+    };
+    const polygons = geometryPolygons(geometry ?? null).filter(rings => rings[0]?.length >= 3);
+    if (polygons.length === 0) return [];
+
+    const textProperties: Record<string, string> = {};
+    Object.entries(properties ?? {}).forEach(([key, value]) => {
+      const text = stringifyProperty(value);
+      if (text) {
+        textProperties[key] = text;
+        keys.add(key);
+      }
+    });
+    return [{ id: `zone-${index}`, properties: textProperties, polygons }];
+  });
+
+  if (boundaries.length === 0) throw new Error('The file contains no Polygon or MultiPolygon features.');
+
+  const propertyKeys = Array.from(keys);
+  return {
+    sourceName,
+    nameProperty: guessNameProperty(boundaries, propertyKeys),
+    propertyKeys,
+    mode: 'replace',
+    boundaries
+  };
+}
+
+// Zone name for each boundary; features without a value for the name property are numbered
+export function getBoundaryNames(set: ZoneBoundarySet): string[] {
+  return set.boundaries.map((boundary, index) =>
+    (set.nameProperty && boundary.properties[set.nameProperty]?.trim()) || `Zone ${index + 1}`
+  );
+}
+
+function ringBounds(ring: [number, number][]): BoundingBox {
+  const bounds = { minLat: Infinity, minLon: Infinity, maxLat: -Infinity, maxLon: -Infinity };
+  for (const [lat, lon] of ring) {
+    bounds.minLat = Math.min(bounds.minLat, lat);
+    bounds.minLon = Math.min(bounds.minLon, lon);
+    bounds.maxLat = Math.max(bounds.maxLat, lat);
+    bounds.maxLon = Math.max(bounds.maxLon, lon);
+  }
+  return bounds;
+}
+
+const inBounds = ([lat, lon]: [number, number], bounds: BoundingBox) =>
+  lat >= bounds.minLat && lat <= bounds.maxLat && lon >= bounds.minLon && lon <= bounds.maxLon;
+
+// Inside a polygon means inside its outer ring and outside all of its holes
+const inPolygon = (point: [number, number], [outer, ...holes]: PolygonRings) =>
+  pointInPolygon(point, outer) && !holes.some(hole => pointInPolygon(point, hole));
+
+// Restaurants with the zone of the boundary that contains them. Overlapping boundaries resolve
+// to the first in file order; restaurants outside every boundary keep the zone from the data.
+// Unchanged restaurants are returned as the same objects.
+export function assignZones(restaurants: Restaurant[], set: ZoneBoundarySet): Restaurant[] {
+  const names = getBoundaryNames(set);
+  const polygons = set.boundaries.flatMap((boundary, index) =>
+    boundary.polygons.map(rings => ({ rings, bounds: ringBounds(rings[0]), name: names[index] }))
+  );
+
+  return restaurants.map(restaurant => {
+    if (set.mode === 'fill' && restaurant.zone) return restaurant;
+
+    const point: [number, number] = [restaurant.lat, restaurant.lon];
+    const container = polygons.find(polygon => inBounds(point, polygon.bounds) && inPolygon(point, polygon.rings));
+    if (!container || container.name === restaurant.zone) return restaurant;
+    return { ...restaurant, zone: container.name };
+  });
+}
+
+// Land area per zone name in km²; features sharing a name are added together
+export function getZoneAreas(set: ZoneBoundarySet): Record<string, number> {
+  const names = getBoundaryNames(set);
+  const areas: Record<string, number> = {};
+
+  set.boundaries.forEach((boundary, index) => {
+    const area = boundary.polygons.reduce((sum, [outer, ...holes]) =>
+      sum + polygonAreaKm2(outer) - holes.reduce((holeSum, hole) => holeSum + polygonAreaKm2(hole), 0), 0);
+    areas[names[index]] = (areas[names[index]] ?? 0) + area;
+  });
+
+  return areas;
+}
+
+function isZoneBoundary(value: unknown): value is ZoneBoundary {
+  const boundary = value as Partial<ZoneBoundary> | null;
+  return typeof boundary?.id === 'string' &&
+    typeof boundary.properties === 'object' && boundary.properties !== null &&
+    Object.values(boundary.properties).every(property => typeof property === 'string') &&
+    Array.isArray(boundary.polygons) && boundary.polygons.length > 0 &&
+    boundary.polygons.every(rings => Array.isArray(rings) && rings.length > 0 && rings.every(isRing));
+}
+
+// Boundaries stored by earlier versions are parsed JSON: malformed boundaries are dropped,
+// and a set left with none is discarded
+function parseLegacyBoundaries(text: string): ZoneBoundarySet | null {
+  try {
+    const set = JSON.parse(text) as Partial<ZoneBoundarySet> | null;
+    const boundaries = Array.isArray(set?.boundaries) ? set.boundaries.filter(isZoneBoundary) : [];
+    if (boundaries.length === 0) return null;
+
+    return {
+      sourceName: typeof set.sourceName === 'string' ? set.sourceName : 'Zone boundaries',
+      nameProperty: typeof set.nameProperty === 'string' ? set.nameProperty : null,
+      propertyKeys: Array.isArray(set.propertyKeys) ? set.propertyKeys.filter(key => typeof key === 'string') : [],
+      mode: set.mode === 'fill' ? 'fill' : 'replace',
+      boundaries
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Boundaries apply to every dataset, like saved trade areas. Polygon files easily outgrow
+// localStorage, so they are kept in IndexedDB next to the datasets; boundaries stored in
+// localStorage by earlier versions are moved there on first load.
+export async function loadZoneBoundaries(): Promise<ZoneBoundarySet | null> {
+  const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (legacy) {
+    const set = parseLegacyBoundaries(legacy);
+    if (set) await saveZoneBoundaries(set);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    if (set) return set;
+  }
+  return (await getSetting<ZoneBoundarySet>(SETTING_KEY)) ?? null;
+}
+
+export function saveZoneBoundaries(set: ZoneBoundarySet | null): Promise<void> {
+  return putSetting(SETTING_KEY, set);
+}